@@ -4,21 +4,35 @@ import TokenInfoCard from './components/TokenInfoCard';
 import RiskScoreCard from './components/RiskScoreCard';
 import ForensicAnalysisCard from './components/ForensicAnalysisCard';
 import BundleControlCard from './components/BundleControlCard';
+import WalletGraph from './components/WalletGraph';
+import ExportMenu from './components/ExportMenu';
 import VolumeRiskCard from './components/VolumeRiskCard';
 import DetectionSteps from './components/DetectionSteps';
-import { runFullScan } from './services/scanEngine';
+import TokenCandidatePicker from './components/TokenCandidatePicker';
+import { createScanEngine, targetForCandidate, ScanTarget } from './services/scanEngine';
+import { TokenCandidate } from './services/dexScreener';
+import { createScanHistoryStore, localStorageHistoryBackend } from './services/scanHistory';
+import { createReputationRegistry, ReputationEntry } from './services/walletReputation';
 import { ScanResult } from './lib/mockData';
 
+const scanHistory = createScanHistoryStore(localStorageHistoryBackend());
+const scanEngine = createScanEngine(undefined, {
+  reputation: createReputationRegistry(localStorageHistoryBackend<ReputationEntry>('atlaix.reputation', 5000)),
+});
+
 function App() {
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<ScanResult | null>(null);
+  const [candidates, setCandidates] = useState<{ query: string; tokens: TokenCandidate[] } | null>(null);
 
-  const handleScan = async (query: string) => {
+  const runScan = async (target: ScanTarget | string) => {
     setLoading(true);
     setResult(null);
+    setCandidates(null);
     try {
-      const scanResult = await runFullScan(query);
+      const scanResult = await scanEngine.runFullScan(target);
       setResult(scanResult);
+      void scanHistory.save(scanResult);
     } catch (error) {
       console.error('Scan failed:', error);
     } finally {
@@ -26,6 +40,27 @@ function App() {
     }
   };
 
+  // Ask the user to pick when the query matches more than one token
+  const handleScan = async (query: string, chainId?: string) => {
+    setLoading(true);
+    setResult(null);
+    setCandidates(null);
+    let tokens: TokenCandidate[] = [];
+    try {
+      tokens = await scanEngine.findCandidates(query, chainId);
+    } catch (error) {
+      console.error('Token search failed:', error);
+    }
+
+    if (tokens.length > 1) {
+      setCandidates({ query, tokens });
+      setLoading(false);
+      return;
+    }
+    if (tokens.length === 1) return runScan(targetForCandidate(tokens[0]));
+    return runScan(chainId ? { chainId, tokenAddress: query } : query);
+  };
+
   return (
     <div className="min-h-screen bg-background text-foreground font-sans selection:bg-primary/30">
       <div className="max-w-7xl mx-auto px-4 py-12">
@@ -43,6 +78,15 @@ function App() {
         {/* Input */}
         <ScannerInput onScan={handleScan} isLoading={loading} />
 
+        {candidates && (
+          <TokenCandidatePicker
+            query={candidates.query}
+            candidates={candidates.tokens}
+            onSelect={c => runScan(targetForCandidate(c))}
+            onCancel={() => setCandidates(null)}
+          />
+        )}
+
         {/* Result Area */}
         {loading && (
           <div className="flex flex-col items-center justify-center py-20 space-y-4">
@@ -53,10 +97,14 @@ function App() {
 
         {result && (
           <div className="max-w-4xl mx-auto space-y-6">
+            <ExportMenu result={result} />
             <TokenInfoCard data={result} />
-            <RiskScoreCard score={result.score} breakdown={result.scoreBreakdown} />
+            <RiskScoreCard score={result.score} breakdown={result.scoreBreakdown} dataQuality={result.dataQuality} />
             <ForensicAnalysisCard data={result} />
-            {result.bundleControl && <BundleControlCard data={result.bundleControl} />}
+            {result.bundleControl && <BundleControlCard data={result.bundleControl} graph={result.clusterGraph} chainId={result.chainId} />}
+            {result.clusterGraph && (
+              <WalletGraph graph={result.clusterGraph} clusters={result.bundleControl?.clusters || []} chainId={result.chainId} />
+            )}
             <VolumeRiskCard data={result} />
             <DetectionSteps data={result} />
           </div>
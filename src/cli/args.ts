@@ -0,0 +1,80 @@
+// ───────────────────────────────────────────────
+// CLI argument parsing (no external dependencies)
+// ───────────────────────────────────────────────
+
+export type OutputFormat = 'json' | 'table' | 'ndjson';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'table', 'ndjson'];
+
+export interface ParsedArgs {
+    command: string;
+    positionals: string[];
+    flags: Record<string, string | boolean>;
+}
+
+/** Flags that never take a value (`--quiet`, not `--quiet true`) */
+const BOOLEAN_FLAGS = new Set(['quiet', 'help']);
+
+const SHORT_FLAGS: Record<string, string> = {
+    f: 'format',
+    q: 'quiet',
+    h: 'help',
+};
+
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+/**
+ * Parse `argv` (without the node/script prefix) into a command, positionals and flags.
+ * Supports `--flag value`, `--flag=value` and the short aliases above.
+ */
+export const parseArgs = (argv: string[]): ParsedArgs => {
+    const positionals: string[] = [];
+    const flags: Record<string, string | boolean> = {};
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+
+        if (arg === '--') {
+            positionals.push(...argv.slice(i + 1));
+            break;
+        }
+
+        if (arg.startsWith('-') && arg.length > 1) {
+            const isLong = arg.startsWith('--');
+            const raw = isLong ? arg.slice(2) : arg.slice(1);
+            const [rawName, inlineValue] = raw.split(/=(.*)/s, 2);
+            const name = isLong ? rawName : SHORT_FLAGS[rawName];
+            if (!name) throw new UsageError(`Unknown flag: ${arg}`);
+
+            if (BOOLEAN_FLAGS.has(name)) {
+                flags[name] = true;
+            } else if (inlineValue !== undefined) {
+                flags[name] = inlineValue;
+            } else {
+                const next = argv[i + 1];
+                if (next === undefined || next.startsWith('-')) throw new UsageError(`Flag --${name} requires a value`);
+                flags[name] = next;
+                i++;
+            }
+            continue;
+        }
+
+        positionals.push(arg);
+    }
+
+    const [command = 'help', ...rest] = positionals;
+    return { command, positionals: rest, flags };
+};
+
+export const getFormat = (flags: ParsedArgs['flags']): OutputFormat => {
+    const value = flags.format ?? 'table';
+    if (typeof value !== 'string' || !OUTPUT_FORMATS.includes(value as OutputFormat)) {
+        throw new UsageError(`--format must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+    }
+    return value as OutputFormat;
+};
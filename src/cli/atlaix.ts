@@ -0,0 +1,354 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { createScanEngine, ScanEngine, ScanEngineOptions, ScanTarget } from '../services/scanEngine';
+import { parseScoringPolicy } from '../services/scoringPolicy';
+import { createScanMonitor } from '../services/scanMonitor';
+import { createAlertEngine, AlertEngine } from '../services/alertRules';
+import { parseAlertConfig, createSink, dispatchAlert, AlertSink } from '../services/alertSinks';
+import { ScanHistoryStore, ScanRecord } from '../services/scanHistory';
+import { normalizeAddress } from '../lib/addresses';
+import { createFileHistoryStore, fileHistoryBackend } from '../services/scanHistoryFile';
+import { createReputationRegistry, ReputationEntry } from '../services/walletReputation';
+import { ScanResult } from '../lib/mockData';
+import { startRecording, stopRecording, startReplay, stopReplay, parseFixtureBundle, FixtureBundle } from '../services/fixtureMode';
+import { parseArgs, getFormat, UsageError, ParsedArgs, OutputFormat } from './args';
+import { formatResults, formatList } from './format';
+import { EXIT_SCAN_FAILED, EXIT_USAGE, exitCodeForResults, exitCodeForRiskLevels } from './exitCodes';
+
+// ───────────────────────────────────────────────
+// atlaix — headless scanner CLI
+// ───────────────────────────────────────────────
+
+const DEFAULT_HISTORY_DIR = '.atlaix/history';
+
+const USAGE = `Usage: atlaix <command> [options]
+
+Commands:
+  scan <address|symbol...>   Run a full scan and print the ScanResult
+  watch <address|symbol>     Re-scan on an interval and print NDJSON diffs between scans
+  history token <chain> <address>   Past scans of a token
+  history wallet <address>          Tokens where a wallet appeared in a bundle cluster
+  history critical [--days <n>]     CRITICAL scans in the last n days (default: 7)
+  help                       Show this message
+
+Options:
+  -f, --format <fmt>   json | table | ndjson (default: table)
+  -q, --quiet          Suppress provider logs (normally written to stderr)
+  --record <file>      Capture every provider request/response into a fixture bundle
+  --replay <file>      Serve provider responses from a fixture bundle (no network)
+  --policy <file>      Score with a JSON scoring policy instead of the built-in default
+  --product <name>     Apply the named product override from the scoring policy
+  --chain <id>         scan/watch: only consider the token on this chain (solana, ethereum, base, ...)
+  --pair <address>     scan/watch: price from this pair instead of the deepest one (needs --chain)
+  --interval <secs>    watch: seconds between scans (default: 60)
+  --count <n>          watch: stop after n scans (default: run until interrupted)
+  --alerts <file>      watch: evaluate alert rules after each scan and deliver to their sinks
+  --history <dir>      scan/watch: save every result to the history store in <dir> and
+                       track wallet reputation there (flags known serial bundlers)
+                       history: store to query (default: ${DEFAULT_HISTORY_DIR})
+
+Exit codes:
+  0 SAFE · 1 CAUTION · 2 DANGER · 3 CRITICAL (worst result when scanning several tokens)
+  64 usage error · 70 scan failed`;
+
+// Services log progress via console.log; keep stdout reserved for the result.
+const redirectServiceLogs = (quiet: boolean) => {
+    const toStderr = (...args: unknown[]) => { if (!quiet) console.error(...args); };
+    console.log = toStderr;
+    console.info = toStderr;
+    console.warn = toStderr;
+    console.debug = toStderr;
+};
+
+// Vite injects VITE_* keys in the browser; in Node we read the same .env files.
+const loadEnvFiles = () => {
+    for (const file of ['.env', '.env.local']) {
+        if (existsSync(file)) process.loadEnvFile(file);
+    }
+};
+
+const writeStdout = (text: string) => process.stdout.write(text.endsWith('\n') ? text : `${text}\n`);
+
+/** Run `fn` under --record / --replay fixture mode, writing or reporting on the bundle afterwards */
+const withFixtureMode = async <T>(flags: ParsedArgs['flags'], label: string, fn: () => Promise<T>): Promise<T> => {
+    const recordPath = typeof flags.record === 'string' ? flags.record : undefined;
+    const replayPath = typeof flags.replay === 'string' ? flags.replay : undefined;
+    if (recordPath && replayPath) throw new UsageError('--record and --replay cannot be combined');
+
+    if (replayPath) {
+        if (!existsSync(replayPath)) throw new UsageError(`Fixture bundle not found: ${replayPath}`);
+        let bundle: FixtureBundle;
+        try {
+            bundle = parseFixtureBundle(readFileSync(replayPath, 'utf8'));
+        } catch (err) {
+            throw new UsageError(`Invalid fixture bundle ${replayPath}: ${(err as Error).message}`);
+        }
+        startReplay(bundle);
+        try {
+            return await fn();
+        } finally {
+            const report = stopReplay();
+            console.log(`[atlaix] Replayed ${report.served} responses from ${replayPath}`);
+            if (report.misses.length > 0) {
+                console.error(`[atlaix] ${report.misses.length} request(s) had no recorded fixture:\n  ${report.misses.join('\n  ')}`);
+            }
+        }
+    }
+
+    if (recordPath) {
+        startRecording(label);
+        try {
+            return await fn();
+        } finally {
+            const bundle = stopRecording();
+            writeFileSync(recordPath, JSON.stringify(bundle, null, 2));
+            console.log(`[atlaix] Recorded ${bundle.entries.length} responses to ${recordPath}`);
+        }
+    }
+
+    return fn();
+};
+
+/** Engine options from --policy / --product, plus the reputation registry kept alongside --history */
+const getEngineOptions = (flags: ParsedArgs['flags']): ScanEngineOptions => {
+    const reputation = typeof flags.history === 'string'
+        ? createReputationRegistry(fileHistoryBackend<ReputationEntry>(flags.history, 'reputation.ndjson'))
+        : undefined;
+
+    const policyPath = typeof flags.policy === 'string' ? flags.policy : undefined;
+    const product = typeof flags.product === 'string' ? flags.product : undefined;
+    if (!policyPath) {
+        if (product) throw new UsageError('--product requires --policy');
+        return { reputation };
+    }
+    if (!existsSync(policyPath)) throw new UsageError(`Scoring policy not found: ${policyPath}`);
+    try {
+        const scoringPolicy = parseScoringPolicy(readFileSync(policyPath, 'utf8'));
+        if (product && !scoringPolicy.products?.[product]) throw new Error(`no product "${product}"`);
+        return { scoringPolicy, product, reputation };
+    } catch (err) {
+        throw new UsageError(`Invalid scoring policy ${policyPath}: ${(err as Error).message}`);
+    }
+};
+
+const getHistoryStore = (flags: ParsedArgs['flags']): ScanHistoryStore | undefined =>
+    typeof flags.history === 'string' ? createFileHistoryStore(flags.history) : undefined;
+
+interface ChainSelection {
+    chainId?: string;
+    pairAddress?: string;
+}
+
+const getChainSelection = (flags: ParsedArgs['flags']): ChainSelection => {
+    const chainId = typeof flags.chain === 'string' ? flags.chain : undefined;
+    const pairAddress = typeof flags.pair === 'string' ? flags.pair : undefined;
+    if (pairAddress && !chainId) throw new UsageError('--pair requires --chain');
+    return { chainId, pairAddress };
+};
+
+/**
+ * --chain pins a query to one chain (resolving a symbol to its deepest token there);
+ * without it the engine scans the deepest match and warns when the query is ambiguous.
+ */
+const resolveTarget = async (engine: ScanEngine, query: string, { chainId, pairAddress }: ChainSelection): Promise<ScanTarget | string> => {
+    if (!chainId) return query;
+
+    const candidates = await engine.findCandidates(query, chainId);
+    const match = candidates.find(c => normalizeAddress(c.tokenAddress) === normalizeAddress(query)) ?? candidates[0];
+    if (!match) return { chainId, tokenAddress: query, pairAddress };
+    if (candidates.length > 1 && normalizeAddress(match.tokenAddress) !== normalizeAddress(query)) {
+        const others = candidates.filter(c => c !== match).map(c => `${c.tokenSymbol} ${c.tokenAddress}`);
+        console.error(`[atlaix] "${query}" matches ${candidates.length} tokens on ${chainId}; scanning ${match.tokenSymbol} (${match.tokenAddress}). Others:\n  ${others.join('\n  ')}`);
+    }
+    return { chainId, tokenAddress: match.tokenAddress, pairAddress };
+};
+
+const scanCommand = async ({ positionals, flags }: ParsedArgs): Promise<number> => {
+    if (positionals.length === 0) throw new UsageError('scan requires at least one token address or symbol');
+    const format = getFormat(flags);
+    const engine = createScanEngine(undefined, getEngineOptions(flags));
+    const history = getHistoryStore(flags);
+    const selection = getChainSelection(flags);
+    if (selection.pairAddress && positionals.length > 1) throw new UsageError('--pair applies to a single token');
+    return withFixtureMode(flags, `scan ${positionals.join(' ')}`, () => scanAll(engine, positionals, selection, format, history));
+};
+
+const scanAll = async (
+    engine: ScanEngine,
+    positionals: string[],
+    selection: ChainSelection,
+    format: OutputFormat,
+    history?: ScanHistoryStore
+): Promise<number> => {
+    const results: ScanResult[] = [];
+    for (const query of positionals) {
+        try {
+            const result = await engine.runFullScan(await resolveTarget(engine, query, selection));
+            await history?.save(result);
+            results.push(result);
+            // Stream NDJSON line-by-line so long batches can be consumed incrementally
+            if (format === 'ndjson') writeStdout(formatResults([result], format));
+        } catch (err) {
+            console.error(`[atlaix] Scan failed for ${query}:`, err);
+            return EXIT_SCAN_FAILED;
+        }
+    }
+
+    if (format !== 'ndjson') writeStdout(formatResults(results, format));
+    return exitCodeForResults(results);
+};
+
+const parsePositiveInt = (flags: ParsedArgs['flags'], name: string): number | undefined => {
+    if (flags[name] === undefined) return undefined;
+    const value = Number(flags[name]);
+    if (!Number.isInteger(value) || value <= 0) throw new UsageError(`--${name} must be a positive integer`);
+    return value;
+};
+
+/** Alert rules and sinks from --alerts */
+const getAlerting = (flags: ParsedArgs['flags']): { engine: AlertEngine; sinks: AlertSink[] } | undefined => {
+    const path = typeof flags.alerts === 'string' ? flags.alerts : undefined;
+    if (!path) return undefined;
+    if (!existsSync(path)) throw new UsageError(`Alert rules not found: ${path}`);
+    try {
+        const config = parseAlertConfig(readFileSync(path, 'utf8'));
+        return { engine: createAlertEngine(config.rules), sinks: config.sinks.map(createSink) };
+    } catch (err) {
+        throw new UsageError(`Invalid alert rules ${path}: ${(err as Error).message}`);
+    }
+};
+
+const watchCommand = async ({ positionals, flags }: ParsedArgs): Promise<number> => {
+    if (positionals.length !== 1) throw new UsageError('watch takes exactly one token address or symbol');
+    const [query] = positionals;
+    const intervalSecs = parsePositiveInt(flags, 'interval') ?? 60;
+    const maxScans = parsePositiveInt(flags, 'count');
+    const engine = createScanEngine(undefined, getEngineOptions(flags));
+    const alerting = getAlerting(flags);
+    const history = getHistoryStore(flags);
+    const selection = getChainSelection(flags);
+    let target: ScanTarget | string | undefined;
+
+    const monitor = createScanMonitor({
+        query,
+        // Resolve --chain once so every re-scan hits the same token
+        scan: async () => engine.runFullScan(target ??= await resolveTarget(engine, query, selection)),
+        intervalMs: intervalSecs * 1000,
+        maxScans,
+        onResult: async (result, diff) => {
+            await history?.save(result);
+            // The first scan is the baseline every later diff is measured against
+            writeStdout(JSON.stringify(diff ? { event: 'diff', ...diff } : {
+                event: 'baseline',
+                at: result.bundleControl?.lastUpdated || result.analysis.lastUpdated,
+                tokenSymbol: result.tokenSymbol,
+                chainId: result.chainId,
+                score: result.score,
+                riskLevel: result.riskLevel,
+                clusterCount: result.bundleControl?.clusterCount || 0,
+                bundledSupplyPercent: result.bundleControl?.totalBundledSupplyPercent || 0,
+            }));
+
+            if (!alerting) return;
+            for (const alert of alerting.engine.evaluate(result, diff)) {
+                console.error(`[atlaix] ALERT ${alert.rule} (${alert.severity}) for ${alert.token.symbol}`);
+                const deliveries = await dispatchAlert(alerting.sinks, alert);
+                writeStdout(JSON.stringify({ event: 'alert', ...alert, deliveries }));
+            }
+        },
+        onError: err => console.error(`[atlaix] Scan failed for ${query}:`, err),
+    });
+
+    const interrupt = () => monitor.stop();
+    process.once('SIGINT', interrupt);
+    process.once('SIGTERM', interrupt);
+    try {
+        await withFixtureMode(flags, `watch ${query}`, () => monitor.start());
+    } finally {
+        process.off('SIGINT', interrupt);
+        process.off('SIGTERM', interrupt);
+    }
+
+    const last = monitor.history().at(-1);
+    return last ? exitCodeForRiskLevels([last.riskLevel]) : EXIT_SCAN_FAILED;
+};
+
+const recordRow = (r: ScanRecord): string[] => [
+    r.scannedAt, r.chainId, r.tokenSymbol, r.tokenAddress, String(r.score), r.riskLevel, r.forensicsStatus,
+    String(new Set(Object.values(r.clusterMembership)).size),
+];
+const RECORD_HEADERS = ['SCANNED AT', 'CHAIN', 'SYMBOL', 'ADDRESS', 'SCORE', 'RISK', 'FORENSICS', 'CLUSTERS'];
+
+const historyCommand = async ({ positionals, flags }: ParsedArgs): Promise<number> => {
+    const [query, ...rest] = positionals;
+    const store = getHistoryStore(flags) ?? createFileHistoryStore(DEFAULT_HISTORY_DIR);
+    const format = getFormat(flags);
+
+    switch (query) {
+        case 'token': {
+            if (rest.length !== 2) throw new UsageError('history token requires <chain> <address>');
+            const records = await store.listScansForToken(rest[0], rest[1]);
+            writeStdout(formatList(records, format, RECORD_HEADERS, recordRow));
+            return 0;
+        }
+        case 'wallet': {
+            if (rest.length !== 1) throw new UsageError('history wallet requires <address>');
+            const appearances = await store.findTokensByWallet(rest[0]);
+            writeStdout(formatList(appearances, format, ['LAST SEEN', 'CHAIN', 'SYMBOL', 'ADDRESS', 'CLUSTER', 'RISK'],
+                a => [a.scannedAt, a.chainId, a.tokenSymbol, a.tokenAddress, a.clusterId, a.riskLevel]));
+            return 0;
+        }
+        case 'critical': {
+            if (rest.length !== 0) throw new UsageError('history critical takes no arguments');
+            const records = await store.listCriticalScans(parsePositiveInt(flags, 'days') ?? 7);
+            writeStdout(formatList(records, format, RECORD_HEADERS, recordRow));
+            return 0;
+        }
+        default:
+            throw new UsageError('history requires a query: token, wallet or critical');
+    }
+};
+
+const main = async (argv: string[]): Promise<number> => {
+    let args: ParsedArgs;
+    try {
+        args = parseArgs(argv);
+    } catch (err) {
+        console.error(`${(err as Error).message}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+
+    if (args.flags.help || args.command === 'help') {
+        writeStdout(USAGE);
+        return 0;
+    }
+
+    loadEnvFiles();
+    redirectServiceLogs(!!args.flags.quiet);
+
+    try {
+        switch (args.command) {
+            case 'scan':
+                return await scanCommand(args);
+            case 'watch':
+                return await watchCommand(args);
+            case 'history':
+                return await historyCommand(args);
+            default:
+                throw new UsageError(`Unknown command: ${args.command}`);
+        }
+    } catch (err) {
+        if (err instanceof UsageError) {
+            console.error(`${err.message}\n\n${USAGE}`);
+            return EXIT_USAGE;
+        }
+        throw err;
+    }
+};
+
+main(process.argv.slice(2)).then(
+    code => { process.exitCode = code; },
+    err => {
+        console.error('[atlaix] Fatal error:', err);
+        process.exitCode = EXIT_SCAN_FAILED;
+    },
+);
@@ -0,0 +1,28 @@
+import { RiskLevel, ScanResult } from '../lib/mockData';
+
+// ───────────────────────────────────────────────
+// Process exit codes — stable contract for CI gates and cron jobs
+// ───────────────────────────────────────────────
+
+export const RISK_EXIT_CODES: Record<RiskLevel, number> = {
+    SAFE: 0,
+    CAUTION: 1,
+    DANGER: 2,
+    CRITICAL: 3,
+};
+
+export const EXIT_SCAN_FAILED = 70;   // EX_SOFTWARE — scan threw or a provider failure left it without a token
+export const EXIT_USAGE = 64;         // EX_USAGE — bad command line
+
+/** Multiple scans in one invocation exit with the worst risk level seen */
+export const exitCodeForRiskLevels = (levels: RiskLevel[]): number =>
+    levels.reduce((worst, level) => Math.max(worst, RISK_EXIT_CODES[level]), RISK_EXIT_CODES.SAFE);
+
+/**
+ * Like exitCodeForRiskLevels, but a result with no pairs and inconclusive data (the token
+ * lookup failed rather than came back empty) has no verdict, so the run counts as failed.
+ */
+export const exitCodeForResults = (results: ScanResult[]): number =>
+    results.some(r => r.pairs.length === 0 && r.dataQuality?.inconclusive)
+        ? EXIT_SCAN_FAILED
+        : exitCodeForRiskLevels(results.map(r => r.riskLevel));
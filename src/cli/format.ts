@@ -0,0 +1,126 @@
+import { ScanResult } from '../lib/mockData';
+import { OutputFormat } from './args';
+
+// ───────────────────────────────────────────────
+// Output renderers for ScanResult
+// ───────────────────────────────────────────────
+
+const formatUSD = (v: number): string => {
+    if (v >= 1_000_000) return `$${(v / 1_000_000).toFixed(2)}M`;
+    if (v >= 1_000) return `$${(v / 1_000).toFixed(1)}K`;
+    return `$${v.toFixed(0)}`;
+};
+
+const formatAmount = (v: number): string => {
+    if (v >= 1_000_000_000) return `${(v / 1_000_000_000).toFixed(2)}B`;
+    if (v >= 1_000_000) return `${(v / 1_000_000).toFixed(2)}M`;
+    if (v >= 1_000) return `${(v / 1_000).toFixed(1)}K`;
+    return v.toFixed(0);
+};
+
+/** Render rows as a left-aligned, space-padded text table */
+export const renderTable = (headers: string[], rows: string[][]): string => {
+    const widths = headers.map((h, i) => Math.max(h.length, ...rows.map(r => (r[i] ?? '').length)));
+    const line = (cells: string[]) => cells.map((c, i) => (c ?? '').padEnd(widths[i])).join('  ').trimEnd();
+    return [line(headers), line(widths.map(w => '─'.repeat(w))), ...rows.map(line)].join('\n');
+};
+
+const formatPolicyStamp = (stamp: NonNullable<ScanResult['scoringPolicy']>): string =>
+    [`${stamp.id}@${stamp.version}`, stamp.chainOverride && `chain:${stamp.chainOverride}`, stamp.product && `product:${stamp.product}`]
+        .filter(Boolean).join(' ');
+
+const formatLiquidity = (result: ScanResult): string => {
+    const top = `${formatUSD(result.selectedPair.liquidityUSD)} on ${result.selectedPair.dexName}`;
+    const depth = result.liquidity && result.pairs.length > 1
+        ? `${formatUSD(result.liquidity.totalUSD)} across ${result.liquidity.pairCount} pairs (top ${top})`
+        : `${top} (${result.pairs.length} pairs)`;
+    return result.liquidity?.thinPoolCount ? `${depth} | ${result.liquidity.thinPoolCount} thin pool(s)` : depth;
+};
+
+const formatSupply = (supply: NonNullable<ScanResult['supply']>): string =>
+    `${formatAmount(supply.circulatingSupply)} circulating of ${formatAmount(supply.totalSupply)} (${formatAmount(supply.burnedSupply)} burned, ${supply.source})`;
+
+const formatFailures = (failed: NonNullable<ScanResult['failedWallets']>): string => {
+    const shown = failed.slice(0, 5).map(f => `${f.address.slice(0, 8)} (${f.reason})`).join(', ');
+    return `${failed.length} wallet(s) failed to load: ${shown}${failed.length > 5 ? `, +${failed.length - 5} more` : ''}`;
+};
+
+const formatLaunch = (curve: NonNullable<ScanResult['bondingCurve']>): string => {
+    const stage = curve.migration ? `migrated to ${curve.migration.venue}` : `${curve.curveProgressPercent}% of curve sold`;
+    return `${curve.launchpad} | ${stage} | dev bundle ${curve.devBundleWallets.length} wallets, ${curve.devBundleCurvePercent}% of curve (${curve.devBundleSupplyPercent}% of supply)`;
+};
+
+const formatDataQuality = (quality: NonNullable<ScanResult['dataQuality']>): string => {
+    const degraded = quality.calls.filter(c => c.status !== 'ok' && c.status !== 'skipped').map(c => `${c.step} ${c.status}`);
+    const verdict = quality.inconclusive ? 'INCONCLUSIVE' : `${quality.confidence} confidence`;
+    return degraded.length > 0 ? `${verdict} | ${degraded.join(', ')}` : verdict;
+};
+
+const renderScanTable = (result: ScanResult): string => {
+    const sections: string[] = [];
+
+    sections.push([
+        `Token      ${result.tokenName} (${result.tokenSymbol}) on ${result.chainId}`,
+        `Score      ${result.score}/100  ${result.riskLevel}`,
+        `Threat     ${result.threatType}`,
+        `Forensics  ${result.forensicsStatus}`,
+        `Liquidity  ${formatLiquidity(result)}`,
+        ...(result.supply ? [`Supply     ${formatSupply(result.supply)}`] : []),
+        ...(result.bondingCurve ? [`Launch     ${formatLaunch(result.bondingCurve)}`] : []),
+        ...(result.failedWallets ? [`Trace      ${formatFailures(result.failedWallets)}`] : []),
+        ...(result.dataQuality ? [`Data       ${formatDataQuality(result.dataQuality)}`] : []),
+        ...(result.scoringPolicy ? [`Policy     ${formatPolicyStamp(result.scoringPolicy)}`] : []),
+    ].join('\n'));
+
+    if (result.scoreBreakdown.length > 0) {
+        sections.push('SCORE BREAKDOWN\n' + renderTable(
+            ['STATUS', 'IMPACT', 'FACTOR', 'DETAIL'],
+            result.scoreBreakdown.map(f => [f.status, f.impact === 0 ? '+0' : String(f.impact), f.label, f.detail]),
+        ));
+    }
+
+    const bc = result.bundleControl;
+    if (bc) {
+        const dump = bc.combinedSellSimulation ? ` | all dump -${bc.combinedSellSimulation.priceDropPercent.toFixed(1)}%` : '';
+        const header = `CLUSTERS  overall ${bc.overallRisk} | bundled ${bc.totalBundledSupplyPercent}% | LP impact ${bc.lpImpactRatio}x${dump} | ${bc.totalWalletCount} wallets`;
+        sections.push(bc.clusters.length === 0 ? `${header}\n  No bundle clusters detected.` : header + '\n' + renderTable(
+            ['CLUSTER', 'WALLETS', 'SUPPLY %', 'USD', 'LP IMPACT', 'DUMP', 'RISK', 'FACTORS'],
+            bc.clusters.map(c => [
+                c.id,
+                String(c.wallets.length),
+                c.totalSupplyPercent.toFixed(2),
+                formatUSD(c.totalValueUSD),
+                `${c.lpImpact}x`,
+                c.sellSimulation ? `-${c.sellSimulation.priceDropPercent.toFixed(1)}%` : '-',
+                `${c.risk} (${c.riskScore})`,
+                c.riskFactors.join(', '),
+            ]),
+        ));
+    }
+
+    return sections.join('\n\n');
+};
+
+/** Render a batch of scan results in the requested format */
+export const formatResults = (results: ScanResult[], format: OutputFormat): string => {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(results.length === 1 ? results[0] : results, null, 2);
+        case 'ndjson':
+            return results.map(r => JSON.stringify(r)).join('\n');
+        case 'table':
+            return results.map(renderScanTable).join('\n\n' + '═'.repeat(60) + '\n\n');
+    }
+};
+
+/** Render query results (history lookups): JSON array, NDJSON lines or a table of selected columns */
+export const formatList = <T>(items: T[], format: OutputFormat, headers: string[], toRow: (item: T) => string[]): string => {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(items, null, 2);
+        case 'ndjson':
+            return items.map(i => JSON.stringify(i)).join('\n');
+        case 'table':
+            return items.length === 0 ? 'No matches.' : renderTable(headers, items.map(toRow));
+    }
+};
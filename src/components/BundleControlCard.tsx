@@ -1,9 +1,14 @@
 import { useState } from 'react';
-import { BundleControlResult, BundleWallet } from '@/lib/mockData';
+import { BundleControlResult, BundleWallet, ClusterGraph, SellSimulation } from '@/lib/mockData';
 import { ChevronDown, ChevronUp, RefreshCw, AlertTriangle, Shield, ShieldAlert, ShieldCheck, ExternalLink } from 'lucide-react';
+import WalletDetailPanel from './WalletDetailPanel';
+import ClusterEvidence from './ClusterEvidence';
+import { accountUrl } from '@/lib/explorers';
 
 interface BundleControlCardProps {
     data: BundleControlResult;
+    graph?: ClusterGraph;      // Enables the in-app wallet panel
+    chainId?: string;
 }
 
 const formatUSD = (v: number): string => {
@@ -12,6 +17,28 @@ const formatUSD = (v: number): string => {
     return `$${v.toFixed(0)}`;
 };
 
+const formatPrice = (price: number): string => {
+    if (price === 0) return '$0';
+    if (price < 0.000001) return `$${price.toExponential(2)}`;
+    if (price < 1) return `$${price.toPrecision(3)}`;
+    return `$${price.toFixed(2)}`;
+};
+
+const dropColor = (pct: number): string => pct >= 50 ? 'text-red-400' : pct >= 20 ? 'text-yellow-400' : 'text-green-400';
+
+/** Expected price after a dump, with the drop it implies */
+const DumpPrice = ({ sim }: { sim?: SellSimulation }) => {
+    if (!sim) return <span className="text-muted-foreground">—</span>;
+    return (
+        <span className="flex flex-col leading-tight" title={sim.exhaustsLiquidity ? 'Concentrated liquidity ranges run dry' : undefined}>
+            <span className="font-mono text-foreground">{formatPrice(sim.priceAfterUsd)}</span>
+            <span className={`text-[10px] font-semibold ${dropColor(sim.priceDropPercent)}`}>
+                -{sim.priceDropPercent.toFixed(1)}%{sim.exhaustsLiquidity ? ' (drained)' : ''}
+            </span>
+        </span>
+    );
+};
+
 const formatTokens = (v: number): string => {
     if (v >= 1_000_000_000) return `${(v / 1_000_000_000).toFixed(2)}B`;
     if (v >= 1_000_000) return `${(v / 1_000_000).toFixed(2)}M`;
@@ -41,8 +68,9 @@ const RiskIcon = ({ risk }: { risk: string }) => {
     return <ShieldCheck className="w-5 h-5" />;
 };
 
-export default function BundleControlCard({ data }: BundleControlCardProps) {
+export default function BundleControlCard({ data, graph, chainId = 'solana' }: BundleControlCardProps) {
     const [expandedCluster, setExpandedCluster] = useState<string | null>(null);
+    const [selectedWallet, setSelectedWallet] = useState<string | null>(null);
     const rc = riskColors[data.overallRisk] || riskColors.LOW;
 
     const timeSinceUpdate = () => {
@@ -147,6 +175,14 @@ export default function BundleControlCard({ data }: BundleControlCardProps) {
                                 {data.lpImpactRatio}x
                             </span>
                         </div>
+                        {data.combinedSellSimulation && (
+                            <div className="flex justify-between">
+                                <span className="text-muted-foreground">All clusters dump:</span>
+                                <span className={`font-bold ${dropColor(data.combinedSellSimulation.priceDropPercent)}`}>
+                                    -{data.combinedSellSimulation.priceDropPercent.toFixed(1)}%
+                                </span>
+                            </div>
+                        )}
                     </div>
                 </div>
 
@@ -172,15 +208,16 @@ export default function BundleControlCard({ data }: BundleControlCardProps) {
             {data.clusters.length > 0 && (
                 <div className="px-6 pb-6">
                     <div className="border border-border rounded-xl overflow-x-auto">
-                        <div className="min-w-[600px]">
+                        <div className="min-w-[700px]">
                             {/* Table Header */}
-                            <div className="grid grid-cols-7 gap-2 px-4 py-3 bg-background/60 text-xs font-medium text-muted-foreground border-b border-border">
+                            <div className="grid grid-cols-8 gap-2 px-4 py-3 bg-background/60 text-xs font-medium text-muted-foreground border-b border-border">
                                 <span>Cluster</span>
                                 <span>Wallets</span>
                                 <span>Supply %</span>
                                 <span>USD Value</span>
                                 <span>Status</span>
                                 <span>LP Impact</span>
+                                <span>Price After Dump</span>
                                 <span>Risk</span>
                             </div>
 
@@ -188,7 +225,7 @@ export default function BundleControlCard({ data }: BundleControlCardProps) {
                             {data.clusters.map((cluster) => (
                                 <div key={cluster.id}>
                                     <div
-                                        className="grid grid-cols-7 gap-2 px-4 py-3 text-sm border-b border-border/50 hover:bg-background/30 cursor-pointer transition-colors"
+                                        className="grid grid-cols-8 gap-2 px-4 py-3 text-sm border-b border-border/50 hover:bg-background/30 cursor-pointer transition-colors"
                                         onClick={() => setExpandedCluster(expandedCluster === cluster.id ? null : cluster.id)}
                                     >
                                         <span className="font-medium text-foreground">{cluster.id}</span>
@@ -199,6 +236,7 @@ export default function BundleControlCard({ data }: BundleControlCardProps) {
                                         <span className={`font-semibold ${cluster.lpImpact >= 0.8 ? 'text-red-400' : cluster.lpImpact >= 0.3 ? 'text-yellow-400' : 'text-green-400'}`}>
                                             {cluster.lpImpact}x
                                         </span>
+                                        <DumpPrice sim={cluster.sellSimulation} />
                                         <span className={`font-bold ${clusterRiskColors[cluster.risk] || 'text-muted-foreground'}`}>
                                             {cluster.risk}
                                         </span>
@@ -207,14 +245,33 @@ export default function BundleControlCard({ data }: BundleControlCardProps) {
                                     {/* Expanded Wallet Details */}
                                     {expandedCluster === cluster.id && (
                                         <div className="bg-background/40 border-b border-border p-4">
+                                            <ClusterEvidence cluster={cluster} chainId={chainId} />
                                             <p className="text-xs font-medium text-muted-foreground mb-3">
                                                 Wallet Details — {cluster.id}
                                             </p>
                                             <div className="space-y-2">
                                                 {cluster.wallets.map((w) => (
-                                                    <WalletRow key={w.address} wallet={w} />
+                                                    <WalletRow
+                                                        key={w.address}
+                                                        wallet={w}
+                                                        chainId={chainId}
+                                                        selected={w.address === selectedWallet}
+                                                        onSelect={graph ? () => setSelectedWallet(w.address === selectedWallet ? null : w.address) : undefined}
+                                                    />
                                                 ))}
                                             </div>
+                                            {graph && selectedWallet && (
+                                                <div className="mt-3">
+                                                    <WalletDetailPanel
+                                                        address={selectedWallet}
+                                                        graph={graph}
+                                                        clusters={data.clusters}
+                                                        chainId={chainId}
+                                                        onSelect={setSelectedWallet}
+                                                        onClose={() => setSelectedWallet(null)}
+                                                    />
+                                                </div>
+                                            )}
                                         </div>
                                     )}
                                 </div>
@@ -247,7 +304,7 @@ export default function BundleControlCard({ data }: BundleControlCardProps) {
 
 // ── Wallet Row Sub-Component ──
 
-function WalletRow({ wallet }: { wallet: BundleWallet }) {
+function WalletRow({ wallet, chainId, selected, onSelect }: { wallet: BundleWallet; chainId: string; selected?: boolean; onSelect?: () => void }) {
     const isSeed = wallet.boughtAmount > 0 && wallet.receivedAmount === 0;
     const isTransfer = wallet.receivedAmount > 0;
 
@@ -257,19 +314,25 @@ function WalletRow({ wallet }: { wallet: BundleWallet }) {
             case 'active': return <span className="px-1.5 py-0.5 rounded-sm bg-blue-500/20 text-blue-400 text-[10px] font-bold">ACTIVE</span>;
             case 'dormant': return <span className="px-1.5 py-0.5 rounded-sm bg-rose-500/20 text-rose-400 text-[10px] font-bold">DORMANT</span>;
             case 'sold_all': return <span className="px-1.5 py-0.5 rounded-sm bg-gray-500/20 text-gray-400 text-[10px] font-bold">SOLD ALL</span>;
+            case 'locked': return <span className="px-1.5 py-0.5 rounded-sm bg-emerald-500/20 text-emerald-400 text-[10px] font-bold">LOCKED</span>;
+            case 'burned': return <span className="px-1.5 py-0.5 rounded-sm bg-amber-500/20 text-amber-400 text-[10px] font-bold">BURNED</span>;
             default: return null;
         }
     };
 
     return (
-        <div className="grid grid-cols-12 gap-2 items-center text-xs bg-background/30 hover:bg-background/50 transition-colors rounded-lg px-3 py-2 border border-border/30">
+        <div
+            className={`grid grid-cols-12 gap-2 items-center text-xs bg-background/30 hover:bg-background/50 transition-colors rounded-lg px-3 py-2 border ${selected ? 'border-primary/60' : 'border-border/30'} ${onSelect ? 'cursor-pointer' : ''}`}
+            onClick={onSelect}
+        >
             {/* 1. Wallet Address & Type */}
             <div className="col-span-3 flex items-center gap-2">
                 <div className="flex flex-col">
                     <a
-                        href={`https://solscan.io/account/${wallet.address}`}
+                        href={accountUrl(chainId, wallet.address)}
                         target="_blank"
                         rel="noreferrer"
+                        onClick={e => e.stopPropagation()}
                         className="font-mono text-blue-400 hover:text-blue-300 hover:underline transition-colors flex items-center gap-1"
                     >
                         {shortenAddr(wallet.address)}
@@ -0,0 +1,123 @@
+import { ReactNode } from 'react';
+import { ExternalLink } from 'lucide-react';
+import { BundleCluster, RiskFactorEvidence } from '@/lib/mockData';
+import { accountUrl, txUrl, fromNativeUnits, nativeSymbol } from '@/lib/explorers';
+
+interface ClusterEvidenceProps {
+    cluster: BundleCluster;
+    chainId: string;
+}
+
+const MAX_ROWS = 6;
+
+const formatTokens = (v: number): string => {
+    if (v >= 1_000_000) return `${(v / 1_000_000).toFixed(2)}M`;
+    if (v >= 1_000) return `${(v / 1_000).toFixed(1)}K`;
+    return v.toFixed(0);
+};
+
+const formatTime = (ts: number): string =>
+    ts > 0 ? new Date(ts * 1000).toISOString().replace('T', ' ').slice(0, 19) : '—';
+
+const shortenAddr = (addr: string): string =>
+    addr.length > 12 ? `${addr.slice(0, 4)}...${addr.slice(-4)}` : addr;
+
+const ExplorerLink = ({ href, label }: { href?: string; label: string }) =>
+    href ? (
+        <a href={href} target="_blank" rel="noreferrer" className="font-mono text-blue-400 hover:text-blue-300 hover:underline inline-flex items-center gap-0.5">
+            {label}
+            <ExternalLink size={9} />
+        </a>
+    ) : (
+        <span className="font-mono text-foreground">{label}</span>
+    );
+
+/** First rows of a list, with a "+N more" line for the rest */
+const Rows = ({ rows }: { rows: ReactNode[] }) => (
+    <div className="space-y-0.5">
+        {rows.slice(0, MAX_ROWS).map((row, i) => <div key={i} className="flex flex-wrap items-center gap-x-2">{row}</div>)}
+        {rows.length > MAX_ROWS && <p className="text-muted-foreground">+{rows.length - MAX_ROWS} more</p>}
+    </div>
+);
+
+const EvidenceBody = ({ evidence, chainId }: { evidence: RiskFactorEvidence; chainId: string }) => {
+    const wallet = (addr: string) => <ExplorerLink href={accountUrl(chainId, addr)} label={shortenAddr(addr)} />;
+    const time = (ts: number) => <span className="font-mono text-muted-foreground">{formatTime(ts)}</span>;
+
+    switch (evidence.factor) {
+        case 'Shared Funding':
+            return (
+                <>
+                    <p className="mb-1 text-muted-foreground">Funder {wallet(evidence.funder)} sent native funds to {evidence.fundings.length} wallets:</p>
+                    <Rows rows={evidence.fundings.map(f => (
+                        <>
+                            {time(f.timestamp)}
+                            {wallet(f.wallet)}
+                            <span className="font-mono text-foreground">{fromNativeUnits(chainId, f.amount).toFixed(3)} {nativeSymbol(chainId)}</span>
+                            {f.signature && <ExplorerLink href={txUrl(chainId, f.signature)} label={`tx ${shortenAddr(f.signature)}`} />}
+                        </>
+                    ))} />
+                </>
+            );
+        case 'Temporal Match':
+            return (
+                <>
+                    <p className="mb-1 text-muted-foreground">{evidence.buys.length} buys in the 2s window from {time(evidence.bucketStart)}:</p>
+                    <Rows rows={evidence.buys.map(b => (
+                        <>{time(b.timestamp)}{wallet(b.wallet)}<span className="font-mono text-green-400">+{formatTokens(b.tokenAmount)}</span></>
+                    ))} />
+                </>
+            );
+        case 'Internal Transfers':
+            return (
+                <>
+                    <p className="mb-1 text-muted-foreground">{evidence.transfers.length} token transfers between members:</p>
+                    <Rows rows={evidence.transfers.map(t => (
+                        <>{time(t.timestamp)}{wallet(t.from)}<span>→</span>{wallet(t.to)}<span className="font-mono text-foreground">{formatTokens(t.tokenAmount)}</span></>
+                    ))} />
+                </>
+            );
+        case 'Sync Sell':
+            return (
+                <>
+                    <p className="mb-1 text-muted-foreground">{evidence.pairs.length} sell pair{evidence.pairs.length > 1 ? 's' : ''} within 60s:</p>
+                    <Rows rows={evidence.pairs.map(p => (
+                        <>
+                            {time(p.first.timestamp)}
+                            {wallet(p.first.wallet)}
+                            <span className="font-mono text-red-400">-{formatTokens(p.first.tokenAmount)}</span>
+                            <span>/</span>
+                            {wallet(p.second.wallet)}
+                            <span className="font-mono text-red-400">-{formatTokens(p.second.tokenAmount)}</span>
+                            <span className="text-muted-foreground">{p.gapSeconds}s apart</span>
+                        </>
+                    ))} />
+                </>
+            );
+        case 'Known Serial Bundler':
+            return (
+                <>
+                    <p className="mb-1 text-muted-foreground">Clustered on other launches:</p>
+                    <Rows rows={evidence.addresses.map(a => wallet(a))} />
+                </>
+            );
+    }
+};
+
+export default function ClusterEvidence({ cluster, chainId }: ClusterEvidenceProps) {
+    if (!cluster.evidence || cluster.evidence.length === 0) return null;
+
+    return (
+        <div className="mb-4">
+            <p className="text-xs font-medium text-muted-foreground mb-2">Evidence</p>
+            <div className="space-y-2">
+                {cluster.evidence.map((e, i) => (
+                    <div key={i} className="bg-background/30 border border-border/30 rounded-lg px-3 py-2 text-xs">
+                        <span className="inline-block mb-1 px-1.5 py-0.5 rounded-sm bg-rose-500/10 text-rose-300 text-[10px] font-bold">{e.factor}</span>
+                        <EvidenceBody evidence={e} chainId={chainId} />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,38 @@
+import { Download } from 'lucide-react';
+import { ScanResult } from '@/lib/mockData';
+import { SCAN_EXPORTS, ScanExportName, exportFileName } from '@/services/reportExport';
+
+interface ExportMenuProps {
+    result: ScanResult;
+}
+
+const download = (result: ScanResult, name: ScanExportName) => {
+    const { contentType, render } = SCAN_EXPORTS[name];
+    const body = render(result);
+    // Copy binary output into a plain ArrayBuffer-backed view, as Blob requires
+    const url = URL.createObjectURL(new Blob([typeof body === 'string' ? body : new Uint8Array(body)], { type: contentType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = exportFileName(result, name);
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export default function ExportMenu({ result }: ExportMenuProps) {
+    return (
+        <div className="flex flex-wrap items-center justify-end gap-2 text-xs">
+            <span className="text-muted-foreground flex items-center gap-1">
+                <Download className="w-3.5 h-3.5" /> Export
+            </span>
+            {(Object.keys(SCAN_EXPORTS) as ScanExportName[]).map(name => (
+                <button
+                    key={name}
+                    onClick={() => download(result, name)}
+                    className="px-2.5 py-1 rounded-lg border border-border bg-card/50 text-foreground hover:bg-card transition-colors"
+                >
+                    {SCAN_EXPORTS[name].label}
+                </button>
+            ))}
+        </div>
+    );
+}
@@ -2,14 +2,15 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { AlertTriangle, ShieldCheck, Skull, CheckCircle, XCircle, AlertCircle, Info } from 'lucide-react';
 import { getRiskColor, getRiskLabel } from '@/lib/analyzer';
-import { ScoreFactor } from '@/lib/mockData';
+import { ScoreFactor, DataQuality } from '@/lib/mockData';
 
 interface RiskScoreCardProps {
     score: number;
     breakdown?: ScoreFactor[];
+    dataQuality?: DataQuality;
 }
 
-const RiskScoreCard: React.FC<RiskScoreCardProps> = ({ score, breakdown = [] }) => {
+const RiskScoreCard: React.FC<RiskScoreCardProps> = ({ score, breakdown = [], dataQuality }) => {
     const riskLabel = getRiskLabel(score);
     const colorClass = getRiskColor(score);
 
@@ -67,6 +68,22 @@ const RiskScoreCard: React.FC<RiskScoreCardProps> = ({ score, breakdown = [] })
                         {riskLabel}
                     </div>
 
+                    {/* Data quality: a clean score means little when the checks never ran */}
+                    {dataQuality && dataQuality.confidence !== 'high' && (
+                        <div
+                            className={`mt-3 text-xs px-3 py-1.5 rounded-lg border ${dataQuality.inconclusive ? 'border-red-500/30 bg-red-500/10 text-red-400' : 'border-yellow-500/30 bg-yellow-500/10 text-yellow-400'}`}
+                            title={dataQuality.calls.filter(c => c.status !== 'ok').map(c => `${c.step}: ${c.status}${c.detail ? ` (${c.detail})` : ''}`).join('\n')}
+                        >
+                            {dataQuality.inconclusive ? (
+                                <>
+                                    <span className="font-semibold">Inconclusive</span> — missing {dataQuality.missingCritical.map(m => m.split(':')[0]).join(', ')}
+                                </>
+                            ) : (
+                                <span>Medium data confidence — some providers returned partial data</span>
+                            )}
+                        </div>
+                    )}
+
                     {/* Mini summary */}
                     {breakdown.length > 0 && (
                         <div className="mt-4 text-xs text-muted-foreground">
@@ -0,0 +1,84 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { TokenCandidate } from '@/services/dexScreener';
+import { Layers, X } from 'lucide-react';
+
+interface TokenCandidatePickerProps {
+    query: string;
+    candidates: TokenCandidate[];
+    onSelect: (candidate: TokenCandidate) => void;
+    onCancel: () => void;
+}
+
+const formatLiquidity = (num: number): string => {
+    if (num >= 1_000_000) return `$${(num / 1_000_000).toFixed(2)}M`;
+    if (num >= 1_000) return `$${(num / 1_000).toFixed(1)}K`;
+    return `$${num.toFixed(0)}`;
+};
+
+const formatAge = (createdAt?: number): string => {
+    if (!createdAt) return '—';
+    const hours = (Date.now() - createdAt) / 3_600_000;
+    if (hours < 1) return `${Math.max(1, Math.round(hours * 60))}m`;
+    if (hours < 48) return `${Math.round(hours)}h`;
+    if (hours < 24 * 60) return `${Math.round(hours / 24)}d`;
+    return `${Math.round(hours / 24 / 30)}mo`;
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+/** Shown when a query matches several tokens — the user picks which one to scan */
+const TokenCandidatePicker: React.FC<TokenCandidatePickerProps> = ({ query, candidates, onSelect, onCancel }) => (
+    <motion.div
+        initial={{ y: -10, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        className="w-full max-w-3xl mx-auto mb-8 bg-card/80 backdrop-blur-sm border border-border rounded-2xl p-4"
+    >
+        <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-2">
+                <Layers size={16} className="text-primary" />
+                <h3 className="text-sm font-semibold text-foreground">
+                    "{query}" matches {candidates.length} tokens — pick one to scan
+                </h3>
+            </div>
+            <button onClick={onCancel} className="text-muted-foreground hover:text-foreground transition-colors" aria-label="Cancel">
+                <X size={16} />
+            </button>
+        </div>
+
+        <table className="w-full text-sm">
+            <thead>
+                <tr className="text-[10px] uppercase tracking-wider text-muted-foreground">
+                    <th className="text-left font-semibold pb-2">Token</th>
+                    <th className="text-left font-semibold pb-2">Chain</th>
+                    <th className="text-left font-semibold pb-2">Address</th>
+                    <th className="text-right font-semibold pb-2">Liquidity</th>
+                    <th className="text-right font-semibold pb-2">Pair Age</th>
+                </tr>
+            </thead>
+            <tbody>
+                {candidates.map(c => (
+                    <tr
+                        key={`${c.chainId}:${c.tokenAddress}`}
+                        onClick={() => onSelect(c)}
+                        className="cursor-pointer border-t border-border/40 hover:bg-secondary/40 transition-colors"
+                    >
+                        <td className="py-2">
+                            <span className="font-medium text-foreground">{c.tokenSymbol}</span>
+                            <span className="ml-2 text-xs text-muted-foreground">{c.tokenName}</span>
+                        </td>
+                        <td className="py-2 text-muted-foreground">{c.chainId}</td>
+                        <td className="py-2 font-mono text-xs text-muted-foreground" title={c.tokenAddress}>{shortAddress(c.tokenAddress)}</td>
+                        <td className="py-2 text-right font-mono">
+                            {formatLiquidity(c.liquidityUsd)}
+                            {c.pairCount > 1 && <span className="ml-1 text-xs text-muted-foreground">({c.pairCount} pairs)</span>}
+                        </td>
+                        <td className="py-2 text-right font-mono text-muted-foreground">{formatAge(c.pairCreatedAt)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </motion.div>
+);
+
+export default TokenCandidatePicker;
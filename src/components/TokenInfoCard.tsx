@@ -1,7 +1,7 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { ScanResult } from '@/lib/mockData';
-import { Coins, TrendingUp, Droplets, Shield, Flame, Lock, Unlock, ExternalLink } from 'lucide-react';
+import { Coins, TrendingUp, Droplets, Shield, Flame, Lock, Unlock, ExternalLink, AlertTriangle, Rocket } from 'lucide-react';
 
 interface TokenInfoCardProps {
     data: ScanResult;
@@ -34,11 +34,24 @@ const formatLargeNumber = (num: number): string => {
     return `$${num.toFixed(0)}`;
 };
 
+const formatTokenAmount = (num: number): string => {
+    if (num >= 1_000_000_000) return `${(num / 1_000_000_000).toFixed(2)}B`;
+    if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(2)}M`;
+    if (num >= 1_000) return `${(num / 1_000).toFixed(1)}K`;
+    return num.toFixed(0);
+};
+
 const TokenInfoCard: React.FC<TokenInfoCardProps> = ({ data }) => {
     const chainEmoji = chainLogos[data.chainId] || '🔗';
-    const pairUrl = data.selectedPair.pairAddress
-        ? `https://dexscreener.com/${data.chainId}/${data.selectedPair.pairAddress}`
-        : null;
+    const totalLiquidity = data.liquidity?.totalUSD ?? data.selectedPair.liquidityUSD;
+    const thinPools = data.pairs.filter(p => p.isThinPool);
+    const curve = data.bondingCurve;
+    const onCurve = !!curve && !curve.migration;
+    const pairUrl = onCurve
+        ? `https://pump.fun/coin/${data.tokenAddress}`
+        : data.selectedPair.pairAddress
+            ? `https://dexscreener.com/${data.chainId}/${data.selectedPair.pairAddress}`
+            : null;
 
     return (
         <motion.div
@@ -104,6 +117,13 @@ const TokenInfoCard: React.FC<TokenInfoCardProps> = ({ data }) => {
                     <span className="text-lg font-mono font-bold text-foreground">
                         {formatLargeNumber(data.marketCap)}
                     </span>
+                    {data.supply && (
+                        <span className="block text-[10px] text-muted-foreground" title={data.supply.source === 'estimated' ? 'Estimated from FDV / price' : 'On-chain supply'}>
+                            {formatTokenAmount(data.supply.circulatingSupply)} circulating
+                            {data.supply.burnedSupply > 0 && ` · ${formatTokenAmount(data.supply.burnedSupply)} burned`}
+                            {data.supply.source === 'estimated' && ' (est.)'}
+                        </span>
+                    )}
                 </div>
 
                 {/* Liquidity */}
@@ -113,8 +133,13 @@ const TokenInfoCard: React.FC<TokenInfoCardProps> = ({ data }) => {
                         <span className="text-[10px] uppercase tracking-wider text-muted-foreground font-semibold">Liquidity</span>
                     </div>
                     <span className="text-lg font-mono font-bold text-foreground">
-                        {formatLargeNumber(data.selectedPair.liquidityUSD)}
+                        {formatLargeNumber(totalLiquidity)}
                     </span>
+                    {data.pairs.length > 1 && (
+                        <span className="block text-[10px] text-muted-foreground">
+                            top pool {formatLargeNumber(data.selectedPair.liquidityUSD)}
+                        </span>
+                    )}
                 </div>
 
                 {/* Security Status */}
@@ -157,6 +182,29 @@ const TokenInfoCard: React.FC<TokenInfoCardProps> = ({ data }) => {
                     <span className="text-primary">{data.pairs.length} pairs found</span>
                 )}
             </div>
+
+            {curve && (
+                <div className="mt-2 flex items-start gap-2 text-xs text-muted-foreground bg-primary/5 rounded-lg px-3 py-2 border border-primary/20">
+                    <Rocket size={13} className="flex-shrink-0 mt-0.5 text-primary" />
+                    <span>
+                        {curve.migration
+                            ? <>Launched on {curve.launchpad}, migrated to <span className="text-foreground">{curve.migration.venue}</span> {new Date(curve.migration.timestamp * 1000).toLocaleString()}</>
+                            : <>On the {curve.launchpad} bonding curve — <span className="text-foreground">{curve.curveProgressPercent}%</span> sold</>}
+                        {' · '}dev bundle {curve.devBundleWallets.length} {curve.devBundleWallets.length === 1 ? 'wallet' : 'wallets'} bought{' '}
+                        <span className={curve.devBundleCurvePercent > 10 ? 'text-yellow-400' : 'text-foreground'}>{curve.devBundleCurvePercent}%</span> of the curve
+                    </span>
+                </div>
+            )}
+
+            {thinPools.length > 0 && (
+                <div className="mt-2 flex items-start gap-2 text-xs text-yellow-400 bg-yellow-500/5 rounded-lg px-3 py-2 border border-yellow-500/20">
+                    <AlertTriangle size={13} className="flex-shrink-0 mt-0.5" />
+                    <span>
+                        {thinPools.length} thin {thinPools.length === 1 ? 'pool' : 'pools'} — tiny liquidity but heavy 24h volume:{' '}
+                        {thinPools.map(p => `${p.baseTokenSymbol}/${p.quoteTokenSymbol} on ${p.dexName} (${formatLargeNumber(p.liquidityUSD)} liq, ${formatLargeNumber(p.volume24hUSD || 0)} vol)`).join(', ')}
+                    </span>
+                </div>
+            )}
         </motion.div>
     );
 };
@@ -18,7 +18,8 @@ const VolumeRiskCard: React.FC<VolumeRiskCardProps> = ({ data }) => {
         riskVolume = data.analysis.bundleHoldingsUSD > 0 ? data.analysis.bundleHoldingsUSD : data.analysis.bundleVolumeUSD;
     }
 
-    const liquidity = data.selectedPair.liquidityUSD;
+    // Total depth across every pool (older results only carry the selected pair)
+    const liquidity = data.liquidity?.totalUSD ?? data.selectedPair.liquidityUSD;
     const noBundleData = riskVolume === 0;
 
     if (noBundleData) {
@@ -0,0 +1,196 @@
+import { X, ExternalLink } from 'lucide-react';
+import { BundleCluster, ClusterGraph, WalletPnl } from '@/lib/mockData';
+import { accountUrl } from '@/lib/explorers';
+
+interface WalletDetailPanelProps {
+    address: string;
+    graph: ClusterGraph;
+    clusters: BundleCluster[];
+    chainId: string;
+    onSelect: (address: string) => void;
+    onClose: () => void;
+}
+
+type ActivityKind = 'Buy' | 'Sell' | 'In' | 'Out';
+
+interface ActivityEntry {
+    kind: ActivityKind;
+    tokenAmount: number;
+    timestamp: number;
+    counterparty?: string;
+    quoteAmount?: number;
+}
+
+const activityColors: Record<ActivityKind, string> = {
+    Buy: 'text-green-400',
+    Sell: 'text-red-400',
+    In: 'text-indigo-400',
+    Out: 'text-orange-400',
+};
+
+const formatTokens = (v: number): string => {
+    if (v >= 1_000_000_000) return `${(v / 1_000_000_000).toFixed(2)}B`;
+    if (v >= 1_000_000) return `${(v / 1_000_000).toFixed(2)}M`;
+    if (v >= 1_000) return `${(v / 1_000).toFixed(1)}K`;
+    return v.toFixed(2);
+};
+
+const formatSignedUSD = (v: number): string => {
+    const abs = Math.abs(v);
+    const body = abs >= 1_000_000 ? `${(abs / 1_000_000).toFixed(2)}M` : abs >= 1_000 ? `${(abs / 1_000).toFixed(1)}K` : abs.toFixed(0);
+    return `${v < 0 ? '-' : ''}$${body}`;
+};
+
+const formatTime = (ts: number): string =>
+    ts > 0 ? new Date(ts * 1000).toISOString().replace('T', ' ').slice(0, 19) : '—';
+
+const shortenAddr = (addr: string): string =>
+    addr.length > 12 ? `${addr.slice(0, 4)}...${addr.slice(-4)}` : addr;
+
+const roleOf = (node?: ClusterGraph['nodes'][number]): string => {
+    if (!node) return 'Funder';
+    if (node.isSeedWallet) return 'Seed buyer (L0)';
+    return `Level ${node.traceDepth} recipient`;
+};
+
+/** Buys, sells and transfers on one timeline, oldest first */
+const buildActivity = (address: string, graph: ClusterGraph, node?: ClusterGraph['nodes'][number]): ActivityEntry[] => [
+    ...(node?.buys || []).map(b => ({ kind: 'Buy' as const, ...b })),
+    ...(node?.sells || []).map(s => ({ kind: 'Sell' as const, ...s })),
+    ...(node?.incomingTransfers || graph.edges.filter(e => e.to === address))
+        .map(t => ({ kind: 'In' as const, tokenAmount: t.tokenAmount, timestamp: t.timestamp, counterparty: t.from })),
+    ...graph.edges.filter(e => e.from === address)
+        .map(e => ({ kind: 'Out' as const, tokenAmount: e.tokenAmount, timestamp: e.timestamp, counterparty: e.to })),
+].sort((a, b) => a.timestamp - b.timestamp);
+
+const PnlStat = ({ label, value }: { label: string; value: number }) => (
+    <div>
+        <p className="text-[10px] text-muted-foreground uppercase">{label}</p>
+        <p className={`font-mono font-semibold ${value > 0 ? 'text-green-400' : value < 0 ? 'text-red-400' : 'text-foreground'}`}>{formatSignedUSD(value)}</p>
+    </div>
+);
+
+const PnlRow = ({ pnl }: { pnl?: WalletPnl }) => {
+    if (!pnl) return <p className="mb-3 text-muted-foreground">PnL unavailable — swap amounts were not priced for this wallet.</p>;
+    return (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-3">
+            <div>
+                <p className="text-[10px] text-muted-foreground uppercase">Invested</p>
+                <p className="font-mono font-semibold text-foreground">{formatSignedUSD(pnl.investedUSD)}</p>
+            </div>
+            <div>
+                <p className="text-[10px] text-muted-foreground uppercase">Proceeds</p>
+                <p className="font-mono font-semibold text-foreground">{formatSignedUSD(pnl.proceedsUSD)}</p>
+            </div>
+            <PnlStat label="Realized" value={pnl.realizedUSD} />
+            <PnlStat label="Unrealized" value={pnl.unrealizedUSD} />
+            {pnl.partial && (
+                <p className="col-span-full text-[10px] text-muted-foreground">Partial — some swaps were not priced in SOL and are left out.</p>
+            )}
+        </div>
+    );
+};
+
+export default function WalletDetailPanel({ address, graph, clusters, chainId, onSelect, onClose }: WalletDetailPanelProps) {
+    const node = graph.nodes.find(n => n.address === address);
+    const cluster = clusters.find(c => c.wallets.some(w => w.address === address));
+    const member = cluster?.wallets.find(w => w.address === address);
+    const funded = graph.nodes.filter(n => n.fundedBy === address);
+    const activity = buildActivity(address, graph, node);
+    const explorer = accountUrl(chainId, address);
+
+    const Counterparty = ({ addr }: { addr: string }) => (
+        <button className="font-mono text-blue-400 hover:text-blue-300 hover:underline" onClick={() => onSelect(addr)}>
+            {shortenAddr(addr)}
+        </button>
+    );
+
+    return (
+        <div className="bg-background/60 border border-border rounded-xl p-4 text-xs">
+            <div className="flex items-start justify-between gap-2 mb-3">
+                <div>
+                    <p className="text-[10px] uppercase tracking-wider text-muted-foreground">{roleOf(node)}{!node && funded.some(n => n.fundedByCex) ? ' · CEX' : ''}</p>
+                    {explorer ? (
+                        <a href={explorer} target="_blank" rel="noreferrer" className="font-mono text-sm text-blue-400 hover:underline flex items-center gap-1 break-all">
+                            {address}
+                            <ExternalLink size={12} className="flex-shrink-0" />
+                        </a>
+                    ) : (
+                        <p className="font-mono text-sm text-foreground break-all">{address}</p>
+                    )}
+                </div>
+                <button onClick={onClose} className="text-muted-foreground hover:text-foreground" aria-label="Close wallet details">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-3">
+                <div>
+                    <p className="text-[10px] text-muted-foreground uppercase">Cluster</p>
+                    <p className="font-semibold text-foreground">{cluster ? `${cluster.id} (${cluster.risk})` : '—'}</p>
+                </div>
+                <div>
+                    <p className="text-[10px] text-muted-foreground uppercase">Balance</p>
+                    <p className="font-mono font-semibold text-foreground">{node?.currentBalance !== undefined ? formatTokens(node.currentBalance) : '—'}</p>
+                </div>
+                <div>
+                    <p className="text-[10px] text-muted-foreground uppercase">In</p>
+                    <p className="font-mono text-green-400">
+                        {member ? `+${formatTokens(member.boughtAmount + member.receivedAmount)}` : '—'}
+                    </p>
+                </div>
+                <div>
+                    <p className="text-[10px] text-muted-foreground uppercase">Sold</p>
+                    <p className="font-mono text-red-400">{member && member.soldAmount > 0 ? `-${formatTokens(member.soldAmount)}` : '—'}</p>
+                </div>
+            </div>
+
+            {node && <PnlRow pnl={node.pnl} />}
+
+            {member?.heuristics && member.heuristics.length > 0 && (
+                <div className="mb-3">
+                    <p className="text-[10px] text-muted-foreground uppercase mb-1">Heuristics matched</p>
+                    <div className="flex flex-wrap gap-1">
+                        {member.heuristics.map(h => (
+                            <span key={h} className="px-1.5 py-0.5 rounded-sm bg-rose-500/10 text-rose-300 text-[10px]">{h}</span>
+                        ))}
+                    </div>
+                    {member.matchedGroups && member.matchedGroups.length > 0 && (
+                        <p className="mt-1 text-muted-foreground">Found in: {member.matchedGroups.join(', ')}</p>
+                    )}
+                </div>
+            )}
+
+            {node?.fundedBy && (
+                <p className="mb-2 text-muted-foreground">
+                    Funded by <Counterparty addr={node.fundedBy} />{node.fundedByCex ? <span className="ml-1 text-amber-400">(CEX)</span> : null}
+                </p>
+            )}
+            {funded.length > 0 && (
+                <p className="mb-2 text-muted-foreground">
+                    Funded {funded.length} traced wallet{funded.length > 1 ? 's' : ''}:{' '}
+                    {funded.slice(0, 8).map((n, i) => <span key={n.address}>{i > 0 && ', '}<Counterparty addr={n.address} /></span>)}
+                    {funded.length > 8 && ` +${funded.length - 8} more`}
+                </p>
+            )}
+
+            {activity.length > 0 && (
+                <div className="mt-2">
+                    <p className="text-[10px] text-muted-foreground uppercase mb-1">Token history</p>
+                    <div className="space-y-0.5 max-h-48 overflow-y-auto pr-1">
+                        {activity.map((a, i) => (
+                            <div key={i} className="grid grid-cols-12 gap-2">
+                                <span className="col-span-4 font-mono text-muted-foreground">{formatTime(a.timestamp)}</span>
+                                <span className={`col-span-2 font-semibold ${activityColors[a.kind]}`}>{a.kind}</span>
+                                <span className="col-span-3 font-mono text-foreground">{formatTokens(a.tokenAmount)}</span>
+                                <span className="col-span-3 text-right">
+                                    {a.counterparty ? <Counterparty addr={a.counterparty} /> : a.quoteAmount !== undefined ? <span className="font-mono text-muted-foreground">{a.quoteAmount.toFixed(3)} SOL</span> : null}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
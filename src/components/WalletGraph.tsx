@@ -0,0 +1,142 @@
+import { useMemo, useState } from 'react';
+import { BundleCluster, ClusterGraph } from '@/lib/mockData';
+import { layoutWalletGraph, GraphEdgeLayout } from '@/lib/walletGraphLayout';
+import WalletDetailPanel from './WalletDetailPanel';
+
+interface WalletGraphProps {
+    graph: ClusterGraph;
+    clusters: BundleCluster[];
+    chainId: string;
+}
+
+const CLUSTER_COLORS = ['#f43f5e', '#f59e0b', '#10b981', '#3b82f6', '#a855f7', '#ec4899', '#14b8a6', '#eab308'];
+const UNCLUSTERED_COLOR = '#475569';
+
+// Ring colour per trace depth: seeds, L1, L2, L3+
+const DEPTH_COLORS = ['#e2e8f0', '#818cf8', '#38bdf8', '#64748b'];
+const depthColor = (depth: number) => DEPTH_COLORS[Math.min(depth, DEPTH_COLORS.length - 1)];
+
+const FUNDER_COLOR = '#94a3b8';
+const CEX_COLOR = '#fbbf24';
+
+/** Cubic curve between two node centres, bending horizontally */
+const edgePath = (x1: number, y1: number, x2: number, y2: number): string => {
+    const mx = (x1 + x2) / 2;
+    return `M ${x1} ${y1} C ${mx} ${y1}, ${mx} ${y2}, ${x2} ${y2}`;
+};
+
+export default function WalletGraph({ graph, clusters, chainId }: WalletGraphProps) {
+    const layout = useMemo(() => layoutWalletGraph(graph), [graph]);
+    const [selected, setSelected] = useState<string | null>(null);
+    const [hovered, setHovered] = useState<string | null>(null);
+
+    const position = useMemo(() => new Map(layout.nodes.map(n => [n.id, n])), [layout]);
+    const clusterColor = useMemo(() => new Map(clusters.map((c, i) => [c.id, CLUSTER_COLORS[i % CLUSTER_COLORS.length]])), [clusters]);
+
+    const focus = hovered ?? selected;
+    const touchesFocus = (e: GraphEdgeLayout) => !focus || e.from === focus || e.to === focus;
+
+    if (layout.nodes.length === 0) return null;
+
+    return (
+        <div className="bg-card/50 rounded-2xl border border-border overflow-hidden">
+            <div className="p-6 pb-4">
+                <h2 className="text-xl font-bold tracking-tight">
+                    <span className="text-foreground">Distribution Graph</span>
+                </h2>
+                <p className="text-sm text-muted-foreground mt-1">
+                    Traced wallets by depth. Colour marks the cluster, edge width the tokens moved; click a wallet for details.
+                </p>
+            </div>
+
+            <div className="mx-6 mb-3 flex flex-wrap gap-x-4 gap-y-1 text-[10px] text-muted-foreground">
+                {clusters.map(c => (
+                    <span key={c.id} className="flex items-center gap-1">
+                        <span className="w-2.5 h-2.5 rounded-full" style={{ background: clusterColor.get(c.id) }} /> {c.id}
+                    </span>
+                ))}
+                <span className="flex items-center gap-1">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ background: UNCLUSTERED_COLOR }} /> Unclustered
+                </span>
+                <span className="flex items-center gap-1">
+                    <span className="w-2.5 h-2.5" style={{ background: FUNDER_COLOR }} /> Funder
+                </span>
+                <span className="flex items-center gap-1">
+                    <span className="w-2.5 h-2.5" style={{ background: CEX_COLOR }} /> CEX funder
+                </span>
+                <span className="flex items-center gap-1">
+                    <span className="w-4 border-t border-dashed border-slate-400" /> Funding
+                </span>
+            </div>
+
+            <div className="mx-6 mb-4 rounded-xl border border-border bg-background/40 overflow-auto max-h-[520px]">
+                <svg width={layout.width} height={layout.height + 20} className="block">
+                    {layout.columns.map(col => (
+                        <text key={col.label} x={col.x} y={14} textAnchor="middle" className="fill-slate-500 text-[10px] uppercase">
+                            {col.label}
+                        </text>
+                    ))}
+
+                    <g transform="translate(0, 20)">
+                        {layout.edges.map((e, i) => {
+                            const a = position.get(e.from);
+                            const b = position.get(e.to);
+                            if (!a || !b) return null;
+                            return (
+                                <path
+                                    key={i}
+                                    d={edgePath(a.x, a.y, b.x, b.y)}
+                                    fill="none"
+                                    stroke={e.kind === 'funding' ? FUNDER_COLOR : '#818cf8'}
+                                    strokeWidth={e.width}
+                                    strokeDasharray={e.kind === 'funding' ? '3 3' : undefined}
+                                    opacity={touchesFocus(e) ? (e.kind === 'funding' ? 0.5 : 0.7) : 0.08}
+                                >
+                                    {e.kind === 'transfer' && <title>{`${e.tokenAmount.toLocaleString()} tokens`}</title>}
+                                </path>
+                            );
+                        })}
+
+                        {layout.nodes.map(n => {
+                            const isSelected = n.id === selected;
+                            const common = {
+                                className: 'cursor-pointer',
+                                onMouseEnter: () => setHovered(n.id),
+                                onMouseLeave: () => setHovered(null),
+                                onClick: () => setSelected(isSelected ? null : n.id),
+                            };
+                            if (n.kind === 'funder') {
+                                return (
+                                    <rect key={n.id} {...common} x={n.x - n.r} y={n.y - n.r} width={n.r * 2} height={n.r * 2} rx={2}
+                                        fill={n.isCex ? CEX_COLOR : FUNDER_COLOR} stroke={isSelected ? '#fff' : 'none'} strokeWidth={2}>
+                                        <title>{`${n.isCex ? 'CEX funder' : 'Funder'} ${n.id}`}</title>
+                                    </rect>
+                                );
+                            }
+                            return (
+                                <circle key={n.id} {...common} cx={n.x} cy={n.y} r={n.r}
+                                    fill={n.clusterId ? clusterColor.get(n.clusterId) ?? UNCLUSTERED_COLOR : UNCLUSTERED_COLOR}
+                                    stroke={isSelected ? '#fff' : depthColor(n.traceDepth)} strokeWidth={isSelected ? 3 : 1.5}>
+                                    <title>{`${n.id}${n.clusterId ? ` · ${n.clusterId}` : ''}`}</title>
+                                </circle>
+                            );
+                        })}
+                    </g>
+                </svg>
+            </div>
+
+            {selected && (
+                <div className="mx-6 mb-6">
+                    <WalletDetailPanel
+                        address={selected}
+                        graph={graph}
+                        clusters={clusters}
+                        chainId={chainId}
+                        onSelect={setSelected}
+                        onClose={() => setSelected(null)}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
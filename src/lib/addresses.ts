@@ -0,0 +1,9 @@
+// ───────────────────────────────────────────────
+// Address identity across chains
+// ───────────────────────────────────────────────
+
+/** EVM addresses are case-insensitive; Solana base58 addresses are not */
+export const normalizeAddress = (address: string) => address.startsWith('0x') ? address.toLowerCase() : address;
+
+/** A Solana public key: 32 bytes in base58, which has no 0, O, I or l */
+export const isSolanaAddress = (value: string) => /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(value);
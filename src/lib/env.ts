@@ -0,0 +1,29 @@
+// ───────────────────────────────────────────────
+// Runtime configuration
+// ───────────────────────────────────────────────
+
+export type EnvKey =
+    | 'VITE_MORALIS_API_KEY'
+    | 'VITE_HELIUS_API_KEY'
+    | 'VITE_ALCHEMY_API_KEY';
+
+export const ENV_KEYS: EnvKey[] = ['VITE_MORALIS_API_KEY', 'VITE_HELIUS_API_KEY', 'VITE_ALCHEMY_API_KEY'];
+
+// Values that take precedence over the environment (fixture replay uses placeholders)
+let overrides: Partial<Record<EnvKey, string>> = {};
+
+export const setEnvOverrides = (values: Partial<Record<EnvKey, string>>) => {
+    overrides = { ...values };
+};
+
+/**
+ * Read a config value in both runtimes:
+ * Vite (browser) exposes VITE_* keys on import.meta.env, Node.js on process.env.
+ */
+export const readEnv = (key: EnvKey): string => {
+    if (overrides[key] !== undefined) return overrides[key]!;
+    if (typeof import.meta !== 'undefined' && import.meta.env) {
+        return import.meta.env[key] || '';
+    }
+    return (typeof process !== 'undefined' && process.env[key]) || '';
+};
@@ -0,0 +1,39 @@
+// ───────────────────────────────────────────────
+// Block explorer links per chain
+// ───────────────────────────────────────────────
+
+const EXPLORERS: Record<string, string> = {
+    solana: 'https://solscan.io',
+    ethereum: 'https://etherscan.io',
+    bsc: 'https://bscscan.com',
+    base: 'https://basescan.org',
+    polygon: 'https://polygonscan.com',
+    arbitrum: 'https://arbiscan.io',
+    optimism: 'https://optimistic.etherscan.io',
+};
+
+/** Account page, or undefined for chains without a known explorer */
+export const accountUrl = (chainId: string, address: string): string | undefined => {
+    const base = EXPLORERS[chainId];
+    if (!base) return undefined;
+    return chainId === 'solana' ? `${base}/account/${address}` : `${base}/address/${address}`;
+};
+
+/** Transaction page for a signature (Solana) or hash (EVM) */
+export const txUrl = (chainId: string, signature: string): string | undefined => {
+    const base = EXPLORERS[chainId];
+    return base ? `${base}/tx/${signature}` : undefined;
+};
+
+/** Raw native amount (lamports / wei) in whole coins */
+export const fromNativeUnits = (chainId: string, amount: number): number =>
+    amount / (chainId === 'solana' ? 1e9 : 1e18);
+
+export const nativeSymbol = (chainId: string): string => {
+    switch (chainId) {
+        case 'solana': return 'SOL';
+        case 'bsc': return 'BNB';
+        case 'polygon': return 'POL';
+        default: return 'ETH';
+    }
+};
@@ -15,6 +15,27 @@ export interface LiquidityPair {
     pairAddress: string;
     baseTokenSymbol: string;
     quoteTokenSymbol: string;
+    volume24hUSD?: number;
+    isThinPool?: boolean;   // Tiny liquidity but heavy volume — wash-trading or a pool about to drain
+    baseReserve?: number;   // Token units in the pool (feeds the sell simulation)
+    isConcentrated?: boolean; // Concentrated-liquidity pool (Uniswap V3, CLMM, DLMM, Whirlpool)
+}
+
+/** Estimated outcome of selling into the token's pools */
+export interface SellSimulation {
+    tokensSold: number;
+    priceDropPercent: number;  // 0-100
+    priceAfterUsd: number;
+    proceedsUSD: number;
+    exhaustsLiquidity: boolean; // Concentrated ranges ran dry before the sale completed
+}
+
+/** Depth across every pool of the token, not just the one the price comes from */
+export interface LiquiditySummary {
+    totalUSD: number;
+    topPairUSD: number;
+    pairCount: number;
+    thinPoolCount: number;
 }
 
 /** A single wallet within a bundle cluster */
@@ -25,7 +46,43 @@ export interface BundleWallet {
     currentBalance: number;    // live token balance
     soldAmount: number;        // tokens sold via swap
     holdingUSD: number;        // currentBalance * priceUsd
-    status: 'active' | 'dormant' | 'sold_all';
+    status: 'active' | 'dormant' | 'sold_all' | 'locked' | 'burned'; // locked / burned: most of what it kept was sent to a locker / burn address
+    lockedAmount?: number;     // tokens sent to known lockers
+    burnedAmount?: number;     // tokens sent to burn addresses
+    lastActivity?: number;     // unix seconds of its latest buy, sell or transfer
+    heuristics?: string[];     // Heuristics this wallet itself matched, e.g. ["Shared Funding", "Sync Sell"]
+    matchedGroups?: string[];  // Heuristic groups it was found in before merging, e.g. "Funding Cluster (Ab12)"
+}
+
+/** Proof behind one of a cluster's risk factors. Amounts are token units unless noted */
+export type RiskFactorEvidence =
+    | {
+        factor: 'Shared Funding';
+        funder: string;
+        fundings: { wallet: string; amount: number; timestamp: number; signature?: string }[]; // amount: raw native units (lamports / wei)
+    }
+    | {
+        factor: 'Temporal Match';
+        bucketStart: number;   // unix seconds; buckets are 2 seconds wide
+        buys: { wallet: string; tokenAmount: number; timestamp: number }[];
+    }
+    | {
+        factor: 'Internal Transfers';
+        transfers: { from: string; to: string; tokenAmount: number; timestamp: number }[];
+    }
+    | {
+        factor: 'Sync Sell';
+        pairs: { first: SellEvent; second: SellEvent; gapSeconds: number }[];
+    }
+    | {
+        factor: 'Known Serial Bundler';
+        addresses: string[];   // Members or funders clustered on other launches
+    };
+
+export interface SellEvent {
+    wallet: string;
+    tokenAmount: number;
+    timestamp: number;
 }
 
 /** A cluster of related wallets under common control */
@@ -40,8 +97,11 @@ export interface BundleCluster {
 
     // Phase 3: Coordination Intelligence
     riskScore: number;         // 0-100
-    riskFactors: string[];     // ["Shared Funding", "Temporal Match", "Internal Transfers", "Sync Sell"]
+    riskFactors: string[];     // ["Shared Funding", "Temporal Match", "Internal Transfers", "Sync Sell", "Known Serial Bundler"]
     internalTransferCount: number;
+    knownBundlers?: string[];  // Members or funders with bundle history on other tokens
+    evidence?: RiskFactorEvidence[]; // One entry per heuristic match behind riskFactors
+    sellSimulation?: SellSimulation; // If this cluster alone sold its whole currentBalance
 }
 /** Result from the BundleAnalyzer service */
 export interface BundleControlResult {
@@ -50,6 +110,7 @@ export interface BundleControlResult {
     lpValueUSD: number;
     clusterCount: number;
     lpImpactRatio: number;
+    combinedSellSimulation?: SellSimulation; // If every cluster sold at once
     totalBundledSupplyPercent: number;
     totalBundledTokens: number;
     totalBundledValueUSD: number;
@@ -63,6 +124,68 @@ export interface BundleControlResult {
     lastUpdated: string;
 }
 
+/** A swap of the scanned token. `quoteAmount` is the native coin paid or received (SOL), when the tracer parsed it */
+export interface WalletTrade {
+    tokenAmount: number;
+    timestamp: number;
+    quoteAmount?: number;
+}
+
+/** Profit on the scanned token, in USD. Native amounts are valued at today's native price */
+export interface WalletPnl {
+    investedUSD: number;     // Spent on buys
+    proceedsUSD: number;     // Received from sells
+    realizedUSD: number;     // Proceeds minus the average cost of the tokens sold
+    unrealizedUSD: number;   // Current balance at today's price minus its average cost
+    partial?: boolean;       // Some swaps had no quote amount; the figures cover the priced ones
+}
+
+/** Raw distribution graph behind the clusters: traced wallets and token transfers between them */
+export interface ClusterGraph {
+    nodes: {
+        address: string;
+        clusterId?: string;    // undefined when the wallet was traced but not clustered
+        isSeedWallet: boolean;
+        traceDepth: number;
+        fundedBy?: string;
+        fundedByCex?: boolean;
+        currentBalance?: number;
+        buys?: WalletTrade[];
+        sells?: WalletTrade[];
+        incomingTransfers?: { from: string; tokenAmount: number; timestamp: number }[]; // Includes senders outside the trace
+        pnl?: WalletPnl;       // Absent when none of the wallet's swaps were priced
+    }[];
+    edges: { from: string; to: string; tokenAmount: number; timestamp: number }[];
+}
+
+/** A wallet the tracer could not load after retries (its clusters may be incomplete) */
+export interface FailedWallet {
+    address: string;
+    traceDepth: number;
+    reason: string;          // e.g. "HTTP 429"
+}
+
+export type ProviderCallStatus = 'ok' | 'partial' | 'no_data' | 'skipped' | 'not_supported' | 'missing_key' | 'failed';
+
+/** One provider step of a scan and how it went */
+export interface ProviderCall {
+    step: 'market' | 'launchpad' | 'supply' | 'security' | 'forensics' | 'tracing';
+    provider: string;
+    status: ProviderCallStatus;
+    detail?: string;                         // error, reason or coverage text
+    coverage?: { covered: number; total: number }; // e.g. wallets traced of wallets found
+}
+
+/** How complete the data behind a verdict is */
+export interface DataQuality {
+    calls: ProviderCall[];
+    confidence: 'high' | 'medium' | 'low';
+    /** Critical inputs that were missing, e.g. "security: failed (HTTP 500)" */
+    missingCritical: string[];
+    /** Set when missingCritical is non-empty: the score is capped by the policy */
+    inconclusive: boolean;
+}
+
 export interface CoordinationAnalysis extends BundleControlResult {
     totalBundlePercentage: number;
     bundleWalletCount: number;
@@ -81,12 +204,35 @@ export interface CoordinationAnalysis extends BundleControlResult {
     totalInsiderSold: number;
     currentInsiderHoldings: number;
     retentionRate: number; // 0 to 1
+    devBundleCurvePercent?: number; // Bonding-curve launches: share of the curve bought by creator + launch-slot wallets
 }
 
 /** Top-level bundle control analysis (Legacy/Alias) */
 export type BundleControlAnalysis = CoordinationAnalysis;
 export type BundleAnalysis = CoordinationAnalysis;
 
+/** Token supply. Supply percentages (clusters, bundled supply) are of `circulatingSupply` */
+export interface TokenSupply {
+    totalSupply: number;        // Minted and not burned by instruction
+    burnedSupply: number;       // Held by burn addresses (dead / zero / incinerator)
+    circulatingSupply: number;  // totalSupply - burnedSupply
+    source: 'onchain' | 'estimated'; // estimated = FDV / price, when no supply provider covers the chain
+}
+
+/** Launch on a bonding curve (pump.fun), read from the mint's own transactions */
+export interface BondingCurveAnalysis {
+    launchpad: 'pump.fun';
+    creator: string;
+    createdAt: number;               // unix seconds
+    curveProgressPercent: number;    // Net tokens sold out of the curve's allocation
+    curveBuyerCount: number;
+    devBundleWallets: string[];      // Creator plus wallets that bought in the creation slots
+    devBundleTokens: number;
+    devBundleCurvePercent: number;   // devBundleTokens / tokens the curve sells before migration
+    devBundleSupplyPercent: number;
+    migration?: { signature: string; timestamp: number; venue: string };
+}
+
 export interface ScoreFactor {
     label: string;           // e.g. "Honeypot"
     impact: number;          // negative = penalty, positive = bonus (e.g. -25, +0)
@@ -104,15 +250,23 @@ export interface ScanResult {
     wallets: WalletNode[];
     pairs: LiquidityPair[];
     selectedPair: LiquidityPair;
+    liquidity?: LiquiditySummary;
     isBurned: boolean;
     isLocked: boolean;
     isSoledOld: boolean;
     marketCap: number;
     tokenName: string;
     tokenSymbol: string;
+    tokenAddress: string;
     priceUsd: number;
     chainId: string;
     bundleControl?: BundleControlResult; // Deep bundle analysis (Helius — Solana only)
+    clusterGraph?: ClusterGraph;         // Traced wallets/transfers that produced bundleControl
+    bondingCurve?: BondingCurveAnalysis; // Launchpad tokens: curve buys, dev bundle and migration
+    supply?: TokenSupply;
+    failedWallets?: FailedWallet[];      // Wallets the tracer could not fetch; absent when every wallet loaded
+    dataQuality?: DataQuality;           // Provider statuses and coverage behind this verdict
+    scoringPolicy?: { id: string; version: string; chainOverride?: string; product?: string }; // Policy that produced score/riskLevel
 }
 
 // Scenario generators for demo and testing
@@ -148,6 +302,7 @@ export const MOCK_SCENARIOS: Record<string, ScanResult> = {
         marketCap: 125000,
         tokenName: 'SafeToken',
         tokenSymbol: 'SAFE',
+        tokenAddress: '0xSafeToken',
         priceUsd: 0.00125,
         chainId: 'ethereum',
         isBurned: true,
@@ -203,6 +358,7 @@ export const MOCK_SCENARIOS: Record<string, ScanResult> = {
         marketCap: 200000,
         tokenName: 'NestToken',
         tokenSymbol: 'NEST',
+        tokenAddress: '0xNestToken',
         priceUsd: 0.002,
         chainId: 'ethereum',
         isBurned: false,
@@ -260,6 +416,7 @@ export const MOCK_SCENARIOS: Record<string, ScanResult> = {
         marketCap: 150000,
         tokenName: 'VampireToken',
         tokenSymbol: 'VAMP',
+        tokenAddress: '0xVampToken',
         priceUsd: 0.0015,
         chainId: 'ethereum',
         isBurned: false,
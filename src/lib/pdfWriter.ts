@@ -0,0 +1,115 @@
+// ───────────────────────────────────────────────
+// Minimal PDF writer — flowing lines of text in the standard fonts
+//
+// No embedded fonts or images: Helvetica for prose and headings, Courier for
+// tables (fixed width keeps columns aligned). Text is limited to ASCII;
+// common typographic characters are transliterated, anything else becomes "?".
+// ───────────────────────────────────────────────
+
+export type PdfLineStyle = 'title' | 'heading' | 'text' | 'mono';
+
+export interface PdfLine {
+    text: string;
+    style: PdfLineStyle;
+}
+
+const PAGE_WIDTH = 595;     // A4, points
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+
+const STYLES: Record<PdfLineStyle, { font: string; size: number; leading: number; charWidth: number }> = {
+    title: { font: 'F2', size: 16, leading: 24, charWidth: 0.6 },
+    heading: { font: 'F2', size: 11, leading: 20, charWidth: 0.6 },
+    text: { font: 'F1', size: 9, leading: 12, charWidth: 0.5 },    // Helvetica averages about half an em
+    mono: { font: 'F3', size: 7, leading: 9, charWidth: 0.6 },
+};
+
+const TRANSLITERATIONS: Record<string, string> = {
+    '—': '-', '–': '-', '─': '-', '═': '=', '…': '...', '•': '*', '×': 'x', '≥': '>=', '≤': '<=',
+    '‘': "'", '’': "'", '“': '"', '”': '"', '→': '->',
+};
+
+const toAscii = (text: string): string =>
+    [...text].map(ch => TRANSLITERATIONS[ch] ?? (ch.charCodeAt(0) < 128 ? ch : '?')).join('');
+
+const escapeText = (text: string): string => text.replace(/[\\()]/g, ch => `\\${ch}`);
+
+const maxChars = (style: PdfLineStyle): number => {
+    const s = STYLES[style];
+    return Math.floor((PAGE_WIDTH - MARGIN * 2) / (s.size * s.charWidth));
+};
+
+/** Prose wraps at word boundaries; monospaced rows are cut so table columns stay intact */
+const fitLine = (line: PdfLine): PdfLine[] => {
+    const text = toAscii(line.text);
+    const limit = maxChars(line.style);
+    if (text.length <= limit) return [{ ...line, text }];
+    if (line.style === 'mono') return [{ ...line, text: `${text.slice(0, limit - 3)}...` }];
+
+    const wrapped: PdfLine[] = [];
+    let current = '';
+    text.split(' ').forEach(word => {
+        if (current && (current + ' ' + word).length > limit) {
+            wrapped.push({ ...line, text: current });
+            current = '';
+        }
+        current = current ? `${current} ${word}` : word;
+        while (current.length > limit) {
+            wrapped.push({ ...line, text: current.slice(0, limit) });
+            current = current.slice(limit);
+        }
+    });
+    if (current) wrapped.push({ ...line, text: current });
+    return wrapped;
+};
+
+/** Flow lines onto A4 pages, returning each page's content stream */
+const paginate = (lines: PdfLine[]): string[] => {
+    const pages: string[][] = [[]];
+    let y = PAGE_HEIGHT - MARGIN;
+
+    lines.flatMap(fitLine).forEach(line => {
+        const s = STYLES[line.style];
+        if (y - s.leading < MARGIN + 20) {
+            pages.push([]);
+            y = PAGE_HEIGHT - MARGIN;
+        }
+        y -= s.leading;
+        pages.at(-1)!.push(`BT /${s.font} ${s.size} Tf ${MARGIN} ${y} Td (${escapeText(line.text)}) Tj ET`);
+    });
+
+    return pages.map((ops, i) =>
+        [...ops, `BT /F1 7 Tf ${PAGE_WIDTH - MARGIN - 40} ${MARGIN - 10} Td (Page ${i + 1} of ${pages.length}) Tj ET`].join('\n'));
+};
+
+/** Render lines as a PDF document */
+export const writePdf = (lines: PdfLine[]): Uint8Array => {
+    const streams = paginate(lines);
+    const pageIds = streams.map((_, i) => 6 + i * 2);
+
+    const objects: string[] = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${streams.length} >>`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+        ...streams.flatMap((stream, i) => [
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Contents ${pageIds[i] + 1} 0 R /Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> >>`,
+            `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+        ]),
+    ];
+
+    // Everything is ASCII, so string offsets are byte offsets
+    let pdf = '%PDF-1.4\n';
+    const offsets = objects.map((body, i) => {
+        const offset = pdf.length;
+        pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+        return offset;
+    });
+    const xrefAt = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`;
+
+    return new TextEncoder().encode(pdf);
+};
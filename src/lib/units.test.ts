@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { formatUnits, parseRawAmount } from './units';
+
+describe('parseRawAmount', () => {
+    it('reads hex and decimal strings without float rounding', () => {
+        expect(parseRawAmount('0x0de0b6b3a7640000')).toBe(1_000_000_000_000_000_000n);
+        expect(parseRawAmount('123456789012345678901234567890')).toBe(123456789012345678901234567890n);
+    });
+
+    it('treats empty and malformed values as zero', () => {
+        expect(parseRawAmount('0x')).toBe(0n);
+        expect(parseRawAmount(undefined)).toBe(0n);
+        expect(parseRawAmount('12.5')).toBe(0n);
+    });
+});
+
+describe('formatUnits', () => {
+    it('applies the token decimals', () => {
+        expect(formatUnits(1_500_000n, 6)).toBe(1.5);              // USDC-style
+        expect(formatUnits(2_000_000_000n, 9)).toBe(2);
+        expect(formatUnits(1_000_000_000_000_000_000n, 18)).toBe(1);
+        expect(formatUnits(42n, 0)).toBe(42);
+    });
+
+    it('keeps small fractions and huge supplies', () => {
+        expect(formatUnits(1n, 18)).toBe(1e-18);
+        expect(formatUnits(parseRawAmount('420690000000000000000000000000000'), 18)).toBe(420_690_000_000_000);
+        expect(formatUnits(-2_500_000n, 6)).toBe(-2.5);
+    });
+});
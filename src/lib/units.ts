@@ -0,0 +1,33 @@
+// ───────────────────────────────────────────────
+// Token amounts — raw integer units ↔ decimal numbers
+// ───────────────────────────────────────────────
+
+/**
+ * Parse a raw on-chain amount (hex "0x…" or decimal string) without going through
+ * a float, so 18-decimal supplies keep every digit. Empty or invalid input is 0.
+ */
+export const parseRawAmount = (value: string | number | bigint | null | undefined): bigint => {
+    if (typeof value === 'bigint') return value;
+    if (typeof value === 'number') return Number.isFinite(value) ? BigInt(Math.trunc(value)) : 0n;
+    const trimmed = (value || '').trim();
+    if (!trimmed || trimmed === '0x') return 0n;
+    try {
+        return BigInt(trimmed);
+    } catch {
+        return 0n;
+    }
+};
+
+/**
+ * Scale a raw amount by `decimals`. The split into whole and fractional parts is done
+ * in BigInt; only the final result is a float (exact for the first ~15 significant digits).
+ */
+export const formatUnits = (raw: bigint, decimals: number): number => {
+    if (decimals <= 0) return Number(raw);
+    const negative = raw < 0n;
+    const abs = negative ? -raw : raw;
+    const base = 10n ** BigInt(decimals);
+    const fraction = (abs % base).toString().padStart(decimals, '0');
+    const value = parseFloat(`${abs / base}.${fraction}`);
+    return negative ? -value : value;
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { layoutWalletGraph } from './walletGraphLayout';
+import { ClusterGraph } from './mockData';
+
+const node = (address: string, traceDepth: number, extra: Partial<ClusterGraph['nodes'][number]> = {}) =>
+    ({ address, traceDepth, isSeedWallet: traceDepth === 0, ...extra });
+
+const GRAPH: ClusterGraph = {
+    nodes: [
+        node('SeedB', 0, { clusterId: 'Cluster A', fundedBy: 'Binance', fundedByCex: true, currentBalance: 100 }),
+        node('SeedA', 0, { clusterId: 'Cluster A', fundedBy: 'Dev', currentBalance: 400 }),
+        node('Lone', 0, { currentBalance: 0 }),
+        node('Hop1', 1, { clusterId: 'Cluster A', fundedBy: 'SeedA' }),
+    ],
+    edges: [
+        { from: 'SeedA', to: 'Hop1', tokenAmount: 500, timestamp: 1 },
+        { from: 'SeedA', to: 'Hop1', tokenAmount: 500, timestamp: 2 },
+        { from: 'SeedB', to: 'Hop1', tokenAmount: 10, timestamp: 3 },
+        { from: 'Hop1', to: 'Untraced', tokenAmount: 5, timestamp: 4 },
+    ],
+};
+
+describe('layoutWalletGraph', () => {
+    const layout = layoutWalletGraph(GRAPH);
+    const at = (id: string) => layout.nodes.find(n => n.id === id)!;
+
+    it('puts untraced funders first, then one column per trace depth', () => {
+        expect(layout.columns.map(c => c.label)).toEqual(['Funders', 'Seed (L0)', 'L1']);
+        expect(at('Dev')).toMatchObject({ kind: 'funder', traceDepth: -1, x: layout.columns[0].x });
+        expect(at('Binance').isCex).toBe(true);
+        expect(at('Hop1').x).toBe(layout.columns[2].x);
+        // SeedA funded Hop1 but was traced, so it is not repeated as a funder
+        expect(layout.nodes.filter(n => n.id === 'SeedA')).toHaveLength(1);
+    });
+
+    it('groups clustered wallets ahead of unclustered ones and sizes nodes by balance', () => {
+        const seeds = layout.nodes.filter(n => n.traceDepth === 0).sort((a, b) => a.y - b.y).map(n => n.id);
+        expect(seeds).toEqual(['SeedA', 'SeedB', 'Lone']);
+        expect(at('SeedA').r).toBeGreaterThan(at('SeedB').r);
+        expect(at('SeedB').r).toBeGreaterThan(at('Lone').r);
+    });
+
+    it('merges repeated transfers, scales width by amount and drops edges leaving the trace', () => {
+        const transfers = layout.edges.filter(e => e.kind === 'transfer');
+        expect(transfers.map(e => [e.from, e.to, e.tokenAmount])).toEqual([['SeedA', 'Hop1', 1000], ['SeedB', 'Hop1', 10]]);
+        expect(transfers[0].width).toBe(6);
+        expect(transfers[1].width).toBeLessThan(transfers[0].width);
+        expect(layout.edges.filter(e => e.kind === 'funding').map(e => `${e.from}>${e.to}`)).toEqual(['Binance>SeedB', 'Dev>SeedA', 'SeedA>Hop1']);
+    });
+});
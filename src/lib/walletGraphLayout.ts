@@ -0,0 +1,134 @@
+import { ClusterGraph } from './mockData';
+
+// ───────────────────────────────────────────────
+// Hierarchical layout for the traced distribution tree
+// ───────────────────────────────────────────────
+
+export interface GraphNodeLayout {
+    id: string;
+    kind: 'wallet' | 'funder';
+    x: number;
+    y: number;
+    r: number;
+    traceDepth: number;        // -1 for funders
+    clusterId?: string;
+    isSeedWallet: boolean;
+    isCex?: boolean;           // funders only
+    currentBalance?: number;
+}
+
+export interface GraphEdgeLayout {
+    from: string;
+    to: string;
+    kind: 'transfer' | 'funding';
+    tokenAmount: number;       // summed over repeated transfers between the pair
+    width: number;
+}
+
+export interface WalletGraphLayout {
+    nodes: GraphNodeLayout[];
+    edges: GraphEdgeLayout[];
+    columns: { label: string; x: number }[];
+    width: number;
+    height: number;
+}
+
+const COLUMN_GAP = 180;
+const ROW_GAP = 28;
+const PADDING = 40;
+const MIN_RADIUS = 5;
+const MAX_RADIUS = 14;
+
+// Sorts after every cluster id
+const UNCLUSTERED = '\uffff';
+
+const depthLabel = (depth: number): string => depth === 0 ? 'Seed (L0)' : `L${depth}`;
+
+/**
+ * Lay the graph out left to right: funders, then one column per trace depth.
+ * Within a column wallets are grouped by cluster; funders sit level with the
+ * wallets they funded. Node size follows balance, edge width follows amount (log scale).
+ */
+export const layoutWalletGraph = (graph: ClusterGraph): WalletGraphLayout => {
+    const traced = new Set(graph.nodes.map(n => n.address));
+
+    // Funders that were not traced themselves get their own column
+    const funderOf = new Map<string, { isCex: boolean; funded: string[] }>();
+    graph.nodes.forEach(n => {
+        if (!n.fundedBy || traced.has(n.fundedBy)) return;
+        const entry = funderOf.get(n.fundedBy) || { isCex: !!n.fundedByCex, funded: [] };
+        entry.funded.push(n.address);
+        funderOf.set(n.fundedBy, entry);
+    });
+
+    const depths = [...new Set(graph.nodes.map(n => n.traceDepth))].sort((a, b) => a - b);
+    const columnKeys = [...(funderOf.size > 0 ? [-1] : []), ...depths];
+    const columnX = new Map(columnKeys.map((key, i) => [key, PADDING + i * COLUMN_GAP]));
+
+    const byColumn = depths.map(depth => graph.nodes
+        .filter(n => n.traceDepth === depth)
+        .sort((a, b) => (a.clusterId ?? UNCLUSTERED).localeCompare(b.clusterId ?? UNCLUSTERED) || a.address.localeCompare(b.address)));
+    const rows = Math.max(funderOf.size, ...byColumn.map(c => c.length), 1);
+    const height = PADDING * 2 + (rows - 1) * ROW_GAP;
+    const rowY = (index: number, count: number) => PADDING + ((rows - count) * ROW_GAP) / 2 + index * ROW_GAP;
+
+    const maxBalance = Math.max(0, ...graph.nodes.map(n => n.currentBalance ?? 0));
+    const radius = (balance = 0) => maxBalance > 0 ? MIN_RADIUS + (MAX_RADIUS - MIN_RADIUS) * Math.sqrt(balance / maxBalance) : MIN_RADIUS;
+
+    const nodes: GraphNodeLayout[] = [];
+    byColumn.forEach((column, c) => column.forEach((n, i) => nodes.push({
+        id: n.address,
+        kind: 'wallet',
+        x: columnX.get(depths[c])!,
+        y: rowY(i, column.length),
+        r: radius(n.currentBalance),
+        traceDepth: n.traceDepth,
+        clusterId: n.clusterId,
+        isSeedWallet: n.isSeedWallet,
+        currentBalance: n.currentBalance,
+    })));
+
+    // Order funders by the mean height of the wallets they funded to keep edges short
+    const yOf = new Map(nodes.map(n => [n.id, n.y]));
+    const meanY = (addrs: string[]) => addrs.reduce((s, a) => s + (yOf.get(a) ?? 0), 0) / addrs.length;
+    [...funderOf.entries()]
+        .sort(([a, fa], [b, fb]) => meanY(fa.funded) - meanY(fb.funded) || a.localeCompare(b))
+        .forEach(([address, f], i) => nodes.push({
+            id: address,
+            kind: 'funder',
+            x: columnX.get(-1)!,
+            y: rowY(i, funderOf.size),
+            r: MIN_RADIUS + 2,
+            traceDepth: -1,
+            isSeedWallet: false,
+            isCex: f.isCex,
+        }));
+
+    // Sum repeated transfers between the same pair; drop edges to wallets beyond the trace
+    const transferTotals = new Map<string, number>();
+    graph.edges.forEach(e => {
+        if (!traced.has(e.from) || !traced.has(e.to) || e.from === e.to) return;
+        const key = `${e.from}>${e.to}`;
+        transferTotals.set(key, (transferTotals.get(key) || 0) + e.tokenAmount);
+    });
+    const maxAmount = Math.max(0, ...transferTotals.values());
+    const width = (amount: number) => maxAmount > 0 ? 1 + 5 * (Math.log1p(amount) / Math.log1p(maxAmount)) : 1;
+
+    const edges: GraphEdgeLayout[] = [
+        ...[...transferTotals.entries()].map(([key, tokenAmount]) => {
+            const [from, to] = key.split('>');
+            return { from, to, kind: 'transfer' as const, tokenAmount, width: width(tokenAmount) };
+        }),
+        ...graph.nodes
+            .filter(n => n.fundedBy && n.fundedBy !== n.address)
+            .map(n => ({ from: n.fundedBy!, to: n.address, kind: 'funding' as const, tokenAmount: 0, width: 1 })),
+    ];
+
+    return {
+        nodes,
+        edges,
+        columns: columnKeys.map(key => ({ label: key === -1 ? 'Funders' : depthLabel(key), x: columnX.get(key)! })),
+        width: PADDING * 2 + (columnKeys.length - 1) * COLUMN_GAP,
+        height,
+    };
+};
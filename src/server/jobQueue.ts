@@ -0,0 +1,88 @@
+// ───────────────────────────────────────────────
+// Job queue — runs scans in the background with bounded concurrency
+// ───────────────────────────────────────────────
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface Job<T> {
+    id: string;
+    key: string;                // dedupe key: one in-flight job per key
+    status: JobStatus;
+    createdAt: string;
+    finishedAt?: string;
+    result?: T;
+    error?: string;
+    /** Settles when the job finishes; never rejects (check `status`) */
+    done: Promise<Job<T>>;
+}
+
+export interface JobQueue<T> {
+    /** Queue work for `key`, or return the job already queued/running for it */
+    enqueue(key: string, run: () => Promise<T>): Job<T>;
+    get(id: string): Job<T> | undefined;
+    stats(): { queued: number; running: number; retained: number };
+}
+
+export interface JobQueueOptions {
+    concurrency?: number;       // default 2
+    /** Finished jobs kept for lookup by id (default 500, oldest evicted first) */
+    retain?: number;
+}
+
+let counter = 0;
+const nextId = () => `${Date.now().toString(36)}-${(counter++).toString(36)}`;
+
+export const createJobQueue = <T>(options: JobQueueOptions = {}): JobQueue<T> => {
+    const concurrency = options.concurrency ?? 2;
+    const retain = options.retain ?? 500;
+
+    const jobs = new Map<string, Job<T>>();          // insertion-ordered, so eviction drops the oldest
+    const inFlight = new Map<string, Job<T>>();      // key → queued/running job
+    const pending: { job: Job<T>; run: () => Promise<T>; settle: () => void }[] = [];
+    let running = 0;
+
+    const evict = () => {
+        for (const [id, job] of jobs) {
+            if (jobs.size <= retain) break;
+            if (job.status === 'done' || job.status === 'failed') jobs.delete(id);
+        }
+    };
+
+    const pump = () => {
+        while (running < concurrency && pending.length > 0) {
+            const { job, run, settle } = pending.shift()!;
+            running++;
+            job.status = 'running';
+            run().then(
+                result => { job.status = 'done'; job.result = result; },
+                err => { job.status = 'failed'; job.error = err instanceof Error ? err.message : String(err); },
+            ).finally(() => {
+                job.finishedAt = new Date().toISOString();
+                running--;
+                inFlight.delete(job.key);
+                settle();
+                evict();
+                pump();
+            });
+        }
+    };
+
+    return {
+        enqueue: (key, run) => {
+            const existing = inFlight.get(key);
+            if (existing) return existing;
+
+            let settle!: () => void;
+            const job = { id: nextId(), key, status: 'queued', createdAt: new Date().toISOString() } as Job<T>;
+            job.done = new Promise<Job<T>>(resolve => { settle = () => resolve(job); });
+
+            jobs.set(job.id, job);
+            inFlight.set(key, job);
+            pending.push({ job, run, settle });
+            pump();
+            return job;
+        },
+        get: id => jobs.get(id),
+        stats: () => ({ queued: pending.length, running, retained: jobs.size }),
+    };
+};
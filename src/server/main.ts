@@ -0,0 +1,31 @@
+import { existsSync } from 'node:fs';
+import { createScanServer } from './scanServer';
+
+// ───────────────────────────────────────────────
+// atlaix API server — `npm run serve` (PORT, default 8787)
+// ───────────────────────────────────────────────
+
+// Same VITE_* keys as the web app and CLI
+for (const file of ['.env', '.env.local']) {
+    if (existsSync(file)) process.loadEnvFile(file);
+}
+
+const port = Number(process.env.PORT || 8787);
+const server = createScanServer({
+    cacheTtlMs: Number(process.env.SCAN_CACHE_TTL_SECONDS || 300) * 1000,
+    maxCacheEntries: Number(process.env.SCAN_CACHE_MAX_ENTRIES || 500),
+    concurrency: Number(process.env.SCAN_CONCURRENCY || 2),
+});
+
+server.listen(port, () => {
+    console.log(`[Server] Listening on http://localhost:${port}`);
+});
+
+const shutdown = () => {
+    console.log('[Server] Shutting down...');
+    server.close(() => process.exit(0));
+    // In-flight scans can take minutes; don't wait on keep-alive sockets forever
+    setTimeout(() => process.exit(0), 5_000).unref();
+};
+process.once('SIGINT', shutdown);
+process.once('SIGTERM', shutdown);
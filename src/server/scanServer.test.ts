@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createScanServer } from './scanServer';
+import { createJobQueue } from './jobQueue';
+import { MOCK_SCENARIOS, ScanResult } from '../lib/mockData';
+import { ScanTarget } from '../services/scanEngine';
+
+// ── Stub engine: scans resolve when the test releases them ──
+const deferredEngine = () => {
+    const pending = new Map<string, (result: ScanResult) => void>();
+    const runFullScan = vi.fn((target: ScanTarget | string) => new Promise<ScanResult>((resolve, reject) => {
+        const query = typeof target === 'string' ? target : target.tokenAddress;
+        if (query === 'BOOM') return reject(new Error('tracer exploded'));
+        pending.set(query, resolve);
+    }));
+    // Waits for the request to reach the engine, so slow machines don't race the test
+    const release = async (query: string, overrides: Partial<ScanResult> = {}) => {
+        await vi.waitFor(() => expect(pending.has(query)).toBe(true));
+        pending.get(query)!({ ...MOCK_SCENARIOS['VAMPIRE'], tokenAddress: query, chainId: 'solana', ...overrides });
+        pending.delete(query);
+    };
+    return { engine: { runFullScan, findCandidates: async () => [] }, runFullScan, release };
+};
+
+let server: Server;
+let base: string;
+let stub: ReturnType<typeof deferredEngine>;
+
+const start = async (cacheTtlMs = 60_000, maxCacheEntries?: number) => {
+    stub = deferredEngine();
+    server = createScanServer({ engine: stub.engine, cacheTtlMs, maxCacheEntries, concurrency: 1 });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const post = (body: unknown) =>
+    fetch(`${base}/scan`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+// Let the job's completion handlers run before asserting on cache state
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+beforeEach(() => start());
+afterEach(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe('scan server', () => {
+    it('reports health with queue and cache stats', async () => {
+        const res = await fetch(`${base}/health`);
+        expect(res.status).toBe(200);
+        expect(await res.json()).toMatchObject({ status: 'ok', queue: { queued: 0, running: 0 }, cache: { entries: 0 } });
+    });
+
+    it('queues a POSTed scan and serves the ScanResult once done', async () => {
+        const res = await post({ query: 'Mint111' });
+        expect(res.status).toBe(202);
+        const job = await res.json();
+        expect(job).toMatchObject({ status: 'running', location: `/scan/${job.id}` });
+        expect(res.headers.get('location')).toBe(`/scan/${job.id}`);
+
+        expect((await fetch(`${base}/scan/${job.id}`)).status).toBe(202);
+
+        await stub.release('Mint111');
+        await settle();
+        const done = await fetch(`${base}/scan/${job.id}`);
+        expect(done.status).toBe(200);
+        expect(done.headers.get('x-scan-id')).toBe(job.id);
+        const result = await done.json();
+        expect(result).toMatchObject({ tokenAddress: 'Mint111', tokenSymbol: 'VAMP', riskLevel: 'CRITICAL' });
+    });
+
+    it('waits for the result when asked and joins identical in-flight scans', async () => {
+        const first = post({ query: 'Mint111', wait: true });
+        const second = post({ query: 'Mint111', wait: true });
+        await stub.release('Mint111');
+
+        const [a, b] = await Promise.all([first, second]);
+        expect(a.status).toBe(200);
+        expect(b.headers.get('x-scan-id')).toBe(a.headers.get('x-scan-id'));
+        expect(stub.runFullScan).toHaveBeenCalledTimes(1);
+    });
+
+    it('serves repeat token lookups from cache and re-scans on refresh', async () => {
+        const pending = await fetch(`${base}/scan/solana/Mint111`);
+        expect(pending.status).toBe(202);
+        expect(stub.runFullScan).toHaveBeenCalledWith({ chainId: 'solana', tokenAddress: 'Mint111' });
+        await stub.release('Mint111');
+        await settle();
+
+        const hit = await fetch(`${base}/scan/solana/Mint111`);
+        expect(hit.status).toBe(200);
+        expect(hit.headers.get('x-cache')).toBe('HIT');
+        expect(stub.runFullScan).toHaveBeenCalledTimes(1);
+
+        expect((await fetch(`${base}/scan/solana/Mint111?refresh=true`)).status).toBe(202);
+        expect(stub.runFullScan).toHaveBeenCalledTimes(2);
+    });
+
+    it('404s when the token is not found on the requested chain', async () => {
+        const res = fetch(`${base}/scan/ethereum/Mint111?wait=true`);
+        await stub.release('Mint111', { chainId: 'unknown' });
+        expect((await res).status).toBe(404);
+        expect(await (await fetch(`${base}/scan/ethereum/Mint111`)).json()).toEqual({ error: 'Mint111 was not found on ethereum' });
+    });
+
+    it('scans a pinned chain, token and pair from the POST body', async () => {
+        const res = post({ chainId: 'base', tokenAddress: '0xABC', pairAddress: '0xPAIR', wait: true });
+        await stub.release('0xABC', { chainId: 'base' });
+
+        expect((await res).status).toBe(200);
+        expect(stub.runFullScan).toHaveBeenCalledWith({ chainId: 'base', tokenAddress: '0xABC', pairAddress: '0xPAIR' });
+        expect((await post({ chainId: 'base' })).status).toBe(400);
+    });
+
+    it('returns the cluster graph of a finished scan', async () => {
+        const res = post({ query: 'Mint111', wait: true });
+        const clusterGraph = { nodes: [], edges: [{ from: 'a', to: 'b', tokenAmount: 1, timestamp: 1 }] };
+        await stub.release('Mint111', { clusterGraph });
+        const id = (await res).headers.get('x-scan-id');
+
+        const clusters = await (await fetch(`${base}/scan/${id}/clusters`)).json();
+        expect(clusters.clusterGraph).toEqual(clusterGraph);
+        expect(clusters.bundleControl).toBeNull();
+    });
+
+    it('downloads reports and CSV exports of a finished scan', async () => {
+        const res = post({ query: 'Mint222', wait: true });
+        await stub.release('Mint222');
+        const id = (await res).headers.get('x-scan-id');
+
+        const markdown = await fetch(`${base}/scan/${id}/report.md`);
+        expect(markdown.headers.get('content-type')).toContain('text/markdown');
+        expect(markdown.headers.get('content-disposition')).toContain('-report.md');
+        expect(await markdown.text()).toContain('# VampireToken (VAMP)');
+
+        const pdf = await fetch(`${base}/scan/${id}/report.pdf`);
+        expect(pdf.headers.get('content-type')).toBe('application/pdf');
+        expect(new TextDecoder().decode((await pdf.arrayBuffer()).slice(0, 8))).toBe('%PDF-1.4');
+
+        const csv = await (await fetch(`${base}/scan/${id}/cluster-wallets.csv`)).text();
+        expect(csv.split('\r\n')[0]).toMatch(/^cluster_id,cluster_risk,/);
+        expect((await fetch(`${base}/scan/unknown-id/wallets.csv`)).status).toBe(404);
+    });
+
+    it('keeps at most `maxCacheEntries` results, dropping the oldest', async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        await start(60_000, 2);
+
+        for (const mint of ['MintA', 'MintB', 'MintC']) {
+            const res = fetch(`${base}/scan/solana/${mint}?wait=true`);
+            await stub.release(mint);
+            expect((await res).status).toBe(200);
+        }
+        await settle();
+
+        expect(await (await fetch(`${base}/health`)).json()).toMatchObject({ cache: { entries: 2 } });
+        expect((await fetch(`${base}/scan/solana/MintC`)).headers.get('x-cache')).toBe('HIT');
+        expect((await fetch(`${base}/scan/solana/MintA`)).status).toBe(202);
+    });
+
+    it('reports failed scans and rejects bad requests', async () => {
+        const failed = await post({ query: 'BOOM', wait: true });
+        expect(failed.status).toBe(502);
+        expect(await failed.json()).toMatchObject({ status: 'failed', error: 'tracer exploded' });
+
+        expect((await post({})).status).toBe(400);
+        expect((await fetch(`${base}/scan`, { method: 'POST', body: 'not json' })).status).toBe(400);
+        expect((await fetch(`${base}/scan`)).status).toBe(405);
+        expect((await fetch(`${base}/scan/unknown-id`)).status).toBe(404);
+        expect((await fetch(`${base}/nope`)).status).toBe(404);
+        expect((await fetch(`${base}/scan/%E0%A4%A`)).status).toBe(400);
+    });
+});
+
+describe('createJobQueue', () => {
+    it('runs at most `concurrency` jobs at once, in order', async () => {
+        const queue = createJobQueue<number>({ concurrency: 2 });
+        const order: string[] = [];
+        const gate = (key: string, ms: number) => queue.enqueue(key, async () => {
+            order.push(`start ${key}`);
+            await new Promise(resolve => setTimeout(resolve, ms));
+            order.push(`end ${key}`);
+            return ms;
+        });
+
+        const jobs = [gate('a', 20), gate('b', 5), gate('c', 5)];
+        expect(queue.stats()).toMatchObject({ queued: 1, running: 2 });
+        await Promise.all(jobs.map(j => j.done));
+
+        expect(order.indexOf('start c')).toBeGreaterThan(order.indexOf('end b'));
+        expect(jobs.map(j => j.result)).toEqual([20, 5, 5]);
+    });
+
+    it('evicts the oldest finished jobs past the retention limit', async () => {
+        const queue = createJobQueue<number>({ retain: 2 });
+        const jobs = [1, 2, 3].map(n => queue.enqueue(`k${n}`, async () => n));
+        await Promise.all(jobs.map(j => j.done));
+
+        expect(queue.get(jobs[0].id)).toBeUndefined();
+        expect(queue.get(jobs[2].id)?.result).toBe(3);
+    });
+});
@@ -0,0 +1,262 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { ScanResult } from '../lib/mockData';
+import { normalizeAddress } from '../lib/addresses';
+import { createScanEngine, ScanEngine, ScanTarget } from '../services/scanEngine';
+import { SCAN_EXPORTS, isScanExportName, exportFileName } from '../services/reportExport';
+import { createJobQueue, Job } from './jobQueue';
+
+// ───────────────────────────────────────────────
+// REST API over the scan engine
+//
+//   POST /scan                    { "query": "<address|symbol>" } or { "chainId", "tokenAddress", "pairAddress"? },
+//                                 plus "wait"?: true
+//   GET  /scan/:id                ScanResult once the job is done (202 while running)
+//   GET  /scan/:id/clusters       { bundleControl, clusterGraph } of a finished scan
+//   GET  /scan/:id/<export>       report.md, report.pdf, wallets.csv or cluster-wallets.csv of a finished scan
+//   GET  /scan/:chain/:address    latest ScanResult for a token (cached), ?wait=true&refresh=true
+//   GET  /health
+// ───────────────────────────────────────────────
+
+export interface ScanServerOptions {
+    engine?: ScanEngine;
+    /** How long a finished scan is served from cache (default 5 minutes) */
+    cacheTtlMs?: number;
+    /** Most cached results kept; the oldest go first (default 500) */
+    maxCacheEntries?: number;
+    /** Scans running at once; the rest wait in the queue (default 2) */
+    concurrency?: number;
+    maxBodyBytes?: number;
+}
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+interface CacheEntry {
+    jobId: string;
+    result: ScanResult;
+    cachedAt: number;
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+const readJsonBody = async (req: IncomingMessage, maxBytes: number): Promise<Record<string, unknown>> => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > maxBytes) throw new HttpError(413, `Body exceeds ${maxBytes} bytes`);
+        chunks.push(chunk);
+    }
+    try {
+        const body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) throw new Error('not an object');
+        return body;
+    } catch {
+        throw new HttpError(400, 'Body must be a JSON object');
+    }
+};
+
+const normalizeKey = (value: string) => normalizeAddress(value.trim());
+
+const cacheKey = (target: ScanTarget | string) => typeof target === 'string'
+    ? normalizeKey(target)
+    : [target.chainId, normalizeKey(target.tokenAddress), target.pairAddress && normalizeKey(target.pairAddress)].filter(Boolean).join(':');
+
+/** A path segment with percent-escapes decoded; malformed escapes are the client's error */
+const decodeSegment = (segment: string): string => {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        throw new HttpError(400, `Malformed URL encoding: ${segment}`);
+    }
+};
+
+const str = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/** A pinned ScanTarget when the body names a chain, else the free-text query */
+const targetFromBody = (body: Record<string, unknown>): ScanTarget | string => {
+    const chainId = str(body.chainId);
+    const tokenAddress = str(body.tokenAddress) ?? str(body.address);
+    if (chainId) {
+        if (!tokenAddress) throw new HttpError(400, 'Body with "chainId" needs a "tokenAddress"');
+        return { chainId, tokenAddress, pairAddress: str(body.pairAddress) };
+    }
+    const query = str(body.query) ?? tokenAddress;
+    if (!query) throw new HttpError(400, 'Body needs a "query" (token address or symbol) or "chainId" + "tokenAddress"');
+    return query;
+};
+
+export const createScanServer = (options: ScanServerOptions = {}): Server => {
+    const engine = options.engine ?? createScanEngine();
+    const cacheTtlMs = options.cacheTtlMs ?? 5 * 60_000;
+    const maxCacheEntries = options.maxCacheEntries ?? 500;
+    const maxBodyBytes = options.maxBodyBytes ?? 16_384;
+    const queue = createJobQueue<ScanResult>({ concurrency: options.concurrency });
+    const cache = new Map<string, CacheEntry>();
+    const startedAt = Date.now();
+
+    const freshEntry = (key: string): CacheEntry | undefined => {
+        const entry = cache.get(key);
+        if (entry && Date.now() - entry.cachedAt < cacheTtlMs) return entry;
+        if (entry) cache.delete(key);
+        return undefined;
+    };
+
+    /** Cache a result, sweeping expired entries and then the oldest past `maxCacheEntries` */
+    const remember = (key: string, entry: CacheEntry) => {
+        cache.delete(key); // Re-insert so Map order stays oldest-first
+        cache.set(key, entry);
+        cache.forEach((e, k) => { if (entry.cachedAt - e.cachedAt >= cacheTtlMs) cache.delete(k); });
+        for (const oldest of cache.keys()) {
+            if (cache.size <= maxCacheEntries) break;
+            cache.delete(oldest);
+        }
+    };
+
+    /** Serve from cache, or queue (or join) a scan for the target */
+    const startScan = (target: ScanTarget | string, refresh: boolean): { cached: CacheEntry } | { job: Job<ScanResult> } => {
+        const key = cacheKey(target);
+        const cached = refresh ? undefined : freshEntry(key);
+        if (cached) return { cached };
+
+        const job = queue.enqueue(key, () => engine.runFullScan(target));
+        void job.done.then(j => {
+            if (j.status === 'done' && j.result) remember(key, { jobId: j.id, result: j.result, cachedAt: Date.now() });
+        });
+        return { job };
+    };
+
+    const jobBody = (job: Job<ScanResult>) => ({
+        id: job.id, status: job.status, createdAt: job.createdAt, finishedAt: job.finishedAt, error: job.error,
+        location: `/scan/${job.id}`,
+    });
+
+    /** 200 with the ScanResult when done, 202 while pending, 502 if the scan failed */
+    const sendJob = (res: ServerResponse, job: Job<ScanResult>, check?: (result: ScanResult) => void) => {
+        if (job.status === 'done' && job.result) {
+            check?.(job.result);
+            return sendJson(res, 200, job.result, { 'X-Scan-Id': job.id, 'X-Cache': 'MISS' });
+        }
+        if (job.status === 'failed') return sendJson(res, 502, jobBody(job));
+        sendJson(res, 202, jobBody(job), { Location: `/scan/${job.id}` });
+    };
+
+    const sendCached = (res: ServerResponse, entry: CacheEntry) =>
+        sendJson(res, 200, entry.result, {
+            'X-Scan-Id': entry.jobId,
+            'X-Cache': 'HIT',
+            Age: String(Math.floor((Date.now() - entry.cachedAt) / 1000)),
+        });
+
+    const findResult = (id: string): ScanResult => {
+        const job = queue.get(id);
+        const result = job?.result ?? [...cache.values()].find(e => e.jobId === id)?.result;
+        if (result) return result;
+        if (job) throw new HttpError(409, `Scan ${id} is ${job.status}`);
+        throw new HttpError(404, `Unknown scan id: ${id}`);
+    };
+
+    const handle = async (req: IncomingMessage, res: ServerResponse) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const parts = url.pathname.split('/').filter(Boolean).map(decodeSegment);
+        const method = req.method || 'GET';
+        const wait = url.searchParams.get('wait') === 'true';
+        const refresh = url.searchParams.get('refresh') === 'true';
+
+        const allow = (...methods: string[]) => {
+            if (!methods.includes(method)) throw new HttpError(405, `${method} not allowed on ${url.pathname}`);
+        };
+
+        if (parts.length === 1 && parts[0] === 'health') {
+            allow('GET');
+            return sendJson(res, 200, {
+                status: 'ok',
+                uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000),
+                queue: queue.stats(),
+                cache: { entries: cache.size, ttlSeconds: cacheTtlMs / 1000 },
+            });
+        }
+
+        if (parts[0] !== 'scan') throw new HttpError(404, `No route for ${url.pathname}`);
+
+        // POST /scan
+        if (parts.length === 1) {
+            allow('POST');
+            const body = await readJsonBody(req, maxBodyBytes);
+            const started = startScan(targetFromBody(body), body.refresh === true);
+            if ('cached' in started) return sendCached(res, started.cached);
+            if (body.wait === true) await started.job.done;
+            return sendJob(res, started.job);
+        }
+
+        allow('GET');
+
+        // GET /scan/:id
+        if (parts.length === 2) {
+            const [, id] = parts;
+            const job = queue.get(id);
+            if (job) {
+                if (wait) await job.done;
+                return sendJob(res, job);
+            }
+            return sendJson(res, 200, findResult(id), { 'X-Scan-Id': id, 'X-Cache': 'HIT' });
+        }
+
+        // GET /scan/:id/clusters
+        if (parts.length === 3 && parts[2] === 'clusters') {
+            const { bundleControl, clusterGraph } = findResult(parts[1]);
+            return sendJson(res, 200, { bundleControl: bundleControl ?? null, clusterGraph: clusterGraph ?? null });
+        }
+
+        // GET /scan/:id/report.md (and the other exports)
+        if (parts.length === 3 && isScanExportName(parts[2])) {
+            const result = findResult(parts[1]);
+            const { contentType, render } = SCAN_EXPORTS[parts[2]];
+            res.writeHead(200, {
+                'Content-Type': contentType,
+                'Content-Disposition': `attachment; filename="${exportFileName(result, parts[2])}"`,
+                'X-Scan-Id': parts[1],
+            });
+            return res.end(render(result));
+        }
+
+        // GET /scan/:chain/:address
+        if (parts.length === 3) {
+            const [, chain, address] = parts;
+            const onChain = (result: ScanResult) => {
+                if (result.chainId !== chain) throw new HttpError(404, `${address} was not found on ${chain}`);
+            };
+
+            const started = startScan({ chainId: chain, tokenAddress: address }, refresh);
+            if ('cached' in started) {
+                onChain(started.cached.result);
+                return sendCached(res, started.cached);
+            }
+            if (wait) await started.job.done;
+            return sendJob(res, started.job, onChain);
+        }
+
+        throw new HttpError(404, `No route for ${url.pathname}`);
+    };
+
+    return createServer((req, res) => {
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204, { 'Access-Control-Allow-Methods': 'GET, POST, OPTIONS', 'Access-Control-Allow-Headers': 'Content-Type' });
+            return res.end();
+        }
+
+        handle(req, res).catch(err => {
+            if (err instanceof HttpError) return sendJson(res, err.status, { error: err.message });
+            console.error('[Server] Unhandled error:', err);
+            sendJson(res, 500, { error: 'Internal server error' });
+        });
+    });
+};
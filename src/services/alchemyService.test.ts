@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { classifyTransfers, getEvmTokenSupply, traceEvmDistributionTree, AlchemyTransfer } from './alchemyService';
+import { startReplay, stopReplay, FIXTURE_BUNDLE_VERSION, type FixtureEntry } from './fixtureMode';
+
+const WALLET = '0xWallet000000000000000000000000000000000a';
+const PAIR = '0xpair0000000000000000000000000000000000001';
+const ROUTER = '0x7a250d5630b4cf539739df2c5dacb4c659f2488d';
+const FRIEND = '0xfriend00000000000000000000000000000000002';
+
+const transfer = (from: string, to: string, raw: bigint, blockNum: string): AlchemyTransfer => ({
+    from, to, value: null, hash: `0x${blockNum}`, blockNum,
+    rawContract: { value: `0x${raw.toString(16)}`, address: '0xtoken', decimal: null },
+});
+
+const venues = new Set([PAIR, ROUTER]);
+const times = new Map([['0x10', 1_700_000_000], ['0x11', 1_700_000_012], ['0x12', 1_700_000_030]]);
+
+describe('classifyTransfers', () => {
+    it('turns transfers with pairs and routers into timestamped buys and sells', () => {
+        const result = classifyTransfers([
+            transfer(PAIR, WALLET.toLowerCase(), 5_000_000n, '0x10'),
+            transfer(WALLET, ROUTER, 2_000_000n, '0x12'),
+        ], WALLET, 6, venues, times);
+
+        expect(result.buys).toEqual([{ tokenAmount: 5, timestamp: 1_700_000_000 }]);
+        expect(result.sells).toEqual([{ tokenAmount: 2, timestamp: 1_700_000_030 }]);
+        expect(result.outgoingTransfers).toEqual([]);
+        expect(result.incomingTransfers).toEqual([]);
+    });
+
+    it('leaves out swaps whose block time could not be looked up', () => {
+        const result = classifyTransfers([
+            transfer(PAIR, WALLET, 1_000n, '0x10'),
+            transfer(PAIR, WALLET, 2_000n, '0x99'),   // eth_getBlockByNumber failed for 0x99
+            transfer(WALLET, PAIR, 500n, '0x99'),
+        ], WALLET, 0, venues, times);
+
+        expect(result.buys).toEqual([{ tokenAmount: 1_000, timestamp: 1_700_000_000 }]);
+        expect(result.sells).toEqual([]);
+        // Still the real first buy, so the funding lookup stops at the right block
+        expect(result.firstBuyBlock).toBe('0x10');
+    });
+
+    it('reports the block of the earliest buy, wherever it sits in the list', () => {
+        const result = classifyTransfers([
+            transfer(PAIR, WALLET, 1n, '0x12'),
+            transfer(WALLET, PAIR, 1n, '0x10'),   // a sell doesn't count
+            transfer(PAIR, WALLET, 1n, '0x11'),
+        ], WALLET, 0, venues, times);
+
+        expect(result.firstBuyBlock).toBe('0x11');
+        expect(classifyTransfers([], WALLET, 0, venues, times).firstBuyBlock).toBeUndefined();
+    });
+
+    it('keeps wallet-to-wallet movements as transfers, scaled by the token decimals', () => {
+        const result = classifyTransfers([
+            transfer(WALLET, FRIEND, 1_500_000_000n, '0x11'),
+            transfer(FRIEND, WALLET, 250_000_000n, '0x12'),
+            transfer(FRIEND, PAIR, 1n, '0x12'), // not this wallet's transfer
+        ], WALLET, 9, venues, times);
+
+        expect(result.buys).toEqual([]);
+        expect(result.outgoingTransfers).toEqual([{ to: FRIEND, tokenAmount: 1.5, timestamp: 1_700_000_012 }]);
+        expect(result.incomingTransfers).toEqual([{ from: FRIEND, tokenAmount: 0.25, timestamp: 1_700_000_030 }]);
+    });
+
+    it('marks sends to burn addresses and lockers with their custody', () => {
+        const result = classifyTransfers([
+            transfer(WALLET, '0x000000000000000000000000000000000000dEaD', 1_000_000n, '0x10'),
+            transfer(WALLET, '0x663A5C229c09b049E36dCc11a9B0d4a8Eb9db214', 3_000_000n, '0x11'),
+        ], WALLET, 6, venues, times);
+
+        expect(result.outgoingTransfers).toEqual([
+            { to: '0x000000000000000000000000000000000000dEaD', tokenAmount: 1, timestamp: 1_700_000_000, custody: 'burned' },
+            { to: '0x663A5C229c09b049E36dCc11a9B0d4a8Eb9db214', tokenAmount: 3, timestamp: 1_700_000_012, custody: 'locked' },
+        ]);
+    });
+
+    it('does not take inherited object keys for burn addresses or lockers', () => {
+        const result = classifyTransfers([
+            transfer(WALLET, 'constructor', 1_000_000n, '0x10'),
+            transfer(WALLET, 'tostring', 2_000_000n, '0x11'),
+        ], WALLET, 6, venues, times);
+
+        expect(result.outgoingTransfers).toEqual([
+            { to: 'constructor', tokenAmount: 1, timestamp: 1_700_000_000 },
+            { to: 'tostring', tokenAmount: 2, timestamp: 1_700_000_012 },
+        ]);
+    });
+
+    it('falls back to the Alchemy value when the raw amount is missing', () => {
+        const result = classifyTransfers([
+            { from: PAIR, to: WALLET, value: 42, hash: '0x1', blockNum: '0x10' },
+        ], WALLET, 18, venues, times);
+        expect(result.buys).toEqual([{ tokenAmount: 42, timestamp: 1_700_000_000 }]);
+    });
+});
+
+describe('getEvmTokenSupply', () => {
+    const TOKEN = '0xtoken00000000000000000000000000000000003';
+    const URL = 'https://eth-mainnet.g.alchemy.com/v2/{VITE_ALCHEMY_API_KEY}';
+    const call = (body: Record<string, unknown>, data: unknown): FixtureEntry => ({
+        key: `POST ${URL} ${JSON.stringify(body)}`, method: 'POST', url: URL, body, status: 200, data,
+    });
+    const totalSupply = (raw: bigint) => call(
+        { id: 2, jsonrpc: '2.0', method: 'eth_call', params: [{ to: TOKEN, data: '0x18160ddd' }, 'latest'] },
+        { result: `0x${raw.toString(16)}` },
+    );
+    const burnBalance = (holder: string) => call(
+        { id: 1, jsonrpc: '2.0', method: 'alchemy_getTokenBalances', params: [holder, [TOKEN]] },
+        { result: { tokenBalances: [{ tokenBalance: '0x0' }] } },
+    );
+
+    it('reads the supply fresh on each scan while decimals stay cached', async () => {
+        startReplay({
+            version: FIXTURE_BUNDLE_VERSION, recordedAt: '', configuredKeys: ['VITE_ALCHEMY_API_KEY'], entries: [
+                call({ id: 1, jsonrpc: '2.0', method: 'alchemy_getTokenMetadata', params: [TOKEN] }, { result: { name: 'Token', symbol: 'TKN', decimals: 6 } }),
+                totalSupply(1_000_000_000n),
+                totalSupply(400_000_000n),   // tokens burned between the two scans
+                burnBalance('0x000000000000000000000000000000000000dead'),
+                burnBalance('0x0000000000000000000000000000000000000000'),
+            ],
+        });
+
+        const first = await getEvmTokenSupply(TOKEN, 'ethereum');
+        const second = await getEvmTokenSupply(TOKEN, 'ethereum');
+        const report = stopReplay();
+
+        expect(first?.totalSupply).toBe(1000);
+        expect(second?.totalSupply).toBe(400);
+        // Metadata once, supply twice, two burn balances per scan
+        expect(report).toEqual({ served: 7, misses: [] });
+    });
+});
+
+describe('traceEvmDistributionTree', () => {
+    const TOKEN = '0xtoken00000000000000000000000000000000004';
+    const SEED = '0xseed000000000000000000000000000000000005';
+    const URL = 'https://eth-mainnet.g.alchemy.com/v2/{VITE_ALCHEMY_API_KEY}';
+    const call = (body: Record<string, unknown>, data: unknown): FixtureEntry => ({
+        key: `POST ${URL} ${JSON.stringify(body)}`, method: 'POST', url: URL, body, status: 200, data,
+    });
+    // Same key order as getAssetTransfers sends: the incoming query appends toAddress
+    const transfers = (direction: 'out' | 'in', list: unknown[]) => call({
+        id: 1, jsonrpc: '2.0', method: 'alchemy_getAssetTransfers',
+        params: [{
+            fromBlock: '0x0', toBlock: 'latest', ...(direction === 'out' && { fromAddress: SEED }),
+            contractAddresses: [TOKEN], category: ['erc20'], withMetadata: true, ...(direction === 'in' && { toAddress: SEED }),
+        }],
+    }, { result: { transfers: list } });
+
+    it('marks a wallet incomplete when its funding lookup fails', async () => {
+        const buy = { ...transfer(PAIR, SEED, 1_000n, '0x10'), metadata: { blockTimestamp: '2023-11-14T22:13:20Z' } };
+        startReplay({
+            version: FIXTURE_BUNDLE_VERSION, recordedAt: '', configuredKeys: ['VITE_ALCHEMY_API_KEY'], entries: [
+                call({ id: 1, jsonrpc: '2.0', method: 'alchemy_getTokenMetadata', params: [TOKEN] }, { result: { name: 'Token', symbol: 'TKN', decimals: 0 } }),
+                transfers('out', []),
+                transfers('in', [buy]),
+                call({ id: 1, jsonrpc: '2.0', method: 'alchemy_getTokenBalances', params: [SEED, [TOKEN]] }, { result: { tokenBalances: [{ tokenBalance: '0x3e8' }] } }),
+                // No entry for the deposit lookup: it fails like a dropped connection
+            ],
+        });
+
+        const trace = await traceEvmDistributionTree([SEED], TOKEN, 'ethereum', [PAIR]);
+        const { misses } = stopReplay();
+
+        expect(misses).toHaveLength(1);
+        expect(trace.failedWallets).toEqual([]);
+        expect(trace.wallets[0]).toMatchObject({ address: SEED, buys: [{ tokenAmount: 1_000 }], fundingSource: undefined });
+        expect(trace.wallets[0].incomplete).toMatch(/^funding: No recorded fixture/);
+    });
+});
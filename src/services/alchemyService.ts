@@ -1,5 +1,11 @@
-import axios from 'axios';
-import { HeliusWalletData } from './heliusService';
+import { http } from './httpClient';
+import { HeliusWalletData, FundingSource, DistributionTrace } from './heliusService';
+import { FailedWallet } from '../lib/mockData';
+import { providerScheduler, settleEach, describeError } from './requestScheduler';
+import { readEnv } from '../lib/env';
+import { formatUnits, parseRawAmount } from '../lib/units';
+import { EVM_ROUTERS, isKnownRouter } from './evmRouters';
+import { custodyOf } from './tokenLockers';
 
 // ───────────────────────────────────────────────
 // ALCHEMY API — Deep EVM forensic analysis
@@ -20,25 +26,117 @@ const getAlchemyUrl = (chainId: string, apiKey: string) => {
     return `https://${network}.g.alchemy.com/v2/${apiKey}`;
 };
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Every Alchemy JSON-RPC call shares one rate-limited queue
+const alchemy = providerScheduler('alchemy');
+const rpc = (url: string, body: unknown) => alchemy.schedule(() => http.post(url, body));
 
 // ───────────────────────────────────────────────
 // Helpers
 // ───────────────────────────────────────────────
 
-const getApiKey = () => import.meta.env.VITE_ALCHEMY_API_KEY || '';
+const getApiKey = (): string => readEnv('VITE_ALCHEMY_API_KEY');
 
-// Excluded addresses (DEX routers, Null address, etc.)
+// Excluded addresses (Null, Dead); DEX routers come from the router registry
 const EXCLUDED_ADDRESSES = new Set([
     '0x0000000000000000000000000000000000000000', // Null
     '0x000000000000000000000000000000000000dead', // Dead
-    '0x7a250d5630b4cf539739df2c5dacb4c659f2488d', // Uniswap V2 Router
-    '0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45', // Uniswap V3 Router
-    '0x1111111254fb6c44bac0bed2854e76f90643097d', // 1inch
-    '0xdef1c0ded9bec7f1a1670819833240f027b25eff', // 0x Matcha
 ]);
 
-const isExcluded = (addr: string) => EXCLUDED_ADDRESSES.has(addr.toLowerCase());
+const isExcluded = (addr: string) => EXCLUDED_ADDRESSES.has(addr.toLowerCase()) || isKnownRouter(addr);
+
+// Known CEX hot wallets for funding source classification
+const KNOWN_CEX_ADDRESSES = new Set([
+    '0x28c6c06298d514db089934071355e5743bf21d60', // Binance 14
+    '0x21a31ee1afc51d94c2efccaa2092ad1028285549', // Binance 15
+    '0xdfd5293d8e347dfe59e90efd55b2956a1343963d', // Binance 16
+    '0x71660c4005ba85c37ccec55d0c4493e66fe775d3', // Coinbase 1
+    '0xa9d1e08c7793af67e9d92fe308d5697fb81d3e43', // Coinbase 10
+    '0x2910543af39aba0cd09dbb2d50200b3e800a63d2', // Kraken 13
+    '0x6cc5f688a315f3dc28a7781717a9a798a59fda7b', // OKX
+    '0x75e89d5979e4f6fba9f97c104c2f0afb3f1dcb88', // MEXC
+]);
+
+/** Per-trace constants threaded through the wallet fetches */
+interface EvmTraceToken {
+    tokenAddress: string;
+    chainId: string;
+    decimals: number;
+    url: string;
+    /** Lowercase pair and router addresses: the counterparty of every swap */
+    swapVenues: Set<string>;
+}
+
+// ───────────────────────────────────────────────
+// Token metadata — decimals drive every amount on the trace path
+// ───────────────────────────────────────────────
+
+export interface EvmTokenMetadata {
+    name: string;
+    symbol: string;
+    decimals: number;
+}
+
+const DEFAULT_DECIMALS = 18;
+const TOTAL_SUPPLY_SELECTOR = '0x18160ddd'; // totalSupply()
+
+// One lookup per token and chain for the lifetime of the process. Only fields a
+// contract can't change live here — supply moves with every mint and burn.
+const metadataCache = new Map<string, Promise<EvmTokenMetadata>>();
+
+const fetchTokenMetadata = async (tokenAddress: string, url: string): Promise<EvmTokenMetadata> => {
+    const res = await rpc(url, { id: 1, jsonrpc: '2.0', method: 'alchemy_getTokenMetadata', params: [tokenAddress] });
+
+    const meta = res.data?.result;
+    if (!meta || typeof meta.decimals !== 'number') {
+        throw new Error(`no decimals for ${tokenAddress}: ${JSON.stringify(res.data?.error ?? meta)}`);
+    }
+    return { name: meta.name || '', symbol: meta.symbol || '', decimals: meta.decimals };
+};
+
+/**
+ * Decimals, name and symbol of an ERC-20, cached per chain + token.
+ * Failed lookups are not cached, so the next scan retries.
+ */
+export const getEvmTokenMetadata = (tokenAddress: string, chainId: string, apiKey: string = getApiKey()): Promise<EvmTokenMetadata> => {
+    const key = `${chainId}:${tokenAddress.toLowerCase()}`;
+    const cached = metadataCache.get(key);
+    if (cached) return cached;
+
+    const pending = fetchTokenMetadata(tokenAddress, getAlchemyUrl(chainId, apiKey));
+    metadataCache.set(key, pending);
+    pending.catch(() => metadataCache.delete(key));
+    return pending;
+};
+
+/** Metadata for the trace, falling back to 18 decimals when the lookup fails */
+const resolveTokenMetadata = async (tokenAddress: string, chainId: string, apiKey: string): Promise<EvmTokenMetadata> => {
+    try {
+        return await getEvmTokenMetadata(tokenAddress, chainId, apiKey);
+    } catch (e) {
+        console.warn(`[Alchemy] Token metadata lookup failed for ${tokenAddress}, assuming ${DEFAULT_DECIMALS} decimals:`, e);
+        return { name: '', symbol: '', decimals: DEFAULT_DECIMALS };
+    }
+};
+
+// Holders that can never move their tokens
+const BURN_ADDRESSES = ['0x000000000000000000000000000000000000dead', '0x0000000000000000000000000000000000000000'];
+
+/** `totalSupply()` (decimals applied), read fresh on every scan, and the balance held by burn addresses */
+export const getEvmTokenSupply = async (tokenAddress: string, chainId: string): Promise<{ totalSupply: number; burnedSupply: number } | null> => {
+    const apiKey = getApiKey();
+    if (!apiKey) return null;
+
+    const url = getAlchemyUrl(chainId, apiKey);
+    const [{ decimals }, supplyRes] = await Promise.all([
+        getEvmTokenMetadata(tokenAddress, chainId, apiKey),
+        rpc(url, { id: 2, jsonrpc: '2.0', method: 'eth_call', params: [{ to: tokenAddress, data: TOTAL_SUPPLY_SELECTOR }, 'latest'] }),
+    ]);
+    const totalSupplyRaw = parseRawAmount(supplyRes.data?.result);
+    if (totalSupplyRaw === 0n) return null;
+
+    const burned = await Promise.all(BURN_ADDRESSES.map(a => getTokenBalance(a, tokenAddress, decimals, url)));
+    return { totalSupply: formatUnits(totalSupplyRaw, decimals), burnedSupply: burned.reduce((sum, b) => sum + b, 0) };
+};
 
 // ───────────────────────────────────────────────
 // Core Trace Function
@@ -47,32 +145,51 @@ const isExcluded = (addr: string) => EXCLUDED_ADDRESSES.has(addr.toLowerCase());
 export const traceEvmDistributionTree = async (
     seedAddresses: string[],
     tokenAddress: string,
-    chainId: string
-): Promise<HeliusWalletData[]> => {
+    chainId: string,
+    pairAddresses: string[] = []
+): Promise<DistributionTrace> => {
     const apiKey = getApiKey();
     if (!apiKey) {
         console.warn('[Alchemy] No API key configured');
-        return [];
+        return { wallets: [], failedWallets: [] };
     }
 
     const MAX_TOTAL_WALLETS = 400; // Same as Helius cap
     const knownAddresses = new Set<string>();
     const results: HeliusWalletData[] = [];
+    const failedWallets: FailedWallet[] = [];
+
+    // Each level's wallets are fetched concurrently; the Alchemy scheduler paces the requests
+    const traceLevel = async (wallets: string[], depth: number, fetch: (wallet: string) => Promise<HeliusWalletData>) => {
+        wallets.forEach(w => knownAddresses.add(w));
+        const { fulfilled, failed } = await settleEach(wallets, fetch);
+        results.push(...fulfilled);
+        failed.forEach(({ item, reason }) => {
+            console.warn(`[Alchemy] L${depth} ${item.slice(0, 6)} failed: ${reason}`);
+            failedWallets.push({ address: item, traceDepth: depth, reason });
+        });
+    };
 
     console.log(`[Alchemy] ═══ EVM DISTRIBUTION TRACE (${chainId.toUpperCase()}) ═══`);
     console.log(`[Alchemy] Token: ${tokenAddress}`);
     console.log(`[Alchemy] Seed wallets: ${seedAddresses.length}`);
 
+    const { decimals, symbol } = await resolveTokenMetadata(tokenAddress, chainId, apiKey);
+    console.log(`[Alchemy] ${symbol || 'Token'}: ${decimals} decimals`);
+
+    const token: EvmTraceToken = {
+        tokenAddress,
+        chainId,
+        decimals,
+        url: getAlchemyUrl(chainId, apiKey),
+        swapVenues: new Set([...pairAddresses.map(a => a.toLowerCase()), ...Object.keys(EVM_ROUTERS)]),
+    };
+    // Pools, lockers and burn addresses are never distribution recipients
+    const isSkipped = (addr: string) => isExcluded(addr) || token.swapVenues.has(addr.toLowerCase()) || custodyOf(addr) !== undefined;
+
     // ── LEVEL 0: Analyze Seed Wallets ──
     // For EVM, we need to fetch their balances and outgoing transfers
-    for (const wallet of seedAddresses) {
-        if (isExcluded(wallet)) continue;
-        knownAddresses.add(wallet);
-
-        const data = await fetchEvmWalletData(wallet, tokenAddress, chainId, apiKey, true, 0);
-        results.push(data);
-        await delay(100); // Rate limit protection
-    }
+    await traceLevel(seedAddresses.filter(w => !isSkipped(w)), 0, wallet => fetchEvmWalletData(wallet, token, true, 0));
 
     console.log(`[Alchemy] Level 0 complete: ${results.length} seed wallets analyzed`);
 
@@ -80,77 +197,58 @@ export const traceEvmDistributionTree = async (
     const level1Addresses = new Set<string>();
     results.forEach(w => {
         w.outgoingTransfers.forEach(t => {
-            if (!knownAddresses.has(t.to) && !isExcluded(t.to)) {
+            if (!knownAddresses.has(t.to) && !isSkipped(t.to)) {
                 level1Addresses.add(t.to);
             }
         });
     });
 
-    const level1Array = [...level1Addresses].slice(0, MAX_TOTAL_WALLETS - results.length);
+    const level1Array = [...level1Addresses].slice(0, Math.max(0, MAX_TOTAL_WALLETS - results.length));
     console.log(`[Alchemy] ── Level 1: Found ${level1Array.length} recipients`);
 
-    for (const wallet of level1Array) {
-        if (results.length >= MAX_TOTAL_WALLETS) break;
-        knownAddresses.add(wallet);
-        const data = await fetchEvmWalletData(wallet, tokenAddress, chainId, apiKey, false, 1);
-        results.push(data);
-        await delay(100);
-    }
+    await traceLevel(level1Array, 1, wallet => fetchEvmWalletData(wallet, token, false, 1));
 
     // ── LEVEL 2: Trace Sub-Recipients ──
     const level2Addresses = new Set<string>();
     results.filter(r => r.traceDepth === 1).forEach(w => {
         w.outgoingTransfers.forEach(t => {
-            if (!knownAddresses.has(t.to) && !isExcluded(t.to)) {
+            if (!knownAddresses.has(t.to) && !isSkipped(t.to)) {
                 level2Addresses.add(t.to);
             }
         });
     });
 
-    const level2Array = [...level2Addresses].slice(0, MAX_TOTAL_WALLETS - results.length);
+    const level2Array = [...level2Addresses].slice(0, Math.max(0, MAX_TOTAL_WALLETS - results.length));
     console.log(`[Alchemy] ── Level 2: Found ${level2Array.length} sub-recipients`);
 
-    for (const wallet of level2Array) {
-        if (results.length >= MAX_TOTAL_WALLETS) break;
-        knownAddresses.add(wallet);
-        const data = await fetchEvmWalletData(wallet, tokenAddress, chainId, apiKey, false, 2);
-        results.push(data);
-        await delay(100);
-    }
+    await traceLevel(level2Array, 2, wallet => fetchEvmWalletData(wallet, token, false, 2));
 
     // ── LEVEL 3: End Holders (Balance Check Only) ──
     const level3Addresses = new Set<string>();
     results.filter(r => r.traceDepth === 2).forEach(w => {
         w.outgoingTransfers.forEach(t => {
-            if (!knownAddresses.has(t.to) && !isExcluded(t.to)) {
+            if (!knownAddresses.has(t.to) && !isSkipped(t.to)) {
                 level3Addresses.add(t.to);
             }
         });
     });
 
-    const level3Array = [...level3Addresses].slice(0, MAX_TOTAL_WALLETS - results.length);
+    const level3Array = [...level3Addresses].slice(0, Math.max(0, MAX_TOTAL_WALLETS - results.length));
     console.log(`[Alchemy] ── Level 3: Found ${level3Array.length} end-holders`);
 
-    if (level3Array.length > 0) {
-        // Batch balance check for efficiency
-        const balances = await batchGetEvmBalances(level3Array, tokenAddress, chainId, apiKey);
-        for (const [addr, balance] of balances) {
-            if (results.length >= MAX_TOTAL_WALLETS) break;
-            knownAddresses.add(addr);
-            results.push({
-                address: addr,
-                buys: [],
-                sells: [], // No history for L3, just existence
-                outgoingTransfers: [],
-                incomingTransfers: [],
-                currentBalance: balance,
-                isSeedWallet: false,
-                traceDepth: 3,
-            });
-        }
-    }
-
-    return results;
+    // Balance check only
+    await traceLevel(level3Array, 3, async wallet => ({
+        address: wallet,
+        buys: [],
+        sells: [], // No history for L3, just existence
+        outgoingTransfers: [],
+        incomingTransfers: [],
+        currentBalance: await getTokenBalance(wallet, token.tokenAddress, token.decimals, token.url),
+        isSeedWallet: false,
+        traceDepth: 3,
+    }));
+
+    return { wallets: results, failedWallets };
 };
 
 // ───────────────────────────────────────────────
@@ -159,25 +257,33 @@ export const traceEvmDistributionTree = async (
 
 const fetchEvmWalletData = async (
     wallet: string,
-    tokenAddress: string,
-    chainId: string,
-    apiKey: string,
+    token: EvmTraceToken,
     isSeed: boolean,
     depth: number
 ): Promise<HeliusWalletData> => {
-    const url = getAlchemyUrl(chainId, apiKey);
-
     // parallel fetch: asset transfers + balance
     const [transfers, balance] = await Promise.all([
-        getAssetTransfers(wallet, tokenAddress, url),
-        getTokenBalance(wallet, tokenAddress, url)
+        getAssetTransfers(wallet, token.tokenAddress, token.url),
+        getTokenBalance(wallet, token.tokenAddress, token.decimals, token.url)
     ]);
 
-    // Classify transfers as incoming/outgoing based on wallet direction.
-    // DEX swap identification requires full DEX log decoding — currently handled at the Analyzer layer.
-    const { buys, sells, incomingTransfers, outgoingTransfers } = classifyTransfers(transfers, wallet);
+    // Swaps with the token's pairs/routers become buys and sells; the rest are wallet-to-wallet transfers
+    const timestamps = await resolveBlockTimestamps(transfers, token);
+    // Swaps in these blocks are dropped by classifyTransfers, so the wallet is marked incomplete
+    const untimed = new Set(transfers.map(t => t.blockNum).filter(b => !timestamps.has(b))).size;
+    const { buys, sells, incomingTransfers, outgoingTransfers, firstBuyBlock } = classifyTransfers(transfers, wallet, token.decimals, token.swapVenues, timestamps);
 
-    console.log(`[Alchemy] L${depth} ${wallet.slice(0, 6)}: ${transfers.length} txs, Bal: ${balance.toFixed(2)}`);
+    // Trace the native-coin funding source for this wallet
+    const firstBuy = buys.length > 0 ? Math.min(...buys.map(b => b.timestamp)) : Date.now() / 1000;
+    const funding = await traceFundingSource(wallet, firstBuy, firstBuyBlock, token);
+    const fundingSource = funding.source;
+    const incomplete = [
+        ...(untimed > 0 ? [`${untimed} block timestamp(s) unavailable`] : []),
+        ...(funding.incomplete ? [funding.incomplete] : []),
+    ].join('; ');
+
+    const fundingLog = fundingSource ? `Funded by ${fundingSource.address.slice(0, 8)}...` : 'No clear funding source';
+    console.log(`[Alchemy] L${depth} ${wallet.slice(0, 6)}: ${transfers.length} txs, ${buys.length} buys, ${sells.length} sells, Bal: ${balance.toFixed(2)}. ${fundingLog}`);
 
     return {
         address: wallet,
@@ -187,7 +293,9 @@ const fetchEvmWalletData = async (
         incomingTransfers,
         currentBalance: balance,
         isSeedWallet: isSeed,
-        traceDepth: depth
+        traceDepth: depth,
+        fundingSource,
+        ...(incomplete && { incomplete }),
     };
 };
 
@@ -195,107 +303,206 @@ const fetchEvmWalletData = async (
 // Alchemy RPC Methods
 // ───────────────────────────────────────────────
 
-interface AlchemyTransfer {
+export interface AlchemyTransfer {
     from: string;
     to: string;
-    value: number;
+    value: number | null;   // Float scaled by Alchemy's own decimals guess (null when unknown)
     hash: string;
     blockNum: string;
+    rawContract?: { value: string | null; address: string; decimal: string | null };
+    metadata?: { blockTimestamp?: string };
 }
 
+// Both fetches throw once retries are exhausted so the tracer can report the wallet
 const getAssetTransfers = async (wallet: string, tokenAddress: string, url: string): Promise<AlchemyTransfer[]> => {
-    try {
-        const payload = {
-            id: 1,
-            jsonrpc: "2.0",
-            method: "alchemy_getAssetTransfers",
-            params: [
-                {
-                    fromBlock: "0x0",
-                    toBlock: "latest",
-                    fromAddress: wallet,
-                    contractAddresses: [tokenAddress],
-                    category: ["erc20"],
-                    withMetadata: false
-                }
-            ]
-        };
+    const payload = {
+        id: 1,
+        jsonrpc: "2.0",
+        method: "alchemy_getAssetTransfers",
+        params: [
+            {
+                fromBlock: "0x0",
+                toBlock: "latest",
+                fromAddress: wallet,
+                contractAddresses: [tokenAddress],
+                category: ["erc20"],
+                withMetadata: true
+            }
+        ]
+    };
 
-        // Fetch both inbound and outbound transfers via separate Alchemy calls.
-        const [outRes, inRes] = await Promise.all([
-            axios.post(url, payload), // Outgoing
-            axios.post(url, { ...payload, params: [{ ...payload.params[0], fromAddress: undefined, toAddress: wallet }] }) // Incoming
-        ]);
+    // Fetch both inbound and outbound transfers via separate Alchemy calls.
+    const [outRes, inRes] = await Promise.all([
+        rpc(url, payload), // Outgoing
+        rpc(url, { ...payload, params: [{ ...payload.params[0], fromAddress: undefined, toAddress: wallet }] }) // Incoming
+    ]);
 
-        const outTxs = outRes.data?.result?.transfers || [];
-        const inTxs = inRes.data?.result?.transfers || [];
+    const outTxs = outRes.data?.result?.transfers || [];
+    const inTxs = inRes.data?.result?.transfers || [];
 
-        return [...outTxs, ...inTxs];
-    } catch (e) {
-        console.warn(`[Alchemy] Failed transfers fetch for ${wallet}`, e);
-        return [];
-    }
+    return [...outTxs, ...inTxs];
 };
 
-const getTokenBalance = async (wallet: string, tokenAddress: string, url: string): Promise<number> => {
-    try {
-        const res = await axios.post(url, {
-            id: 1,
-            jsonrpc: "2.0",
-            method: "alchemy_getTokenBalances",
-            params: [wallet, [tokenAddress]]
-        });
-
-        const hexBal = res.data?.result?.tokenBalances?.[0]?.tokenBalance;
-        if (!hexBal || hexBal === '0x') return 0;
+const getTokenBalance = async (wallet: string, tokenAddress: string, decimals: number, url: string): Promise<number> => {
+    const res = await rpc(url, {
+        id: 1,
+        jsonrpc: "2.0",
+        method: "alchemy_getTokenBalances",
+        params: [wallet, [tokenAddress]]
+    });
 
-        // Default to 18 decimal precision. Token metadata resolution is handled upstream.
-        return parseInt(hexBal, 16) / 1e18;
-    } catch (e) {
-        return 0;
-    }
-};
-
-const batchGetEvmBalances = async (wallets: string[], tokenAddress: string, chainId: string, apiKey: string) => {
-    const url = getAlchemyUrl(chainId, apiKey);
-    const results = new Map<string, number>();
-
-    // Batch balance lookups via parallel chunked requests to alchemy_getTokenBalances.
-    const chunk = 5;
-    for (let i = 0; i < wallets.length; i += chunk) {
-        const batch = wallets.slice(i, i + chunk);
-        await Promise.all(batch.map(async w => {
-            const bal = await getTokenBalance(w, tokenAddress, url);
-            results.set(w, bal);
-        }));
-    }
-    return results;
+    const hexBal = res.data?.result?.tokenBalances?.[0]?.tokenBalance;
+    return formatUnits(parseRawAmount(hexBal), decimals);
 };
 
 // ───────────────────────────────────────────────
 // Classification Logic
 // ───────────────────────────────────────────────
 
-const classifyTransfers = (transfers: AlchemyTransfer[], wallet: string) => {
+/** Raw integer amount scaled by the token's real decimals; Alchemy's `value` only when the raw one is missing */
+const transferAmount = (t: AlchemyTransfer, decimals: number): number =>
+    t.rawContract?.value ? formatUnits(parseRawAmount(t.rawContract.value), decimals) : t.value ?? 0;
+
+/**
+ * Split a wallet's token transfers into swaps and wallet-to-wallet movements. A transfer
+ * whose counterparty is one of `swapVenues` (pairs, routers) is a buy when tokens come
+ * in and a sell when they go out. Sends to a burn address or locker carry `custody`.
+ * `timestamps` maps block number → unix seconds; `firstBuyBlock` is the earliest buy's block.
+ * Swaps in a block with no known time are left out: at timestamp 0 they would all share
+ * one temporal bucket and pair up as zero-gap sync sells.
+ */
+export const classifyTransfers = (
+    transfers: AlchemyTransfer[],
+    wallet: string,
+    decimals: number,
+    swapVenues: Set<string>,
+    timestamps: Map<string, number>
+) => {
     const buys: HeliusWalletData['buys'] = [];
     const sells: HeliusWalletData['sells'] = [];
     const outgoingTransfers: HeliusWalletData['outgoingTransfers'] = [];
     const incomingTransfers: HeliusWalletData['incomingTransfers'] = [];
-
-    // Classify by transfer direction. Contract-level DEX detection is planned for a future iteration.
+    const self = wallet.toLowerCase();
+    let firstBuyBlock: string | undefined;
 
     transfers.forEach(t => {
-        const amount = t.value;
-        const timestamp = 0; // Alchemy transfer doesn't give timestamp directly in lightweight mode
-
-        if (t.from.toLowerCase() === wallet.toLowerCase()) {
-            // Outbound transfer — buy/sell classification is deferred to the Analyzer layer.
-            outgoingTransfers.push({ to: t.to, tokenAmount: amount, timestamp });
+        const from = (t.from || '').toLowerCase();
+        const to = (t.to || '').toLowerCase();
+        if (from === to || (from !== self && to !== self)) return;
+
+        const tokenAmount = transferAmount(t, decimals);
+        const timestamp = timestamps.get(t.blockNum) ?? 0;
+        const isOutgoing = from === self;
+
+        if (swapVenues.has(isOutgoing ? to : from)) {
+            if (timestamps.has(t.blockNum)) (isOutgoing ? sells : buys).push({ tokenAmount, timestamp });
+            if (!isOutgoing && (!firstBuyBlock || parseRawAmount(t.blockNum) < parseRawAmount(firstBuyBlock))) firstBuyBlock = t.blockNum;
+        } else if (isOutgoing) {
+            const custody = custodyOf(to);
+            outgoingTransfers.push({ to: t.to, tokenAmount, timestamp, ...(custody && { custody }) });
         } else {
-            // IN
-            incomingTransfers.push({ from: t.from, tokenAmount: amount, timestamp });
+            incomingTransfers.push({ from: t.from, tokenAmount, timestamp });
         }
     });
 
-    return { buys, sells, outgoingTransfers, incomingTransfers };
+    return { buys, sells, outgoingTransfers, incomingTransfers, firstBuyBlock };
+};
+
+// ───────────────────────────────────────────────
+// Block timestamps & funding
+// ───────────────────────────────────────────────
+
+// `${chainId}:${blockNum}` → unix seconds; blocks never change once mined
+const blockTimeCache = new Map<string, number>();
+
+/** Unix time of each transfer's block, from transfer metadata or else eth_getBlockByNumber */
+const resolveBlockTimestamps = async (transfers: AlchemyTransfer[], token: EvmTraceToken): Promise<Map<string, number>> => {
+    const times = new Map<string, number>();
+    const missing = new Set<string>();
+
+    transfers.forEach(t => {
+        const key = `${token.chainId}:${t.blockNum}`;
+        const fromMetadata = t.metadata?.blockTimestamp ? Math.floor(Date.parse(t.metadata.blockTimestamp) / 1000) : NaN;
+        if (Number.isFinite(fromMetadata)) blockTimeCache.set(key, fromMetadata);
+
+        const cached = blockTimeCache.get(key);
+        if (cached !== undefined) times.set(t.blockNum, cached);
+        else missing.add(t.blockNum);
+    });
+
+    for (const blockNum of missing) {
+        try {
+            const res = await rpc(token.url, { id: 1, jsonrpc: '2.0', method: 'eth_getBlockByNumber', params: [blockNum, false] });
+            const timestamp = Number(parseRawAmount(res.data?.result?.timestamp));
+            if (timestamp > 0) {
+                blockTimeCache.set(`${token.chainId}:${blockNum}`, timestamp);
+                times.set(blockNum, timestamp);
+            }
+        } catch (e) {
+            console.warn(`[Alchemy] Block ${blockNum} timestamp lookup failed`);
+        }
+    }
+    return times;
+};
+
+const MIN_FUNDING_WEI = 10n ** 15n; // 0.001 of the native coin — ignore dust
+
+/**
+ * Identify the wallet's funding source (native-coin sender): the last deposit in the
+ * 24h before its first buy, else the earliest deposit fetched. Mirrors the Helius tracer.
+ * Deposits are read newest-first up to the first buy's block, so a wallet's first
+ * hundred deposits can't crowd out the ones that actually funded the buy.
+ * A failed lookup, or deposits whose block time is unknown, come back as `incomplete`
+ * so "no funder found" is never a guess.
+ */
+const traceFundingSource = async (
+    wallet: string,
+    firstBuyTimestamp: number,
+    firstBuyBlock: string | undefined,
+    token: EvmTraceToken
+): Promise<{ source?: FundingSource; incomplete?: string }> => {
+    try {
+        const res = await rpc(token.url, {
+            id: 1,
+            jsonrpc: '2.0',
+            method: 'alchemy_getAssetTransfers',
+            params: [{
+                fromBlock: '0x0',
+                toBlock: firstBuyBlock ?? 'latest',
+                toAddress: wallet,
+                category: ['external'],
+                order: 'desc',
+                excludeZeroValue: true,
+                withMetadata: true,
+                maxCount: '0x64',
+            }],
+        });
+        const deposits = ((res.data?.result?.transfers || []) as AlchemyTransfer[])
+            .filter(t => parseRawAmount(t.rawContract?.value) >= MIN_FUNDING_WEI);
+        if (deposits.length === 0) return {};
+
+        // Deposits without a block time can't be placed before or after the buy
+        const timestamps = await resolveBlockTimestamps(deposits, token);
+        const timed = deposits.filter(t => timestamps.has(t.blockNum));
+        const untimed = deposits.length - timed.length;
+        const incomplete = untimed > 0 ? `funding: ${untimed} deposit timestamp(s) unavailable` : undefined;
+        if (timed.length === 0) return { incomplete };
+
+        const at = (t: AlchemyTransfer) => timestamps.get(t.blockNum)!;
+        const sorted = [...timed].sort((a, b) => at(a) - at(b));
+
+        const best = [...sorted].reverse().find(t => at(t) < firstBuyTimestamp && at(t) > firstBuyTimestamp - 86400) ?? sorted[0];
+        const sender = best.from.toLowerCase();
+        const source: FundingSource = {
+            address: sender,
+            amount: Number(parseRawAmount(best.rawContract?.value)),
+            timestamp: at(best),
+            isCex: KNOWN_CEX_ADDRESSES.has(sender),
+            signature: best.hash,
+        };
+        return { source, ...(incomplete && { incomplete }) };
+    } catch (e) {
+        console.warn(`[Alchemy] Funding lookup failed for ${wallet.slice(0, 8)}`);
+        return { incomplete: `funding: ${describeError(e)}` };
+    }
 };
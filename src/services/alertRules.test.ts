@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { parseRule, evaluateRule, createAlertEngine, AlertRuleError } from './alertRules';
+import { MOCK_SCENARIOS, ScanResult } from '../lib/mockData';
+
+const vampire = MOCK_SCENARIOS['VAMPIRE'];
+
+const context = {
+    score: 42,
+    riskLevel: 'DANGER',
+    bundleControl: {
+        overallRisk: 'CRITICAL',
+        lpImpactRatio: 1.2,
+        clusters: [
+            { id: 'A', riskFactors: ['Shared Funding'], wallets: [{ status: 'active' }] },
+            { id: 'B', riskFactors: ['Internal Transfers', 'Sync Sell'], wallets: [{ status: 'sold_all' }] },
+        ],
+    },
+};
+
+const matches = (rule: string, ctx: unknown = context) => evaluateRule(parseRule(rule), ctx);
+
+describe('alert rule DSL', () => {
+    it.each([
+        ['bundleControl.overallRisk == CRITICAL', true],
+        ['bundleControl.overallRisk == "CRITICAL"', true],
+        ['bundleControl.overallRisk != CRITICAL', false],
+        ['bundleControl.lpImpactRatio > 1.0', true],
+        ['bundleControl.lpImpactRatio >= 1.2', true],
+        ['bundleControl.lpImpactRatio < 1', false],
+        ['score <= 42 and riskLevel == DANGER', true],
+        ['score > 50 or riskLevel == DANGER', true],
+        ['not (score > 50 or riskLevel == DANGER)', false],
+        ['riskLevel contains DANG', true],
+    ])('%s → %s', (rule, expected) => {
+        expect(matches(rule)).toBe(expected);
+    });
+
+    it('fans out over [] and matches if any element does', () => {
+        expect(matches(`bundleControl.clusters[].riskFactors contains 'Sync Sell'`)).toBe(true);
+        expect(matches(`bundleControl.clusters[].riskFactors contains 'Temporal Match'`)).toBe(false);
+        expect(matches('bundleControl.clusters[].wallets[].status == sold_all')).toBe(true);
+        expect(matches('bundleControl.clusters[].id == C')).toBe(false);
+    });
+
+    it('treats missing fields as non-matching', () => {
+        expect(matches('bundleControl.lpImpactRatio > 1', { score: 10 })).toBe(false);
+        expect(matches('diff.score.delta < -10', { score: 10 })).toBe(false);
+        expect(matches('diff == null', { score: 10 })).toBe(true);
+    });
+
+    it('binds "and" tighter than "or"', () => {
+        expect(matches('score > 90 and score < 10 or riskLevel == DANGER')).toBe(true);
+        expect(matches('riskLevel == DANGER or score > 90 and score < 10')).toBe(true);
+        expect(matches('(riskLevel == DANGER or score > 90) and score < 10')).toBe(false);
+    });
+
+    it.each([
+        '',
+        'score >',
+        'score 42',
+        '> 42',
+        'score > 42 and',
+        '(score > 42',
+        'score > 42 extra',
+        'bundle..overallRisk == CRITICAL',
+        'score > 42 @',
+    ])('rejects malformed rule %j', rule => {
+        expect(() => parseRule(rule)).toThrow(AlertRuleError);
+    });
+});
+
+describe('createAlertEngine', () => {
+    const rules = [
+        { name: 'critical-bundle', when: 'bundleControl.overallRisk == CRITICAL', severity: 'critical' as const },
+        { name: 'score-drop', when: 'diff.score.delta <= -20' },
+    ];
+
+    const withRisk = (overallRisk: 'CRITICAL' | 'LOW'): ScanResult => ({
+        ...vampire,
+        bundleControl: { ...vampire.analysis, overallRisk },
+    });
+
+    it('fires once when a rule becomes true and re-arms after it clears', () => {
+        const engine = createAlertEngine(rules);
+
+        expect(engine.evaluate(withRisk('CRITICAL')).map(a => a.rule)).toEqual(['critical-bundle']);
+        expect(engine.evaluate(withRisk('CRITICAL'))).toEqual([]);
+        expect(engine.evaluate(withRisk('LOW'))).toEqual([]);
+        expect(engine.evaluate(withRisk('CRITICAL')).map(a => a.rule)).toEqual(['critical-bundle']);
+    });
+
+    it('tracks each token address separately, even when symbols match', () => {
+        const engine = createAlertEngine(rules);
+        const copycat = { ...withRisk('CRITICAL'), tokenAddress: `${withRisk('CRITICAL').tokenAddress}Copy` };
+
+        expect(engine.evaluate(withRisk('CRITICAL'))).toHaveLength(1);
+        expect(engine.evaluate(copycat)).toHaveLength(1);
+        expect(engine.evaluate({ ...withRisk('CRITICAL'), tokenSymbol: 'RENAMED' })).toEqual([]);
+    });
+
+    it('evaluates diff fields and describes the token in the alert', () => {
+        const engine = createAlertEngine(rules);
+        const diff = { score: { from: 60, to: 35, delta: -25 } } as Parameters<typeof engine.evaluate>[1];
+
+        const [alert] = engine.evaluate(withRisk('LOW'), diff);
+        expect(alert).toMatchObject({
+            rule: 'score-drop',
+            severity: 'warning',
+            token: { symbol: vampire.tokenSymbol, chainId: vampire.chainId },
+            score: vampire.score,
+            overallRisk: 'LOW',
+        });
+    });
+
+    it('rejects invalid rules up front', () => {
+        expect(() => createAlertEngine([{ name: 'bad', when: 'score >>' }])).toThrow(AlertRuleError);
+    });
+});
@@ -0,0 +1,236 @@
+import { ScanResult } from '../lib/mockData';
+import { ScanDiff } from './scanMonitor';
+import { normalizeAddress } from '../lib/addresses';
+
+// ───────────────────────────────────────────────
+// Alert rule DSL
+//
+//   bundleControl.overallRisk == CRITICAL
+//   bundleControl.lpImpactRatio > 1.0 and score < 50
+//   bundleControl.clusters[].riskFactors contains 'Sync Sell'
+//   diff.walletsSoldAll[].address != null or not (riskLevel == SAFE)
+//
+// Paths are dotted keys into the ScanResult (plus `diff` when watching);
+// `[]` fans out over an array and the comparison matches if ANY element does.
+// ───────────────────────────────────────────────
+
+export class AlertRuleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AlertRuleError';
+    }
+}
+
+type Operator = '==' | '!=' | '>' | '>=' | '<' | '<=' | 'contains';
+type Literal = string | number | boolean | null;
+
+interface PathSegment {
+    key: string;
+    any: boolean;
+}
+
+type RuleNode =
+    | { type: 'and' | 'or'; left: RuleNode; right: RuleNode }
+    | { type: 'not'; expr: RuleNode }
+    | { type: 'compare'; path: PathSegment[]; op: Operator; value: Literal };
+
+type Token =
+    | { kind: 'word'; text: string }
+    | { kind: 'string'; text: string }
+    | { kind: 'number'; value: number }
+    | { kind: 'op'; text: Operator }
+    | { kind: 'paren'; text: '(' | ')' };
+
+const TOKEN_RE = /\s*(?:(\()|(\))|(==|!=|>=|<=|>|<)|'([^']*)'|"([^"]*)"|(-?\d+(?:\.\d+)?)(?![\w.])|([A-Za-z_][\w.[\]]*))/y;
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    TOKEN_RE.lastIndex = 0;
+    while (TOKEN_RE.lastIndex < source.length) {
+        if (/^\s*$/.test(source.slice(TOKEN_RE.lastIndex))) break;
+        const start = TOKEN_RE.lastIndex;
+        const m = TOKEN_RE.exec(source);
+        if (!m) throw new AlertRuleError(`Unexpected input at position ${start}: "${source.slice(start).trim()}"`);
+        const [, open, close, op, single, double, num, word] = m;
+        if (open || close) tokens.push({ kind: 'paren', text: (open || close) as '(' | ')' });
+        else if (op) tokens.push({ kind: 'op', text: op as Operator });
+        else if (single !== undefined || double !== undefined) tokens.push({ kind: 'string', text: single ?? double });
+        else if (num) tokens.push({ kind: 'number', value: Number(num) });
+        else if (word === 'contains') tokens.push({ kind: 'op', text: 'contains' });
+        else tokens.push({ kind: 'word', text: word });
+    }
+    return tokens;
+};
+
+const parsePath = (text: string): PathSegment[] =>
+    text.split('.').map(part => {
+        const m = /^([A-Za-z_]\w*)(\[\])?$/.exec(part);
+        if (!m) throw new AlertRuleError(`Invalid path segment "${part}" in "${text}"`);
+        return { key: m[1], any: !!m[2] };
+    });
+
+/** Recursive-descent parser: or → and → unary → comparison | ( or ) */
+export const parseRule = (source: string): RuleNode => {
+    const tokens = tokenize(source);
+    let pos = 0;
+
+    const peekWord = (word: string) => tokens[pos]?.kind === 'word' && (tokens[pos] as { text: string }).text === word;
+    const fail = (msg: string): never => { throw new AlertRuleError(`${msg} in rule "${source}"`); };
+
+    const parseLiteral = (): Literal => {
+        const token = tokens[pos++];
+        if (!token) return fail('Expected a value');
+        if (token.kind === 'number') return token.value;
+        if (token.kind === 'string') return token.text;
+        if (token.kind === 'word') {
+            if (token.text === 'true') return true;
+            if (token.text === 'false') return false;
+            if (token.text === 'null') return null;
+            return token.text; // bare words like CRITICAL compare as strings
+        }
+        return fail(`Unexpected "${token.text}" where a value was expected`);
+    };
+
+    const parseComparison = (): RuleNode => {
+        const token = tokens[pos++];
+        if (token?.kind === 'paren' && token.text === '(') {
+            const inner = parseOr();
+            const close = tokens[pos++];
+            if (close?.kind !== 'paren' || close.text !== ')') fail('Missing ")"');
+            return inner;
+        }
+        if (token?.kind !== 'word') return fail('Expected a field path');
+        const op = tokens[pos++];
+        if (op?.kind !== 'op') return fail(`Expected an operator after "${token.text}"`);
+        return { type: 'compare', path: parsePath(token.text), op: op.text, value: parseLiteral() };
+    };
+
+    const parseUnary = (): RuleNode => {
+        if (peekWord('not')) {
+            pos++;
+            return { type: 'not', expr: parseUnary() };
+        }
+        return parseComparison();
+    };
+
+    const parseAnd = (): RuleNode => {
+        let node = parseUnary();
+        while (peekWord('and')) {
+            pos++;
+            node = { type: 'and', left: node, right: parseUnary() };
+        }
+        return node;
+    };
+
+    const parseOr = (): RuleNode => {
+        let node = parseAnd();
+        while (peekWord('or')) {
+            pos++;
+            node = { type: 'or', left: node, right: parseAnd() };
+        }
+        return node;
+    };
+
+    if (tokens.length === 0) fail('Empty expression');
+    const tree = parseOr();
+    if (pos < tokens.length) fail('Unexpected trailing input');
+    return tree;
+};
+
+const resolvePath = (root: unknown, path: PathSegment[]): unknown[] =>
+    path.reduce<unknown[]>((values, { key, any }) => values.flatMap(v => {
+        const next = v !== null && typeof v === 'object' ? (v as Record<string, unknown>)[key] : undefined;
+        if (!any) return [next];
+        return Array.isArray(next) ? next : [];
+    }), [root]);
+
+const compare = (actual: unknown, op: Operator, expected: Literal): boolean => {
+    if (op === 'contains') {
+        if (Array.isArray(actual)) return actual.includes(expected);
+        return typeof actual === 'string' && actual.includes(String(expected));
+    }
+    if (op === '==') return actual === expected || (actual === undefined && expected === null);
+    if (op === '!=') return !(actual === expected || (actual === undefined && expected === null));
+    if (typeof actual !== 'number' || typeof expected !== 'number') return false;
+    switch (op) {
+        case '>': return actual > expected;
+        case '>=': return actual >= expected;
+        case '<': return actual < expected;
+        case '<=': return actual <= expected;
+    }
+};
+
+export const evaluateRule = (node: RuleNode, context: unknown): boolean => {
+    switch (node.type) {
+        case 'and': return evaluateRule(node.left, context) && evaluateRule(node.right, context);
+        case 'or': return evaluateRule(node.left, context) || evaluateRule(node.right, context);
+        case 'not': return !evaluateRule(node.expr, context);
+        case 'compare': return resolvePath(context, node.path).some(v => compare(v, node.op, node.value));
+    }
+};
+
+// ───────────────────────────────────────────────
+// Alert engine — edge-triggered rule evaluation per token
+// ───────────────────────────────────────────────
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface AlertRule {
+    name: string;
+    when: string;
+    severity?: AlertSeverity;
+}
+
+export interface Alert {
+    rule: string;
+    when: string;
+    severity: AlertSeverity;
+    firedAt: string;
+    token: { name: string; symbol: string; chainId: string };
+    score: number;
+    riskLevel: ScanResult['riskLevel'];
+    overallRisk?: string;
+    scoringPolicy?: ScanResult['scoringPolicy'];
+}
+
+export interface AlertEngine {
+    /** Alerts for rules that became true since the last evaluation of this token */
+    evaluate(result: ScanResult, diff?: ScanDiff | null): Alert[];
+    reset(): void;
+}
+
+export const createAlertEngine = (rules: AlertRule[]): AlertEngine => {
+    const compiled = rules.map(rule => ({ ...rule, tree: parseRule(rule.when) }));
+    // rule name + token → last outcome; a rule fires only on a false → true transition
+    const lastOutcome = new Map<string, boolean>();
+
+    return {
+        evaluate: (result, diff) => {
+            const context = { ...result, diff: diff ?? undefined };
+            // By address: copycat launches share a symbol but must not share alert state
+            const tokenKey = `${result.chainId}:${normalizeAddress(result.tokenAddress)}`;
+            const alerts: Alert[] = [];
+
+            compiled.forEach(rule => {
+                const key = `${rule.name}@${tokenKey}`;
+                const matched = evaluateRule(rule.tree, context);
+                if (matched && !lastOutcome.get(key)) {
+                    alerts.push({
+                        rule: rule.name,
+                        when: rule.when,
+                        severity: rule.severity ?? 'warning',
+                        firedAt: new Date().toISOString(),
+                        token: { name: result.tokenName, symbol: result.tokenSymbol, chainId: result.chainId },
+                        score: result.score,
+                        riskLevel: result.riskLevel,
+                        overallRisk: result.bundleControl?.overallRisk,
+                        scoringPolicy: result.scoringPolicy,
+                    });
+                }
+                lastOutcome.set(key, matched);
+            });
+            return alerts;
+        },
+        reset: () => lastOutcome.clear(),
+    };
+};
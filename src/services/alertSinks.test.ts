@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Alert } from './alertRules';
+import { createSink, dispatchAlert, parseAlertConfig, formatAlertText } from './alertSinks';
+
+const alert: Alert = {
+    rule: 'sync-sell',
+    when: `bundleControl.clusters[].riskFactors contains 'Sync Sell'`,
+    severity: 'critical',
+    firedAt: '2024-01-01T00:00:00.000Z',
+    token: { name: 'Vampire', symbol: 'VAMP', chainId: 'solana' },
+    score: 12,
+    riskLevel: 'CRITICAL',
+    overallRisk: 'HIGH',
+};
+
+// ── Local mock webhook receiver ──
+interface Received {
+    path: string;
+    headers: Record<string, string | string[] | undefined>;
+    body: Record<string, unknown>;
+}
+
+let server: Server;
+let baseUrl: string;
+let received: Received[];
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+            received.push({ path: req.url || '', headers: req.headers, body: JSON.parse(raw || '{}') });
+            res.statusCode = req.url === '/fail' ? 500 : 204;
+            res.end();
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => { received = []; });
+
+describe('alert sinks', () => {
+    it('posts the raw alert to a generic webhook with custom headers', async () => {
+        const sink = createSink({ type: 'webhook', url: `${baseUrl}/hook`, headers: { 'X-Token': 'secret' } });
+        await sink.send(alert);
+
+        expect(received).toHaveLength(1);
+        expect(received[0].path).toBe('/hook');
+        expect(received[0].headers['x-token']).toBe('secret');
+        expect(received[0].body).toEqual(alert);
+    });
+
+    it('sends Discord- and Slack-compatible payloads', async () => {
+        await createSink({ type: 'discord', url: `${baseUrl}/discord` }).send(alert);
+        await createSink({ type: 'slack', url: `${baseUrl}/slack` }).send(alert);
+
+        const [discord, slack] = received;
+        expect(discord.body.content).toBe(formatAlertText(alert));
+        expect(discord.body.embeds).toEqual([expect.objectContaining({ title: 'sync-sell', color: 0xef4444 })]);
+        expect(slack.body.text).toBe(formatAlertText(alert));
+        expect(slack.body.blocks).toHaveLength(2);
+    });
+
+    it('appends NDJSON to a local file', async () => {
+        const dir = mkdtempSync(join(tmpdir(), 'atlaix-alerts-'));
+        try {
+            const sink = createSink({ type: 'file', path: join(dir, 'alerts.ndjson') });
+            await sink.send(alert);
+            await sink.send({ ...alert, rule: 'second' });
+
+            const lines = readFileSync(join(dir, 'alerts.ndjson'), 'utf8').trim().split('\n').map(l => JSON.parse(l));
+            expect(lines.map(l => l.rule)).toEqual(['sync-sell', 'second']);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('reports a failing sink without blocking the others', async () => {
+        const sinks = [
+            createSink({ type: 'webhook', url: `${baseUrl}/fail` }),
+            createSink({ type: 'slack', url: `${baseUrl}/slack` }),
+        ];
+        const results = await dispatchAlert(sinks, alert);
+
+        expect(results.map(r => r.ok)).toEqual([false, true]);
+        expect(results[0].error).toContain('500');
+        expect(received.map(r => r.path).sort()).toEqual(['/fail', '/slack']);
+    });
+});
+
+describe('parseAlertConfig', () => {
+    it('accepts rules with sinks', () => {
+        const config = parseAlertConfig(JSON.stringify({
+            rules: [{ name: 'lp', when: 'bundleControl.lpImpactRatio > 1.0', severity: 'warning' }],
+            sinks: [{ type: 'discord', url: 'https://discord.example/hook' }, { type: 'file', path: 'alerts.ndjson' }],
+        }));
+        expect(config.rules).toHaveLength(1);
+        expect(config.sinks.map(s => s.type)).toEqual(['discord', 'file']);
+    });
+
+    it.each([
+        [{ rules: [] }, 'non-empty'],
+        [{ rules: [{ name: 'a', when: 'score >' }] }, 'Expected a value'],
+        [{ rules: [{ name: 'a', when: 'score > 1' }, { name: 'a', when: 'score > 2' }] }, 'Duplicate'],
+        [{ rules: [{ name: 'a', when: 'score > 1', severity: 'urgent' }] }, 'severity'],
+        [{ rules: [{ name: 'a', when: 'score > 1' }], sinks: [{ type: 'email', to: 'x' }] }, 'sinks[0]'],
+    ])('rejects invalid config %#', (config, message) => {
+        expect(() => parseAlertConfig(JSON.stringify(config))).toThrow(message);
+    });
+});
@@ -0,0 +1,150 @@
+import axios from 'axios';
+import { appendFile } from 'node:fs/promises';
+import { Alert, AlertRule, AlertRuleError, parseRule } from './alertRules';
+
+// ───────────────────────────────────────────────
+// Alert sinks — where fired alerts are delivered
+//
+// Webhooks go through plain axios, not the shared provider client, so they
+// are never captured or served by --record / --replay fixture mode.
+// ───────────────────────────────────────────────
+
+export type SinkConfig =
+    | { type: 'webhook'; url: string; headers?: Record<string, string> }
+    | { type: 'discord'; url: string }
+    | { type: 'slack'; url: string }
+    | { type: 'file'; path: string };
+
+export interface AlertSink {
+    name: string;
+    send(alert: Alert): Promise<void>;
+}
+
+export interface DeliveryResult {
+    sink: string;
+    ok: boolean;
+    error?: string;
+}
+
+const SEVERITY_ICON: Record<Alert['severity'], string> = {
+    info: 'ℹ️',
+    warning: '⚠️',
+    critical: '🚨',
+};
+
+const SEVERITY_COLOR: Record<Alert['severity'], number> = {
+    info: 0x3b82f6,
+    warning: 0xf59e0b,
+    critical: 0xef4444,
+};
+
+/** One-line human summary shared by the chat sinks */
+export const formatAlertText = (alert: Alert): string =>
+    `${SEVERITY_ICON[alert.severity]} ${alert.rule} — ${alert.token.name} (${alert.token.symbol}) on ${alert.token.chainId}: ` +
+    `score ${alert.score}/100 ${alert.riskLevel}${alert.overallRisk ? `, bundle risk ${alert.overallRisk}` : ''}`;
+
+const TIMEOUT_MS = 10_000;
+
+/** POST the raw Alert JSON */
+export const webhookSink = (url: string, headers: Record<string, string> = {}): AlertSink => ({
+    name: `webhook ${url}`,
+    send: async alert => { await axios.post(url, alert, { headers, timeout: TIMEOUT_MS }); },
+});
+
+/** Discord incoming-webhook payload */
+export const discordSink = (url: string): AlertSink => ({
+    name: `discord ${url}`,
+    send: async alert => {
+        await axios.post(url, {
+            content: formatAlertText(alert),
+            embeds: [{
+                title: alert.rule,
+                description: `\`${alert.when}\``,
+                color: SEVERITY_COLOR[alert.severity],
+                timestamp: alert.firedAt,
+            }],
+        }, { timeout: TIMEOUT_MS });
+    },
+});
+
+/** Slack incoming-webhook payload */
+export const slackSink = (url: string): AlertSink => ({
+    name: `slack ${url}`,
+    send: async alert => {
+        await axios.post(url, {
+            text: formatAlertText(alert),
+            blocks: [
+                { type: 'section', text: { type: 'mrkdwn', text: formatAlertText(alert) } },
+                { type: 'context', elements: [{ type: 'mrkdwn', text: `Rule: \`${alert.when}\` · ${alert.firedAt}` }] },
+            ],
+        }, { timeout: TIMEOUT_MS });
+    },
+});
+
+/** Append one Alert per line (NDJSON) to a local file */
+export const fileSink = (path: string): AlertSink => ({
+    name: `file ${path}`,
+    send: alert => appendFile(path, JSON.stringify(alert) + '\n'),
+});
+
+export const createSink = (config: SinkConfig): AlertSink => {
+    switch (config.type) {
+        case 'webhook': return webhookSink(config.url, config.headers);
+        case 'discord': return discordSink(config.url);
+        case 'slack': return slackSink(config.url);
+        case 'file': return fileSink(config.path);
+    }
+};
+
+/** Deliver to every sink; one failing sink never blocks the others */
+export const dispatchAlert = async (sinks: AlertSink[], alert: Alert): Promise<DeliveryResult[]> =>
+    Promise.all(sinks.map(async sink => {
+        try {
+            await sink.send(alert);
+            return { sink: sink.name, ok: true };
+        } catch (err) {
+            const error = (err as Error).message;
+            console.warn(`[Alerts] Delivery to ${sink.name} failed: ${error}`);
+            return { sink: sink.name, ok: false, error };
+        }
+    }));
+
+// ───────────────────────────────────────────────
+// Alert config file — { "rules": [...], "sinks": [...] }
+// ───────────────────────────────────────────────
+
+export interface AlertConfig {
+    rules: AlertRule[];
+    sinks: SinkConfig[];
+}
+
+const SEVERITIES = ['info', 'warning', 'critical'];
+
+export const parseAlertConfig = (json: string): AlertConfig => {
+    let raw: Partial<AlertConfig>;
+    try {
+        raw = JSON.parse(json);
+    } catch (e) {
+        throw new AlertRuleError(`Invalid JSON: ${(e as Error).message}`);
+    }
+    if (!Array.isArray(raw?.rules) || raw.rules.length === 0) throw new AlertRuleError('"rules" must be a non-empty array');
+
+    const names = new Set<string>();
+    raw.rules.forEach((rule, i) => {
+        if (typeof rule?.name !== 'string' || typeof rule.when !== 'string') throw new AlertRuleError(`rules[${i}] needs string "name" and "when"`);
+        if (names.has(rule.name)) throw new AlertRuleError(`Duplicate rule name "${rule.name}"`);
+        if (rule.severity !== undefined && !SEVERITIES.includes(rule.severity)) throw new AlertRuleError(`rules[${i}].severity must be one of ${SEVERITIES.join(', ')}`);
+        names.add(rule.name);
+        parseRule(rule.when);
+    });
+
+    const sinks = raw.sinks ?? [];
+    if (!Array.isArray(sinks)) throw new AlertRuleError('"sinks" must be an array');
+    sinks.forEach((sink, i) => {
+        if (sink?.type === 'file' ? typeof sink.path !== 'string' : !['webhook', 'discord', 'slack'].includes(sink?.type) || typeof (sink as { url?: unknown }).url !== 'string') {
+            throw new AlertRuleError(`sinks[${i}] must be { type: webhook|discord|slack, url } or { type: file, path }`);
+        }
+    });
+
+    return { rules: raw.rules, sinks };
+};
@@ -0,0 +1,384 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeBundleClusters, mergeClusters, calculateOverallRisk, DORMANT_AFTER_SECONDS } from './bundleAnalyzer';
+import { BundleCluster } from '../lib/mockData';
+import { buildWallet, buildBuyer, fundedBy, linkTransfer, addSell } from '../test/walletFixtures';
+
+const TOTAL_SUPPLY = 100_000;
+const PRICE_USD = 1;
+const LIQUIDITY_USD = 10_000;
+const NOW = 600_000; // Within a week of every fixture's activity, so no wallet is dormant unless a test says so
+
+const analyze = (wallets: Parameters<typeof analyzeBundleClusters>[0], now = NOW) =>
+    analyzeBundleClusters(wallets, TOTAL_SUPPLY, PRICE_USD, LIQUIDITY_USD, [], [], new Map(), new Set(), now);
+
+describe('analyzeBundleClusters — funding heuristic', () => {
+    it('clusters wallets that share a non-CEX funder', () => {
+        const funder = fundedBy('FunderWallet');
+        const result = analyze([
+            buildBuyer('W1', 100, 1_000, { fundingSource: funder }),
+            buildBuyer('W2', 500, 1_000, { fundingSource: funder }),
+        ]);
+
+        expect(result.clusterCount).toBe(1);
+        const [cluster] = result.clusters;
+        expect(cluster.id).toBe('Funding Cluster (Fund)');
+        expect(cluster.riskFactors).toEqual(['Shared Funding']);
+        expect(cluster.riskScore).toBe(35);
+        expect(cluster.risk).toBe('Moderate');
+        expect(cluster.totalSupplyPercent).toBe(2);
+        expect(cluster.totalValueUSD).toBe(2_000);
+        expect(cluster.lpImpact).toBe(0.2);
+    });
+
+    it('ignores exchange funders', () => {
+        const cex = fundedBy('BinanceHotWallet', { isCex: true });
+        const result = analyze([
+            buildBuyer('W1', 100, 1_000, { fundingSource: cex }),
+            buildBuyer('W2', 500, 1_000, { fundingSource: cex }),
+        ]);
+        expect(result.clusterCount).toBe(0);
+    });
+
+    it('needs at least two funded wallets', () => {
+        const result = analyze([buildBuyer('W1', 100, 1_000, { fundingSource: fundedBy('FunderWallet') })]);
+        expect(result.clusterCount).toBe(0);
+    });
+});
+
+describe('analyzeBundleClusters — temporal heuristic', () => {
+    it('clusters three or more wallets buying in the same 2-second bucket', () => {
+        const result = analyze([buildBuyer('T1', 1000), buildBuyer('T2', 1001), buildBuyer('T3', 1001)]);
+
+        expect(result.clusterCount).toBe(1);
+        expect(result.clusters[0].id).toBe('Temporal Cluster (500)');
+        expect(result.clusters[0].riskFactors).toEqual(['Temporal Match']);
+        expect(result.clusters[0].riskScore).toBe(30);
+        expect(result.clusters[0].risk).toBe('Low');
+    });
+
+    it('does not cluster two wallets or buys that straddle a bucket boundary', () => {
+        expect(analyze([buildBuyer('T1', 1000), buildBuyer('T2', 1001)]).clusterCount).toBe(0);
+        expect(analyze([buildBuyer('T1', 1001), buildBuyer('T2', 1001), buildBuyer('T3', 1002)]).clusterCount).toBe(0);
+    });
+
+    it('counts a wallet once even with several buys in the bucket', () => {
+        const twice = buildBuyer('T1', 1000);
+        twice.buys.push({ tokenAmount: 10, timestamp: 1001 });
+        expect(analyze([twice, buildBuyer('T2', 1000)]).clusterCount).toBe(0);
+    });
+});
+
+describe('analyzeBundleClusters — internal transfer heuristic', () => {
+    it('groups wallets connected by token transfers into one network cluster', () => {
+        const a = buildBuyer('A', 0, 1_000);
+        const b = buildWallet('B', { currentBalance: 400, traceDepth: 1 });
+        const c = buildWallet('C', { currentBalance: 100, traceDepth: 2 });
+        linkTransfer(a, b, 500, 10);
+        linkTransfer(b, c, 100, 20);
+
+        const result = analyze([a, b, c]);
+
+        expect(result.clusterCount).toBe(1);
+        const [cluster] = result.clusters;
+        expect(cluster.id).toBe('Network Cluster');
+        expect(cluster.riskFactors).toEqual(['Internal Transfers']);
+        expect(cluster.wallets.map(w => w.address).sort()).toEqual(['A', 'B', 'C']);
+        expect(cluster.riskScore).toBe(25);
+        expect(cluster.wallets.find(w => w.address === 'B')!.receivedAmount).toBe(500);
+        expect(cluster.internalTransferCount).toBe(2);
+    });
+
+    it('ignores transfers to wallets outside the traced set', () => {
+        const a = buildBuyer('A', 0);
+        a.outgoingTransfers.push({ to: 'Untraced', tokenAmount: 500, timestamp: 10 });
+        expect(analyze([a]).clusterCount).toBe(0);
+    });
+});
+
+describe('analyzeBundleClusters — sync-sell heuristic', () => {
+    const networkPair = (secondSellAt: number) => {
+        const a = buildBuyer('A', 0, 1_000);
+        const b = buildWallet('B', { currentBalance: 500 });
+        linkTransfer(a, b, 500, 10);
+        addSell(a, 200, 5_000);
+        addSell(b, 200, secondSellAt);
+        return analyze([a, b]);
+    };
+
+    it('flags cluster members selling within 60 seconds of each other', () => {
+        const [cluster] = networkPair(5_060).clusters;
+        expect(cluster.riskFactors).toEqual(['Internal Transfers', 'Sync Sell']);
+        expect(cluster.riskScore).toBe(65);
+        expect(cluster.risk).toBe('Moderate');
+    });
+
+    it('does not flag sells more than 60 seconds apart', () => {
+        const [cluster] = networkPair(5_061).clusters;
+        expect(cluster.riskFactors).toEqual(['Internal Transfers']);
+    });
+
+    it('leaves one wallet splitting its own exit out of the evidence when other wallets sold together', () => {
+        const a = buildBuyer('A', 0, 1_000);
+        const b = buildWallet('B', { currentBalance: 500 });
+        linkTransfer(a, b, 500, 10);
+        addSell(a, 100, 5_000);
+        addSell(a, 100, 5_020);
+        addSell(b, 200, 5_050);
+
+        const [cluster] = analyze([a, b]).clusters;
+        expect(cluster.riskFactors).toEqual(['Internal Transfers', 'Sync Sell']);
+        expect(cluster.riskScore).toBe(65);
+        expect(cluster.evidence?.find(e => e.factor === 'Sync Sell')).toEqual({
+            factor: 'Sync Sell',
+            pairs: [{ first: { wallet: 'A', tokenAmount: 100, timestamp: 5_020 }, second: { wallet: 'B', tokenAmount: 200, timestamp: 5_050 }, gapSeconds: 30 }],
+        });
+    });
+
+    it('only applies to wallets already in a cluster', () => {
+        const a = buildBuyer('A', 0);
+        const b = buildBuyer('B', 100);
+        addSell(a, 500, 5_000);
+        addSell(b, 500, 5_000);
+        expect(analyze([a, b]).clusterCount).toBe(0);
+    });
+});
+
+describe('analyzeBundleClusters — combined scenarios', () => {
+    it('merges split transfer groups that share one funder into a single cluster', () => {
+        const funder = fundedBy('FunderAddress123');
+        const [a1, a2, a3, b1, b2] = ['A1', 'A2', 'A3', 'B1', 'B2'].map(id => buildBuyer(id, 2_000, 1_000, { fundingSource: funder }));
+        linkTransfer(a1, a2, 10, 2_100);
+        linkTransfer(a2, a3, 10, 2_200);
+        linkTransfer(b1, b2, 10, 2_300);
+
+        const result = analyze([a1, a2, a3, b1, b2]);
+
+        // The common funder links both transfer groups — they are one controlling entity
+        expect(result.clusterCount).toBe(1);
+        expect(result.clusters[0].wallets).toHaveLength(5);
+        expect(result.clusters[0].riskFactors).toEqual(['Shared Funding', 'Temporal Match', 'Internal Transfers']);
+        expect(result.clusters[0].riskScore).toBe(90);
+        expect(result.clusters[0].risk).toBe('High');
+    });
+
+    it('detects a funded, time-synced ring that dumps together and leaves organic buyers alone', () => {
+        const funder = fundedBy('FunderAddress123');
+        const bots = Array.from({ length: 10 }, (_, i) => buildBuyer(`BotWallet_${i}`, 1_000_000, 1_000, { fundingSource: funder }));
+        bots.forEach((bot, i) => bot.outgoingTransfers.push({ to: bots[(i + 1) % 10].address, tokenAmount: 50, timestamp: 1_000_050 }));
+        bots.forEach(bot => addSell(bot, 1_000, 1_000_060));
+        const organic = Array.from({ length: 10 }, (_, i) => buildBuyer(`OrganicUser_${i}`, 2_000_000 + i * 100, 100 + i));
+
+        const result = analyze([...bots, ...organic]);
+
+        expect(result.clusterCount).toBe(1);
+        const [cluster] = result.clusters;
+        expect(cluster.wallets.every(w => w.address.startsWith('BotWallet_'))).toBe(true);
+        expect(cluster.wallets).toHaveLength(10);
+        expect(cluster.riskFactors).toEqual(['Shared Funding', 'Temporal Match', 'Internal Transfers', 'Sync Sell']);
+        expect(cluster.riskScore).toBe(100);
+        expect(cluster.risk).toBe('High');
+        expect(cluster.wallets.every(w => w.status === 'sold_all')).toBe(true);
+    });
+
+    it('keeps the heuristics and groups each wallet matched through the merge', () => {
+        const funder = fundedBy('FunderWallet');
+        const w1 = buildBuyer('W1', 100, 1_000, { fundingSource: funder });
+        const w2 = buildBuyer('W2', 500, 1_000, { fundingSource: funder });
+        const w3 = buildWallet('W3', { traceDepth: 1 });
+        linkTransfer(w2, w3, 400, 600);
+        w3.currentBalance = 400;
+        addSell(w2, 600, 900);
+        addSell(w3, 400, 930);
+
+        const byAddress = new Map(analyze([w1, w2, w3]).clusters[0].wallets.map(w => [w.address, w]));
+
+        expect(byAddress.get('W1')!.heuristics).toEqual(['Shared Funding']);
+        expect(byAddress.get('W2')!.heuristics).toEqual(['Shared Funding', 'Internal Transfers', 'Sync Sell']);
+        expect(byAddress.get('W2')!.matchedGroups).toEqual(['Funding Cluster (Fund)', 'Network Cluster']);
+        expect(byAddress.get('W3')!.heuristics).toEqual(['Internal Transfers', 'Sync Sell']);
+    });
+
+    it('records the evidence behind each factor', () => {
+        const funder = fundedBy('FunderWallet', { signature: 'FundSig' });
+        const [a, b, c] = ['A', 'B', 'C'].map(id => buildBuyer(id, 1_000, 1_000, { fundingSource: funder }));
+        linkTransfer(a, b, 300, 1_100);
+        addSell(b, 500, 2_000);
+        addSell(c, 400, 2_045);
+
+        const [cluster] = analyze([a, b, c]).clusters;
+        const evidence = Object.fromEntries(cluster.evidence!.map(e => [e.factor, e]));
+
+        expect(evidence['Shared Funding']).toEqual({
+            factor: 'Shared Funding',
+            funder: 'FunderWallet',
+            fundings: ['A', 'B', 'C'].map(wallet => ({ wallet, amount: 1_000_000_000, timestamp: 1_000, signature: 'FundSig' })),
+        });
+        expect(evidence['Temporal Match']).toMatchObject({ bucketStart: 1_000, buys: [{ wallet: 'A', tokenAmount: 1_000, timestamp: 1_000 }, { wallet: 'B' }, { wallet: 'C' }] });
+        expect(evidence['Internal Transfers']).toEqual({ factor: 'Internal Transfers', transfers: [{ from: 'A', to: 'B', tokenAmount: 300, timestamp: 1_100 }] });
+        expect(evidence['Sync Sell']).toEqual({
+            factor: 'Sync Sell',
+            pairs: [{ first: { wallet: 'B', tokenAmount: 500, timestamp: 2_000 }, second: { wallet: 'C', tokenAmount: 400, timestamp: 2_045 }, gapSeconds: 45 }],
+        });
+    });
+
+    it('aggregates supply, LP impact and status across clusters', () => {
+        const funder = fundedBy('FunderWallet');
+        const holder = buildBuyer('Holder', 100, 30_000, { fundingSource: funder });
+        const seller = buildBuyer('Seller', 500, 20_000, { fundingSource: funder });
+        addSell(seller, 20_000, 900);
+
+        const result = analyze([holder, seller]);
+
+        expect(result.totalBundledSupplyPercent).toBe(30);
+        expect(result.totalBundledValueUSD).toBe(30_000);
+        expect(result.lpImpactRatio).toBe(3);
+        expect(result.totalWalletCount).toBe(2);
+        expect(result.totalBundledTokens).toBe(30_000);
+        expect(result.statusDistribution).toEqual({ locked: 0, burned: 0, dormant: 0, active: 1 });
+        expect(result.overallRisk).toBe('CRITICAL');
+    });
+
+    it('reports 0% of supply rather than NaN when the supply is unknown', () => {
+        const funder = fundedBy('FunderWallet');
+        const result = analyzeBundleClusters([
+            buildBuyer('W1', 100, 1_000, { fundingSource: funder }),
+            buildBuyer('W2', 500, 1_000, { fundingSource: funder }),
+        ], 0, PRICE_USD, 0);
+
+        expect(result.clusters[0].totalSupplyPercent).toBe(0);
+        expect(result.clusters[0].lpImpact).toBe(0);
+        expect(result.totalBundledSupplyPercent).toBe(0);
+        expect(result.totalBundledTokens).toBe(2_000);
+    });
+});
+
+describe('analyzeBundleClusters — wallet status', () => {
+    const funder = fundedBy('FunderWallet');
+
+    it('marks holders idle past the dormancy window as dormant', () => {
+        const idle = buildBuyer('Idle', 100, 1_000, { fundingSource: funder });
+        const busy = buildBuyer('Busy', 100, 1_000, { fundingSource: funder });
+        busy.outgoingTransfers.push({ to: 'Untraced', tokenAmount: 10, timestamp: NOW - 60 });
+
+        const result = analyze([idle, busy], 100 + DORMANT_AFTER_SECONDS);
+        const status = Object.fromEntries(result.clusters[0].wallets.map(w => [w.address, w.status]));
+
+        expect(status).toEqual({ Idle: 'dormant', Busy: 'active' });
+        expect(result.clusters[0].wallets.find(w => w.address === 'Idle')!.lastActivity).toBe(100);
+        expect(result.statusDistribution).toEqual({ locked: 0, burned: 0, dormant: 1, active: 1 });
+    });
+
+    it('counts wallets whose tokens went to lockers or burn addresses', () => {
+        const locker = buildBuyer('Locker', 100, 1_000, { fundingSource: funder, currentBalance: 100 });
+        locker.outgoingTransfers.push({ to: 'LockEscrow', tokenAmount: 900, timestamp: 200, custody: 'locked' });
+        const burner = buildBuyer('Burner', 100, 1_000, { fundingSource: funder, currentBalance: 0 });
+        burner.outgoingTransfers.push({ to: '1nc1nerator11111111111111111111111111111111', tokenAmount: 1_000, timestamp: 200, custody: 'burned' });
+        const partial = buildBuyer('Partial', 100, 1_000, { fundingSource: funder, currentBalance: 900 });
+        partial.outgoingTransfers.push({ to: 'LockEscrow', tokenAmount: 100, timestamp: 200, custody: 'locked' });
+
+        const result = analyze([locker, burner, partial]);
+        const byAddress = new Map(result.clusters[0].wallets.map(w => [w.address, w]));
+
+        expect(byAddress.get('Locker')).toMatchObject({ status: 'locked', lockedAmount: 900 });
+        expect(byAddress.get('Burner')).toMatchObject({ status: 'burned', burnedAmount: 1_000 });
+        expect(byAddress.get('Partial')).toMatchObject({ status: 'active', lockedAmount: 100 });
+        expect(result.statusDistribution).toEqual({ locked: 1, burned: 1, dormant: 0, active: 1 });
+        expect(result.clusters[0].internalTransferCount).toBe(0);
+    });
+});
+
+describe('analyzeBundleClusters — known serial bundlers', () => {
+    const analyzeKnown = (wallets: Parameters<typeof analyzeBundleClusters>[0], known: string[]) =>
+        analyzeBundleClusters(wallets, TOTAL_SUPPLY, PRICE_USD, LIQUIDITY_USD, [], [], new Map(), new Set(known), NOW);
+
+    it('adds the factor when a member or its funder bundled other launches', () => {
+        const funder = fundedBy('RepeatFunder');
+        const wallets = [buildBuyer('W1', 100, 1_000, { fundingSource: funder }), buildBuyer('W2', 500, 1_000, { fundingSource: funder })];
+
+        const [byFunder] = analyzeKnown(wallets, ['RepeatFunder']).clusters;
+        expect(byFunder.riskFactors).toEqual(['Shared Funding', 'Known Serial Bundler']);
+        expect(byFunder.riskScore).toBe(65);
+        expect(byFunder.knownBundlers).toEqual(['RepeatFunder']);
+
+        const [byMember] = analyzeKnown(wallets, ['W2']).clusters;
+        expect(byMember.knownBundlers).toEqual(['W2']);
+    });
+
+    it('ignores known wallets outside any cluster and leaves clean clusters untouched', () => {
+        const funder = fundedBy('FreshFunder');
+        const result = analyzeKnown([
+            buildBuyer('W1', 100, 1_000, { fundingSource: funder }),
+            buildBuyer('W2', 500, 1_000, { fundingSource: funder }),
+            buildBuyer('Loner', 900),
+        ], ['Loner']);
+
+        expect(result.clusters[0].riskFactors).toEqual(['Shared Funding']);
+        expect(result.clusters[0].knownBundlers).toBeUndefined();
+    });
+});
+
+describe('mergeClusters', () => {
+    const cluster = (id: string, addresses: string[], factors: string[]): BundleCluster => ({
+        id,
+        wallets: addresses.map(address => ({
+            address, boughtAmount: 100, receivedAmount: 0, currentBalance: 100, soldAmount: 0, holdingUSD: 100, status: 'active',
+        })),
+        totalSupplyPercent: 0,
+        totalValueUSD: 0,
+        status: 'Active',
+        lpImpact: 0,
+        risk: 'Low',
+        riskScore: 0,
+        riskFactors: factors,
+        internalTransferCount: 0,
+    });
+
+    it('merges overlapping clusters, unions factors and recomputes totals', () => {
+        const merged = mergeClusters([
+            cluster('First', ['a', 'b'], ['Shared Funding']),
+            cluster('Second', ['b', 'c'], ['Temporal Match']),
+        ], 1, 1_000, 10_000);
+
+        expect(merged).toHaveLength(1);
+        expect(merged[0].id).toBe('First');
+        expect(merged[0].wallets.map(w => w.address)).toEqual(['a', 'b', 'c']);
+        expect(merged[0].riskFactors).toEqual(['Shared Funding', 'Temporal Match']);
+        expect(merged[0].totalValueUSD).toBe(300);
+        expect(merged[0].totalSupplyPercent).toBe(3);
+        expect(merged[0].lpImpact).toBe(0.3);
+    });
+
+    it('merges transitively through a bridging cluster', () => {
+        const merged = mergeClusters([
+            cluster('One', ['a', 'b'], []),
+            cluster('Two', ['c', 'd'], []),
+            cluster('Bridge', ['b', 'c'], []),
+        ], 1, 1_000, 10_000);
+
+        expect(merged).toHaveLength(1);
+        expect(merged[0].wallets.map(w => w.address).sort()).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('keeps disjoint clusters apart', () => {
+        const merged = mergeClusters([cluster('One', ['a'], []), cluster('Two', ['b'], [])], 1, 1_000, 10_000);
+        expect(merged.map(c => c.id)).toEqual(['One', 'Two']);
+    });
+});
+
+describe('calculateOverallRisk', () => {
+    it.each([
+        [1.01, 0, 'CRITICAL'],
+        [0, 40.1, 'CRITICAL'],
+        [1.0, 0, 'HIGH'],
+        [0, 40, 'HIGH'],
+        [0.51, 0, 'HIGH'],
+        [0, 20.1, 'HIGH'],
+        [0.5, 20, 'MODERATE'],
+        [0.21, 0, 'MODERATE'],
+        [0, 10.1, 'MODERATE'],
+        [0.2, 10, 'LOW'],
+        [0, 0, 'LOW'],
+    ] as const)('impact %s / supply %s%% → %s', (impact, supply, expected) => {
+        expect(calculateOverallRisk(impact, supply)).toBe(expected);
+    });
+});
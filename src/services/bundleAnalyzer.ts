@@ -1,18 +1,23 @@
 import { HeliusWalletData } from './heliusService';
-import { BundleControlResult, BundleCluster, BundleWallet } from '../lib/mockData';
+import { TokenCustody } from './tokenLockers';
+import { BundleControlResult, BundleCluster, BundleWallet, RiskFactorEvidence } from '../lib/mockData';
 
 /**
  * Main forensic engine for detecting bundled wallet clusters.
  * Orchestrates multiple heuristics: Funding, Temporal, Behavioral, and Internal Transfers.
+ * `knownBundlers` (from the reputation registry) flags members or funders seen bundling other tokens.
+ * Wallets holding tokens with no activity for `DORMANT_AFTER_SECONDS` before `now` are dormant.
  */
 export function analyzeBundleClusters(
     wallets: HeliusWalletData[],
     totalSupply: number,
     _priceUsd: number, // Leading underscore for unused
-    liquidityUsd: number,
+    liquidityUsd: number, // Aggregate depth across all of the token's pools
     _block0Addresses: string[] = [],
     _holders: any[] = [],
-    _block0BuyMapByHash: Map<string, number> = new Map()
+    _block0BuyMapByHash: Map<string, number> = new Map(),
+    knownBundlers: Set<string> = new Set(),
+    now: number = Math.floor(Date.now() / 1000) // unix seconds; dormancy is measured against it
 ): BundleControlResult {
     // 1. Initial clustering by heuristics
     let clusters: BundleCluster[] = [];
@@ -30,7 +35,16 @@ export function analyzeBundleClusters(
 
     fundingMap.forEach((members, funder) => {
         if (members.length > 1) {
-            clusters.push(createCluster(`Funding Cluster (${funder.slice(0, 4)})`, members, priceUsd, liquidityUsd, totalSupply, ['Shared Funding']));
+            clusters.push(createCluster(`Funding Cluster (${funder.slice(0, 4)})`, members, priceUsd, liquidityUsd, totalSupply, now, ['Shared Funding'], {
+                factor: 'Shared Funding',
+                funder,
+                fundings: members.map(w => ({
+                    wallet: w.address,
+                    amount: w.fundingSource!.amount,
+                    timestamp: w.fundingSource!.timestamp,
+                    ...(w.fundingSource!.signature && { signature: w.fundingSource!.signature }),
+                })),
+            }));
         }
     });
 
@@ -48,7 +62,13 @@ export function analyzeBundleClusters(
     timeGroups.forEach((members, time) => {
         const uniqueMembers = Array.from(new Set(members));
         if (uniqueMembers.length >= 3) {
-            clusters.push(createCluster(`Temporal Cluster (${time})`, uniqueMembers, priceUsd, liquidityUsd, totalSupply, ['Temporal Match']));
+            clusters.push(createCluster(`Temporal Cluster (${time})`, uniqueMembers, priceUsd, liquidityUsd, totalSupply, now, ['Temporal Match'], {
+                factor: 'Temporal Match',
+                bucketStart: time * 2,
+                buys: uniqueMembers.flatMap(w => w.buys
+                    .filter(b => Math.floor(b.timestamp / 2) === time)
+                    .map(b => ({ wallet: w.address, tokenAmount: b.tokenAmount, timestamp: b.timestamp }))),
+            }));
         }
     });
 
@@ -80,7 +100,13 @@ export function analyzeBundleClusters(
             }
 
             if (group.length > 1) {
-                clusters.push(createCluster(`Network Cluster`, group, priceUsd, liquidityUsd, totalSupply, ['Internal Transfers']));
+                const members = new Set(group.map(g => g.address));
+                clusters.push(createCluster(`Network Cluster`, group, priceUsd, liquidityUsd, totalSupply, now, ['Internal Transfers'], {
+                    factor: 'Internal Transfers',
+                    transfers: group.flatMap(g => g.outgoingTransfers
+                        .filter(t => members.has(t.to))
+                        .map(t => ({ from: g.address, to: t.to, tokenAmount: t.tokenAmount, timestamp: t.timestamp }))),
+                }));
             }
         }
     });
@@ -89,7 +115,7 @@ export function analyzeBundleClusters(
     const mergedClusters = mergeClusters(clusters, priceUsd, liquidityUsd, totalSupply);
 
     // 3. Final refinement and scoring
-    const finalClusters = mergedClusters.map(c => refineCluster(c, wallets, priceUsd, liquidityUsd));
+    const finalClusters = mergedClusters.map(c => refineCluster(c, wallets, priceUsd, liquidityUsd, knownBundlers));
 
     // 4. Global aggregation
     const totalBundledValueUSD = finalClusters.reduce((sum, c) => sum + c.totalValueUSD, 0);
@@ -100,8 +126,7 @@ export function analyzeBundleClusters(
 
     const statusDistribution = { locked: 0, burned: 0, dormant: 0, active: 0 };
     finalClusters.flatMap(c => c.wallets).forEach(w => {
-        if (w.status === 'active') statusDistribution.active++;
-        else if (w.status === 'dormant') statusDistribution.dormant++;
+        if (w.status !== 'sold_all') statusDistribution[w.status]++;
     });
 
     return {
@@ -111,7 +136,7 @@ export function analyzeBundleClusters(
         clusterCount: finalClusters.length,
         lpImpactRatio: parseFloat(lpImpactRatio.toFixed(2)),
         totalBundledSupplyPercent: parseFloat(totalBundledSupplyPercent.toFixed(2)),
-        totalBundledTokens: (totalBundledSupplyPercent * totalSupply) / 100,
+        totalBundledTokens: finalClusters.reduce((sum, c) => sum + c.wallets.reduce((s, w) => s + w.currentBalance, 0), 0),
         totalBundledValueUSD,
         totalWalletCount,
         statusDistribution,
@@ -119,19 +144,57 @@ export function analyzeBundleClusters(
     };
 }
 
-function createCluster(id: string, members: HeliusWalletData[], priceUsd: number, liquidityUsd: number, totalSupply: number, factors: string[]): BundleCluster {
-    const bundleWallets: BundleWallet[] = members.map(w => ({
-        address: w.address,
-        boughtAmount: w.buys.reduce((sum, b) => sum + b.tokenAmount, 0),
-        receivedAmount: w.incomingTransfers.reduce((sum, t) => sum + t.tokenAmount, 0),
-        currentBalance: w.currentBalance,
-        soldAmount: w.sells.reduce((sum, s) => sum + s.tokenAmount, 0),
-        holdingUSD: w.currentBalance * priceUsd,
-        status: (w.currentBalance > 0) ? 'active' : 'sold_all'
-    }));
+/** Share of supply in percent; 0 when the supply is unknown rather than Infinity/NaN */
+const supplyPercent = (amount: number, totalSupply: number): number =>
+    totalSupply > 0 ? (amount / totalSupply) * 100 : 0;
+
+/** A wallet holding tokens with no buy, sell or transfer for this long is dormant */
+export const DORMANT_AFTER_SECONDS = 7 * 24 * 60 * 60;
+
+/** Latest known activity; undefined when the tracer saw none with a timestamp */
+const lastActivityOf = (w: HeliusWalletData): number | undefined => {
+    const latest = Math.max(0, ...[...w.buys, ...w.sells, ...w.outgoingTransfers, ...w.incomingTransfers].map(e => e.timestamp));
+    return latest > 0 ? latest : undefined;
+};
+
+/**
+ * Where the wallet's tokens are: locked or burned when most of what it did not sell went
+ * to lockers or burn addresses, otherwise sold out, idle past the dormancy window, or active.
+ */
+const walletStatus = (balance: number, locked: number, burned: number, lastActivity: number | undefined, now: number): BundleWallet['status'] => {
+    if (locked > 0 && locked >= burned && locked >= balance) return 'locked';
+    if (burned > 0 && burned >= balance) return 'burned';
+    if (balance <= 0) return 'sold_all';
+    if (lastActivity !== undefined && now - lastActivity >= DORMANT_AFTER_SECONDS) return 'dormant';
+    return 'active';
+};
+
+const custodyAmount = (w: HeliusWalletData, custody: TokenCustody): number =>
+    w.outgoingTransfers.filter(t => t.custody === custody).reduce((sum, t) => sum + t.tokenAmount, 0);
+
+function createCluster(id: string, members: HeliusWalletData[], priceUsd: number, liquidityUsd: number, totalSupply: number, now: number, factors: string[], evidence: RiskFactorEvidence): BundleCluster {
+    const bundleWallets: BundleWallet[] = members.map(w => {
+        const lockedAmount = custodyAmount(w, 'locked');
+        const burnedAmount = custodyAmount(w, 'burned');
+        const lastActivity = lastActivityOf(w);
+        return {
+            address: w.address,
+            boughtAmount: w.buys.reduce((sum, b) => sum + b.tokenAmount, 0),
+            receivedAmount: w.incomingTransfers.reduce((sum, t) => sum + t.tokenAmount, 0),
+            currentBalance: w.currentBalance,
+            soldAmount: w.sells.reduce((sum, s) => sum + s.tokenAmount, 0),
+            holdingUSD: w.currentBalance * priceUsd,
+            status: walletStatus(w.currentBalance, lockedAmount, burnedAmount, lastActivity, now),
+            ...(lockedAmount > 0 && { lockedAmount }),
+            ...(burnedAmount > 0 && { burnedAmount }),
+            ...(lastActivity !== undefined && { lastActivity }),
+            heuristics: [...factors],
+            matchedGroups: [id]
+        };
+    });
 
     const totalValueUSD = bundleWallets.reduce((sum, w) => sum + w.holdingUSD, 0);
-    const totalSupplyPercent = (bundleWallets.reduce((sum, w) => sum + w.currentBalance, 0) / totalSupply) * 100;
+    const totalSupplyPercent = supplyPercent(bundleWallets.reduce((sum, w) => sum + w.currentBalance, 0), totalSupply);
 
     return {
         id,
@@ -143,11 +206,28 @@ function createCluster(id: string, members: HeliusWalletData[], priceUsd: number
         risk: 'Low',
         riskScore: 0,
         riskFactors: factors,
-        internalTransferCount: 0
+        internalTransferCount: 0,
+        evidence: [evidence]
     };
 }
 
-function mergeClusters(clusters: BundleCluster[], priceUsd: number, liquidityUsd: number, totalSupply: number): BundleCluster[] {
+/** One entry per address, keeping every heuristic and group the address matched */
+function mergeWallets(wallets: BundleWallet[]): BundleWallet[] {
+    const byAddress = new Map<string, BundleWallet>();
+    wallets.forEach(w => {
+        const seen = byAddress.get(w.address);
+        byAddress.set(w.address, seen ? {
+            ...seen,
+            heuristics: union(seen.heuristics, w.heuristics),
+            matchedGroups: union(seen.matchedGroups, w.matchedGroups),
+        } : w);
+    });
+    return [...byAddress.values()];
+}
+
+const union = (a: string[] = [], b: string[] = []): string[] => Array.from(new Set([...a, ...b]));
+
+export function mergeClusters(clusters: BundleCluster[], _priceUsd: number, liquidityUsd: number, totalSupply: number): BundleCluster[] {
     const merged: BundleCluster[] = [];
     const used = new Set<number>();
 
@@ -164,17 +244,17 @@ function mergeClusters(clusters: BundleCluster[], priceUsd: number, liquidityUsd
             );
 
             if (hasOverlap) {
-                const allWallets = [...current.wallets, ...clusters[j].wallets];
-                const uniqueWallets = Array.from(new Map(allWallets.map(w => [w.address, w])).values());
+                const uniqueWallets = mergeWallets([...current.wallets, ...clusters[j].wallets]);
                 const allFactors = Array.from(new Set([...current.riskFactors, ...clusters[j].riskFactors]));
                 
                 current = {
                     ...current,
                     wallets: uniqueWallets,
                     riskFactors: allFactors,
+                    evidence: [...(current.evidence || []), ...(clusters[j].evidence || [])],
                     totalValueUSD: uniqueWallets.reduce((sum, w) => sum + w.holdingUSD, 0),
-                    totalSupplyPercent: (uniqueWallets.reduce((sum, w) => sum + w.currentBalance, 0) / totalSupply) * 100,
-                    lpImpact: (uniqueWallets.reduce((sum, w) => sum + w.holdingUSD, 0)) / liquidityUsd
+                    totalSupplyPercent: supplyPercent(uniqueWallets.reduce((sum, w) => sum + w.currentBalance, 0), totalSupply),
+                    lpImpact: liquidityUsd > 0 ? uniqueWallets.reduce((sum, w) => sum + w.holdingUSD, 0) / liquidityUsd : 0
                 };
                 used.add(j);
                 j = i; 
@@ -185,7 +265,7 @@ function mergeClusters(clusters: BundleCluster[], priceUsd: number, liquidityUsd
     return merged;
 }
 
-function refineCluster(cluster: BundleCluster, allWallets: HeliusWalletData[], _priceUsd: number, liquidityUsd: number): BundleCluster {
+function refineCluster(cluster: BundleCluster, allWallets: HeliusWalletData[], _priceUsd: number, liquidityUsd: number, knownBundlers: Set<string>): BundleCluster {
     let score = 0;
     const factors = [...cluster.riskFactors];
 
@@ -195,36 +275,72 @@ function refineCluster(cluster: BundleCluster, allWallets: HeliusWalletData[], _
 
     const walletMap = new Map(allWallets.map(w => [w.address, w]));
     const clusterWallets = cluster.wallets.map(w => walletMap.get(w.address)).filter(Boolean) as HeliusWalletData[];
+
+    // Token transfers from one member to another, counted after merging
+    const memberAddresses = new Set(clusterWallets.map(w => w.address));
+    const internalTransferCount = clusterWallets.reduce((sum, w) => sum + w.outgoingTransfers.filter(t => memberAddresses.has(t.to)).length, 0);
     
-    let hasSyncSell = false;
-    const sellTimes = clusterWallets.flatMap(w => w.sells.map(s => s.timestamp));
-    if (sellTimes.length >= 2) {
-        const sorted = sellTimes.sort((a, b) => a - b);
-        for (let i = 0; i < sorted.length - 1; i++) {
-            if (sorted[i + 1] - sorted[i] <= 60) {
-                hasSyncSell = true;
-                break;
-            }
-        }
-    }
+    // Consecutive sells within a minute of each other, and the wallets behind them
+    const sells = clusterWallets
+        .flatMap(w => w.sells.map(s => ({ wallet: w.address, tokenAmount: s.tokenAmount, timestamp: s.timestamp })))
+        .sort((a, b) => a.timestamp - b.timestamp);
+    const syncPairs = sells.slice(1)
+        .map((second, i) => ({ first: sells[i], second, gapSeconds: second.timestamp - sells[i].timestamp }))
+        .filter(p => p.gapSeconds <= 60);
+    const syncSellers = new Set(syncPairs.flatMap(p => [p.first.wallet, p.second.wallet]));
+    const hasSyncSell = syncPairs.length > 0;
+    // Evidence shows sells across wallets; one wallet's own split exit only when nothing else matched
+    const crossWalletPairs = syncPairs.filter(p => p.first.wallet !== p.second.wallet);
+    const syncEvidencePairs = crossWalletPairs.length > 0 ? crossWalletPairs : syncPairs;
 
     if (hasSyncSell && !factors.includes('Sync Sell')) {
         score += 40;
         factors.push('Sync Sell');
     }
 
+    // Members (or their funders) already clustered on other launches
+    const repeatOffenders = new Set<string>();
+    const serialMembers = new Set<string>();
+    clusterWallets.forEach(w => {
+        const funder = w.fundingSource && !w.fundingSource.isCex ? w.fundingSource.address : undefined;
+        if (knownBundlers.has(w.address)) repeatOffenders.add(w.address);
+        if (funder && knownBundlers.has(funder)) repeatOffenders.add(funder);
+        if (knownBundlers.has(w.address) || (funder && knownBundlers.has(funder))) serialMembers.add(w.address);
+    });
+
+    if (repeatOffenders.size > 0 && !factors.includes('Known Serial Bundler')) {
+        score += 30;
+        factors.push('Known Serial Bundler');
+    }
+
     score = Math.min(score, 100);
     
+    const wallets = cluster.wallets.map(w => {
+        const extra = [
+            ...(syncSellers.has(w.address) ? ['Sync Sell'] : []),
+            ...(serialMembers.has(w.address) ? ['Known Serial Bundler'] : []),
+        ];
+        return extra.length > 0 ? { ...w, heuristics: union(w.heuristics, extra) } : w;
+    });
+
     return {
         ...cluster,
+        wallets,
         riskScore: score,
         risk: score > 70 ? 'High' : score > 30 ? 'Moderate' : 'Low',
         riskFactors: factors,
-        lpImpact: parseFloat((cluster.totalValueUSD / liquidityUsd).toFixed(2)) || 0
+        internalTransferCount,
+        evidence: [
+            ...(cluster.evidence || []),
+            ...(hasSyncSell ? [{ factor: 'Sync Sell' as const, pairs: syncEvidencePairs }] : []),
+            ...(repeatOffenders.size > 0 ? [{ factor: 'Known Serial Bundler' as const, addresses: [...repeatOffenders] }] : []),
+        ],
+        lpImpact: liquidityUsd > 0 ? parseFloat((cluster.totalValueUSD / liquidityUsd).toFixed(2)) : 0,
+        ...(repeatOffenders.size > 0 && { knownBundlers: [...repeatOffenders] })
     };
 }
 
-function calculateOverallRisk(impact: number, supply: number): 'CRITICAL' | 'HIGH' | 'MODERATE' | 'LOW' {
+export function calculateOverallRisk(impact: number, supply: number): 'CRITICAL' | 'HIGH' | 'MODERATE' | 'LOW' {
     if (impact > 1.0 || supply > 40) return 'CRITICAL';
     if (impact > 0.5 || supply > 20) return 'HIGH';
     if (impact > 0.2 || supply > 10) return 'MODERATE';
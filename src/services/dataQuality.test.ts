@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { assessDataQuality } from './dataQuality';
+import { ProviderCall } from '../lib/mockData';
+
+const ok = (step: ProviderCall['step']): ProviderCall => ({ step, provider: 'stub', status: 'ok' });
+const traced = (covered: number, total: number): ProviderCall => ({
+    step: 'tracing', provider: 'helius', status: covered < total ? 'partial' : 'ok',
+    detail: `${covered} of ${total} wallets traced`, coverage: { covered, total },
+});
+
+describe('assessDataQuality', () => {
+    it('is high confidence when every call succeeded', () => {
+        const quality = assessDataQuality([ok('market'), ok('supply'), ok('security'), ok('forensics'), traced(400, 400)]);
+        expect(quality).toMatchObject({ confidence: 'high', inconclusive: false, missingCritical: [] });
+    });
+
+    it('drops to medium for non-critical gaps and small tracing losses', () => {
+        const supplyEstimated: ProviderCall = { step: 'supply', provider: 'helius', status: 'failed', detail: 'HTTP 503' };
+        const quality = assessDataQuality([ok('market'), supplyEstimated, ok('security'), ok('forensics'), traced(380, 400)]);
+        expect(quality).toMatchObject({ confidence: 'medium', inconclusive: false });
+    });
+
+    it('is inconclusive when a critical step is missing or tracing coverage is below the floor', () => {
+        const quality = assessDataQuality([
+            ok('market'),
+            { step: 'security', provider: 'goplus', status: 'failed', detail: 'HTTP 429' },
+            { step: 'forensics', provider: 'moralis', status: 'missing_key' },
+            traced(312, 400),
+        ]);
+
+        expect(quality.confidence).toBe('low');
+        expect(quality.inconclusive).toBe(true);
+        expect(quality.missingCritical).toEqual([
+            'security: failed (HTTP 429)',
+            'forensics: missing key',
+            'tracing: partial (312 of 400 wallets traced)',
+        ]);
+    });
+
+    it('does not count skipped tracing (no launch buyers) as missing', () => {
+        const quality = assessDataQuality([ok('security'), ok('forensics'), { step: 'tracing', provider: 'helius', status: 'skipped' }]);
+        expect(quality.inconclusive).toBe(false);
+    });
+});
@@ -0,0 +1,40 @@
+import { DataQuality, ProviderCall } from '../lib/mockData';
+import { ScoringPolicy, DEFAULT_SCORING_POLICY } from './scoringPolicy';
+
+// ───────────────────────────────────────────────
+// Data quality — how much of a scan's input actually arrived
+// ───────────────────────────────────────────────
+
+// Without these a clean score only means "nothing was checked"
+const CRITICAL_STEPS: ProviderCall['step'][] = ['market', 'security', 'forensics', 'tracing'];
+const MISSING_STATUSES: ProviderCall['status'][] = ['failed', 'missing_key', 'not_supported'];
+const DEGRADED_STATUSES: ProviderCall['status'][] = ['failed', 'missing_key', 'not_supported', 'partial', 'no_data'];
+
+const describeCall = (call: ProviderCall): string =>
+    `${call.step}: ${call.status.replace(/_/g, ' ')}${call.detail ? ` (${call.detail})` : ''}`;
+
+/**
+ * Grade a scan's provider calls. A critical step that failed, had no key or does not
+ * cover the chain — or tracing below the policy's coverage floor — makes the scan
+ * inconclusive; any other degraded call lowers confidence to medium.
+ */
+export const assessDataQuality = (
+    calls: ProviderCall[],
+    rules: ScoringPolicy['dataQuality'] = DEFAULT_SCORING_POLICY.dataQuality
+): DataQuality => {
+    const missingCritical = calls
+        .filter(call => CRITICAL_STEPS.includes(call.step))
+        .filter(call => MISSING_STATUSES.includes(call.status)
+            || (call.coverage !== undefined && call.coverage.total > 0 && call.coverage.covered / call.coverage.total < rules.minTraceCoverage))
+        .map(describeCall);
+
+    const inconclusive = missingCritical.length > 0;
+    const degraded = calls.some(call => DEGRADED_STATUSES.includes(call.status));
+
+    return {
+        calls,
+        confidence: inconclusive ? 'low' : degraded ? 'medium' : 'high',
+        missingCritical,
+        inconclusive,
+    };
+};
@@ -1,5 +1,6 @@
-import axios from 'axios';
+import { http } from './httpClient';
 import { LiquidityPair } from '../lib/mockData';
+import { normalizeAddress } from '../lib/addresses';
 
 const BASE_URL = 'https://api.dexscreener.com/latest/dex';
 
@@ -8,6 +9,7 @@ export interface DexPairData {
     dexId: string;
     url: string;
     pairAddress: string;
+    labels?: string[];          // e.g. ['v3'], ['CLMM'], ['DLMM']
     baseToken: {
         address: string;
         name: string;
@@ -44,19 +46,35 @@ export interface DexPairData {
         quote: number;
     };
     fdv: number;
-    paircreatedAt: number;
+    pairCreatedAt?: number;     // ms epoch; missing on some older pairs
 }
 
-// Returns ALL pairs for a token, sorted by liquidity (highest first)
+/** One base token among the pairs a query matched — what the user picks between */
+export interface TokenCandidate {
+    chainId: string;
+    tokenAddress: string;
+    tokenName: string;
+    tokenSymbol: string;
+    /** Summed across all of the token's pairs on this chain */
+    liquidityUsd: number;
+    pairCount: number;
+    /** Deepest pair, which the scan prices from unless told otherwise */
+    topPair: { pairAddress: string; dexId: string; liquidityUsd: number };
+    /** Creation time of the token's oldest pair (ms epoch) */
+    pairCreatedAt?: number;
+}
+
+// Returns ALL pairs for a token, sorted by liquidity (highest first).
+// [] means DexScreener has no pairs; request failures are thrown so the scan can report them.
 export const searchAllPairs = async (query: string): Promise<DexPairData[]> => {
     try {
         // 1. Try searching as token address
-        let response = await axios.get(`${BASE_URL}/tokens/${query}`);
+        let response = await http.get(`${BASE_URL}/tokens/${query}`);
         let pairs = response.data.pairs as DexPairData[];
 
         if (!pairs || pairs.length === 0) {
             // 2. Try searching as text (symbol/name)
-            response = await axios.get(`${BASE_URL}/search?q=${query}`);
+            response = await http.get(`${BASE_URL}/search?q=${encodeURIComponent(query)}`);
             pairs = response.data.pairs as DexPairData[];
         }
 
@@ -69,7 +87,7 @@ export const searchAllPairs = async (query: string): Promise<DexPairData[]> => {
         return pairs;
     } catch (error) {
         console.error("DexScreener API Error:", error);
-        return [];
+        throw error;
     }
 };
 
@@ -79,12 +97,57 @@ export const searchToken = async (query: string): Promise<DexPairData | null> =>
     return pairs.length > 0 ? pairs[0] : null;
 };
 
+/**
+ * Group pairs by chain + base token, deepest total liquidity first.
+ * Expects `pairs` sorted by liquidity, as `searchAllPairs` returns them.
+ */
+export const groupPairCandidates = (pairs: DexPairData[]): TokenCandidate[] => {
+    const byToken = new Map<string, TokenCandidate>();
+
+    for (const pair of pairs) {
+        const key = `${pair.chainId}:${normalizeAddress(pair.baseToken.address)}`;
+        const liquidityUsd = pair.liquidity?.usd || 0;
+        const existing = byToken.get(key);
+
+        if (!existing) {
+            byToken.set(key, {
+                chainId: pair.chainId,
+                tokenAddress: pair.baseToken.address,
+                tokenName: pair.baseToken.name || pair.baseToken.symbol,
+                tokenSymbol: pair.baseToken.symbol,
+                liquidityUsd,
+                pairCount: 1,
+                topPair: { pairAddress: pair.pairAddress, dexId: pair.dexId, liquidityUsd },
+                pairCreatedAt: pair.pairCreatedAt,
+            });
+            continue;
+        }
+
+        existing.liquidityUsd += liquidityUsd;
+        existing.pairCount++;
+        if (pair.pairCreatedAt && (!existing.pairCreatedAt || pair.pairCreatedAt < existing.pairCreatedAt)) {
+            existing.pairCreatedAt = pair.pairCreatedAt;
+        }
+    }
+
+    return [...byToken.values()].sort((a, b) => b.liquidityUsd - a.liquidityUsd);
+};
+
+const CONCENTRATED_LABELS = ['v3', 'v4', 'clmm', 'dlmm', 'whirlpool'];
+
+/** Concentrated-liquidity pools hold depth near the current price instead of across the whole curve */
+export const isConcentratedPair = (pair: DexPairData): boolean =>
+    pair.dexId === 'orca' || (pair.labels || []).some(l => CONCENTRATED_LABELS.includes(l.toLowerCase()));
+
 export const mapDexToLiquidityPair = (dexData: DexPairData): LiquidityPair => {
     return {
         dexName: dexData.dexId,
         liquidityUSD: dexData.liquidity?.usd || 0,
         pairAddress: dexData.pairAddress,
         baseTokenSymbol: dexData.baseToken.symbol,
-        quoteTokenSymbol: dexData.quoteToken.symbol
+        quoteTokenSymbol: dexData.quoteToken.symbol,
+        volume24hUSD: dexData.volume?.h24 || 0,
+        baseReserve: dexData.liquidity?.base || 0,
+        isConcentrated: isConcentratedPair(dexData),
     };
 };
@@ -0,0 +1,26 @@
+// ───────────────────────────────────────────────
+// EVM swap routers — token transfers to/from these are swaps, not distribution
+// ───────────────────────────────────────────────
+
+/** Lowercase router/aggregator address → label. Addresses deployed at the same address on several chains appear once. */
+export const EVM_ROUTERS: Record<string, string> = {
+    '0x7a250d5630b4cf539739df2c5dacb4c659f2488d': 'Uniswap V2 Router',
+    '0xe592427a0aece92de3edee1f18e0157c05861564': 'Uniswap V3 Router',
+    '0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45': 'Uniswap V3 Router 2',
+    '0xef1c6e67703c7bd7107eed8303fbe6ec2554bf6b': 'Uniswap Universal Router (old)',
+    '0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad': 'Uniswap Universal Router',
+    '0x66a9893cc07d91d95644aedd05d03f95e1dba8af': 'Uniswap V4 Universal Router',
+    '0xd9e1ce17f2641f24ae83637ab66a2cca9c378b9f': 'SushiSwap Router',
+    '0x10ed43c718714eb63d5aa57b78b54704e256024e': 'PancakeSwap V2 Router',
+    '0x13f4ea83d0bd40e75c8222255bc855a974568dd4': 'PancakeSwap Smart Router',
+    '0xcf77a3ba9a5ca399b7c97c74d54e5b1beb874e43': 'Aerodrome Router',
+    '0x1111111254fb6c44bac0bed2854e76f90643097d': '1inch V4',
+    '0x1111111254eeb25477b68fb85ed929f73a960582': '1inch V5',
+    '0x111111125421ca6dc452d289314280a0f8842a65': '1inch V6',
+    '0xdef1c0ded9bec7f1a1670819833240f027b25eff': '0x Exchange Proxy',
+    '0x6131b5fae19ea4f9d964eac0408e4408b66337b5': 'KyberSwap Aggregator',
+    '0x6a000f20005980200259b80c5102003040001068': 'ParaSwap Augustus V6',
+};
+
+export const isKnownRouter = (address: string): boolean =>
+    Object.prototype.hasOwnProperty.call(EVM_ROUTERS, address.toLowerCase());
@@ -0,0 +1,89 @@
+import { describe, it, expect, afterEach, afterAll } from 'vitest';
+import { mkdtempSync, readFileSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AxiosAdapter } from 'axios';
+import { http } from './httpClient';
+import { startRecording, stopRecording, startReplay, stopReplay, parseFixtureBundle, FixtureBundle } from './fixtureMode';
+import { readEnv, setEnvOverrides } from '../lib/env';
+
+const HELIUS_KEY = 'helius-secret-123';
+const ALCHEMY_KEY = 'alchemy-secret-456';
+
+// Upstream stand-in: answers like the network would, with raw JSON text
+const SWAPS_BODY = '{"result":[{"signature":"Sig1","amount":1.5}],"cursor":null}';
+const RPC_BODY = '{"jsonrpc":"2.0","id":1,"result":"0x2a"}';
+const stubAdapter: AxiosAdapter = async (config) => ({
+    data: config.method === 'post' ? RPC_BODY : SWAPS_BODY,
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    config,
+});
+
+// Built from readEnv like the provider services, so replay's placeholder keys line up
+const fetchSwaps = () => http.get('https://api.helius.xyz/v0/addresses/Wallet1/transactions', {
+    params: { 'api-key': readEnv('VITE_HELIUS_API_KEY'), limit: 100 },
+});
+const callRpc = () => http.post(`https://eth-mainnet.g.alchemy.com/v2/${readEnv('VITE_ALCHEMY_API_KEY')}`, {
+    jsonrpc: '2.0', id: 1, method: 'eth_blockNumber', params: [],
+});
+
+describe('fixture record / replay', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'atlaix-fixtures-'));
+
+    afterEach(() => setEnvOverrides({}));
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    it('writes a redacted bundle that replays the recorded responses unchanged', async () => {
+        setEnvOverrides({ VITE_HELIUS_API_KEY: HELIUS_KEY, VITE_ALCHEMY_API_KEY: ALCHEMY_KEY, VITE_MORALIS_API_KEY: '' });
+        startRecording('round trip', stubAdapter);
+        await fetchSwaps();
+        await callRpc();
+        const path = join(dir, 'bundle.json');
+        writeFileSync(path, JSON.stringify(stopRecording(), null, 2));
+
+        const written = readFileSync(path, 'utf8');
+        expect(written).not.toContain(HELIUS_KEY);
+        expect(written).not.toContain(ALCHEMY_KEY);
+        expect(written).toContain('https://eth-mainnet.g.alchemy.com/v2/{VITE_ALCHEMY_API_KEY}');
+
+        const bundle = JSON.parse(written) as FixtureBundle;
+        expect(bundle.configuredKeys).toEqual(['VITE_HELIUS_API_KEY', 'VITE_ALCHEMY_API_KEY']);
+
+        startReplay(bundle);
+        try {
+            expect(JSON.stringify((await fetchSwaps()).data)).toBe(SWAPS_BODY);
+            expect(JSON.stringify((await callRpc()).data)).toBe(RPC_BODY);
+        } finally {
+            expect(stopReplay()).toEqual({ served: 2, misses: [] });
+        }
+    });
+
+    it('fails requests the bundle has no entry for, and reports them', async () => {
+        startReplay({ version: 1, recordedAt: '', configuredKeys: ['VITE_HELIUS_API_KEY'], entries: [] });
+        try {
+            await expect(fetchSwaps()).rejects.toThrow(/^No recorded fixture for GET https:\/\/api\.helius\.xyz\/v0\/addresses\/Wallet1\/transactions\?limit=100$/);
+        } finally {
+            expect(stopReplay().misses).toEqual(['GET https://api.helius.xyz/v0/addresses/Wallet1/transactions?limit=100']);
+        }
+    });
+});
+
+describe('parseFixtureBundle', () => {
+    it('accepts a recorded bundle', () => {
+        const bundle = { version: 1, recordedAt: '', configuredKeys: ['VITE_HELIUS_API_KEY'], entries: [{ key: 'GET x', method: 'GET', url: 'x', status: 200 }] };
+        expect(parseFixtureBundle(JSON.stringify(bundle))).toEqual(bundle);
+    });
+
+    it.each([
+        ['{ not json', /^Invalid JSON/],
+        ['null', 'Expected a fixture bundle object'],
+        [JSON.stringify({ version: 2, configuredKeys: [], entries: [] }), 'Unsupported fixture bundle version 2 (expected 1)'],
+        [JSON.stringify({ version: 1, entries: [] }), '"configuredKeys" must be an array of strings'],
+        [JSON.stringify({ version: 1, configuredKeys: [] }), '"entries" must be an array'],
+        [JSON.stringify({ version: 1, configuredKeys: [], entries: [{ key: 'GET x' }] }), 'entries[0] needs string "key" and number "status"'],
+    ])('rejects %s', (json, message) => {
+        expect(() => parseFixtureBundle(json)).toThrow(message);
+    });
+});
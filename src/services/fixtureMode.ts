@@ -0,0 +1,226 @@
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { http } from './httpClient';
+import { ENV_KEYS, EnvKey, readEnv, setEnvOverrides } from '../lib/env';
+
+// ───────────────────────────────────────────────
+// Record / replay of provider HTTP traffic
+// ───────────────────────────────────────────────
+//
+// Record mode captures every request/response made through the shared `http`
+// client into a FixtureBundle. Replay mode serves those responses back with no
+// network access, so a disputed verdict can be reproduced after on-chain state
+// has moved on.
+
+export const FIXTURE_BUNDLE_VERSION = 1;
+
+/** One captured exchange. `key` identifies the request with API keys redacted. */
+export interface FixtureEntry {
+    key: string;
+    method: string;
+    url: string;
+    body?: unknown;
+    status: number;            // 0 = network failure (no response)
+    data?: unknown;
+    error?: string;
+}
+
+export interface FixtureBundle {
+    version: number;
+    recordedAt: string;
+    label?: string;
+    /** Providers that had credentials while recording — replay marks them as configured */
+    configuredKeys: EnvKey[];
+    entries: FixtureEntry[];
+}
+
+export interface ReplayReport {
+    served: number;
+    /** Requests the bundle had no entry for (answered with a network error) */
+    misses: string[];
+}
+
+// Distinct per key so redaction maps each placeholder back to its own `{KEY}` token
+const replayPlaceholder = (key: EnvKey) => `fixture-replay-${key}`;
+
+const liveAdapter = http.defaults.adapter;
+const defaultAdapter: AxiosAdapter = axios.getAdapter(liveAdapter);
+
+// ── Request identity ──
+
+/** Replace live API key values so fixtures are shareable and stable across keys */
+const redactSecrets = (text: string): string =>
+    ENV_KEYS.reduce((acc, key) => {
+        const value = readEnv(key);
+        return value ? acc.split(value).join(`{${key}}`) : acc;
+    }, text);
+
+const parseBody = (data: unknown): unknown => {
+    if (typeof data !== 'string') return data;
+    try {
+        return JSON.parse(data);
+    } catch {
+        return data;
+    }
+};
+
+const describeRequest = (config: InternalAxiosRequestConfig) => {
+    const url = new URL(config.url || '', config.baseURL);
+    Object.entries(config.params || {}).forEach(([k, v]) => {
+        if (v !== undefined && v !== null) url.searchParams.set(k, String(v));
+    });
+    url.searchParams.delete('api-key');
+    url.searchParams.sort();
+
+    const method = (config.method || 'get').toUpperCase();
+    const redactedUrl = redactSecrets(url.toString());
+    const body = config.data === undefined ? undefined : JSON.parse(redactSecrets(JSON.stringify(parseBody(config.data))));
+    const key = `${method} ${redactedUrl}${body === undefined ? '' : ` ${JSON.stringify(body)}`}`;
+
+    return { key, method, url: redactedUrl, body };
+};
+
+// ── Mode state ──
+
+type Mode =
+    | { kind: 'live' }
+    | { kind: 'record'; bundle: FixtureBundle; upstream: AxiosAdapter }
+    | { kind: 'replay'; queues: Map<string, FixtureEntry[]>; report: ReplayReport };
+
+let mode: Mode = { kind: 'live' };
+
+const recordingAdapter: AxiosAdapter = async (config) => {
+    if (mode.kind !== 'record') throw new Error('Recording adapter used outside record mode');
+    const { upstream } = mode;
+    const { key, method, url, body } = describeRequest(config);
+    const push = (entry: Omit<FixtureEntry, 'key' | 'method' | 'url' | 'body'>) => {
+        if (mode.kind === 'record') mode.bundle.entries.push({ key, method, url, body, ...entry });
+    };
+
+    try {
+        const response = await upstream(config);
+        push({ status: response.status, data: parseBody(response.data) });
+        return response;
+    } catch (err) {
+        if (axios.isAxiosError(err) && err.response) {
+            push({ status: err.response.status, data: parseBody(err.response.data) });
+        } else {
+            push({ status: 0, error: (err as Error)?.message || String(err) });
+        }
+        throw err;
+    }
+};
+
+const replayAdapter: AxiosAdapter = async (config) => {
+    if (mode.kind !== 'replay') throw new Error('Replay adapter used outside replay mode');
+    const { key } = describeRequest(config);
+
+    // Identical requests are served in recorded order; the last one repeats once exhausted
+    const queue = mode.queues.get(key);
+    const entry = queue && (queue.length > 1 ? queue.shift() : queue[0]);
+
+    if (!entry) {
+        mode.report.misses.push(key);
+        throw new AxiosError(`No recorded fixture for ${key}`, AxiosError.ERR_NETWORK, config);
+    }
+
+    mode.report.served++;
+    if (entry.status === 0) {
+        throw new AxiosError(entry.error || 'Recorded network error', AxiosError.ERR_NETWORK, config);
+    }
+
+    const response: AxiosResponse = {
+        data: entry.data,
+        status: entry.status,
+        statusText: '',
+        headers: {},
+        config,
+    };
+
+    const validateStatus = config.validateStatus ?? ((s: number) => s >= 200 && s < 300);
+    if (!validateStatus(entry.status)) {
+        throw new AxiosError(`Request failed with status code ${entry.status}`, AxiosError.ERR_BAD_RESPONSE, config, null, response);
+    }
+    return response;
+};
+
+// ── Public API ──
+
+/**
+ * Start capturing provider traffic. Call stopRecording() to get the bundle.
+ * Requests go to the network through axios' own adapter unless `upstream` replaces it.
+ */
+export const startRecording = (label?: string, upstream: AxiosAdapter = defaultAdapter) => {
+    mode = {
+        kind: 'record',
+        upstream,
+        bundle: {
+            version: FIXTURE_BUNDLE_VERSION,
+            recordedAt: new Date().toISOString(),
+            label,
+            configuredKeys: ENV_KEYS.filter(k => !!readEnv(k)),
+            entries: [],
+        },
+    };
+    http.defaults.adapter = recordingAdapter;
+};
+
+export const stopRecording = (): FixtureBundle => {
+    if (mode.kind !== 'record') throw new Error('Not recording');
+    const { bundle } = mode;
+    mode = { kind: 'live' };
+    http.defaults.adapter = liveAdapter;
+    return bundle;
+};
+
+/** Parse a bundle written by --record, rejecting anything replay could not serve from */
+export const parseFixtureBundle = (json: string): FixtureBundle => {
+    let raw: Partial<FixtureBundle>;
+    try {
+        raw = JSON.parse(json);
+    } catch (e) {
+        throw new Error(`Invalid JSON: ${(e as Error).message}`);
+    }
+    if (typeof raw !== 'object' || raw === null) throw new Error('Expected a fixture bundle object');
+    if (raw.version !== FIXTURE_BUNDLE_VERSION) {
+        throw new Error(`Unsupported fixture bundle version ${raw.version} (expected ${FIXTURE_BUNDLE_VERSION})`);
+    }
+    if (!Array.isArray(raw.configuredKeys) || raw.configuredKeys.some(k => typeof k !== 'string')) {
+        throw new Error('"configuredKeys" must be an array of strings');
+    }
+    if (!Array.isArray(raw.entries)) throw new Error('"entries" must be an array');
+    raw.entries.forEach((entry, i) => {
+        if (typeof entry?.key !== 'string' || typeof entry.status !== 'number') throw new Error(`entries[${i}] needs string "key" and number "status"`);
+    });
+
+    return raw as FixtureBundle;
+};
+
+/** Serve every provider request from `bundle`; nothing reaches the network. */
+export const startReplay = (bundle: FixtureBundle) => {
+    if (bundle.version !== FIXTURE_BUNDLE_VERSION) {
+        throw new Error(`Unsupported fixture bundle version ${bundle.version} (expected ${FIXTURE_BUNDLE_VERSION})`);
+    }
+
+    // Providers that were configured while recording must look configured now,
+    // and with placeholder keys so request identities match the redacted ones.
+    setEnvOverrides(Object.fromEntries(ENV_KEYS.map(k => [k, bundle.configuredKeys.includes(k) ? replayPlaceholder(k) : ''])));
+
+    const queues = new Map<string, FixtureEntry[]>();
+    bundle.entries.forEach(entry => {
+        const list = queues.get(entry.key) || [];
+        list.push(entry);
+        queues.set(entry.key, list);
+    });
+
+    mode = { kind: 'replay', queues, report: { served: 0, misses: [] } };
+    http.defaults.adapter = replayAdapter;
+};
+
+export const stopReplay = (): ReplayReport => {
+    if (mode.kind !== 'replay') throw new Error('Not replaying');
+    const { report } = mode;
+    mode = { kind: 'live' };
+    setEnvOverrides({});
+    http.defaults.adapter = liveAdapter;
+    return report;
+};
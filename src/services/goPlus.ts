@@ -1,4 +1,4 @@
-import axios from 'axios';
+import { http } from './httpClient';
 
 // GoPlus Public API (Free tier has rate limits, but sufficient for testing)
 const BASE_URL = 'https://api.gopluslabs.io/api/v1';
@@ -15,6 +15,7 @@ export interface SecurityData {
     slippage_modifiable: boolean;
 }
 
+/** Resolves null when GoPlus has no record of the token; request failures are thrown so the scan can report them */
 export const checkTokenSecurity = async (chainId: string, tokenAddress: string): Promise<SecurityData | null> => {
     try {
         // Map common chain IDs to GoPlus IDs
@@ -24,7 +25,7 @@ export const checkTokenSecurity = async (chainId: string, tokenAddress: string):
         if (chainId === 'base') goPlusChainId = '8453';
         if (chainId === 'solana') goPlusChainId = 'solana';
 
-        const response = await axios.get(`${BASE_URL}/token_security/${goPlusChainId}?contract_addresses=${tokenAddress}`);
+        const response = await http.get(`${BASE_URL}/token_security/${goPlusChainId}?contract_addresses=${tokenAddress}`);
 
         const result = response.data.result;
         if (!result || !result[tokenAddress.toLowerCase()]) return null;
@@ -45,6 +46,6 @@ export const checkTokenSecurity = async (chainId: string, tokenAddress: string):
 
     } catch (error) {
         console.error("GoPlus API Error:", error);
-        return null;
+        throw error;
     }
 };
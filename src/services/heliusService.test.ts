@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { parseTransfers, HeliusTransaction } from './heliusService';
+
+const WALLET = 'Wa11et1111111111111111111111111111111111111';
+const MINT = 'Mint1111111111111111111111111111111111pump';
+
+describe('parseTransfers', () => {
+    it('counts an SPL burn, which has no destination account, as burned', () => {
+        // Shape of a Helius enhanced transaction for a BurnChecked instruction, extra fields included
+        const payload = {
+            signature: 'BurnSig', type: 'BURN', source: 'SOLANA_PROGRAM_LIBRARY', slot: 300, timestamp: 1_700_000_300,
+            feePayer: WALLET, nativeTransfers: [],
+            tokenTransfers: [{
+                fromTokenAccount: 'WalletAta111111111111111111111111111111111', toTokenAccount: '',
+                fromUserAccount: WALLET, toUserAccount: '', tokenAmount: 250_000, mint: MINT, tokenStandard: 'Fungible',
+            }],
+            instructions: [{ programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' }],
+        };
+        const burn: HeliusTransaction = payload;
+
+        expect(parseTransfers([burn], WALLET, MINT).outgoingTransfers).toEqual([
+            { to: '', tokenAmount: 250_000, timestamp: 1_700_000_300, custody: 'burned' },
+        ]);
+    });
+
+    it('still drops movements to excluded program accounts', () => {
+        const toPool = {
+            signature: 'Sig', type: 'TRANSFER', source: 'SYSTEM_PROGRAM', slot: 1, timestamp: 1, feePayer: WALLET, nativeTransfers: [],
+            tokenTransfers: [{ fromUserAccount: WALLET, toUserAccount: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8', tokenAmount: 5, mint: MINT }],
+        } as HeliusTransaction;
+
+        expect(parseTransfers([toPool], WALLET, MINT).outgoingTransfers).toEqual([]);
+    });
+});
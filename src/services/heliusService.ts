@@ -1,4 +1,9 @@
-import axios from 'axios';
+import { http } from './httpClient';
+import { readEnv } from '../lib/env';
+import { formatUnits, parseRawAmount } from '../lib/units';
+import { FailedWallet, WalletTrade } from '../lib/mockData';
+import { providerScheduler, settleEach, describeError } from './requestScheduler';
+import { TokenCustody, custodyOf, isLockerProgram } from './tokenLockers';
 
 // ───────────────────────────────────────────────
 // Helius API — Deep Solana forensic analysis
@@ -30,38 +35,42 @@ export interface HeliusTransaction {
     feePayer: string;
     tokenTransfers: HeliusTokenTransfer[];
     nativeTransfers: HeliusNativeTransfer[];
+    instructions?: { programId: string }[]; // Top-level instructions
 }
 
 export interface FundingSource {
     address: string;
-    amount: number;
+    amount: number;         // Raw native units (lamports / wei)
     timestamp: number;
     isCex: boolean;
+    signature?: string;     // Funding transaction
 }
 
 export interface HeliusWalletData {
     address: string;
-    buys: { tokenAmount: number; timestamp: number }[];
-    sells: { tokenAmount: number; timestamp: number }[];
-    outgoingTransfers: { to: string; tokenAmount: number; timestamp: number }[];
+    buys: WalletTrade[];
+    sells: WalletTrade[];
+    outgoingTransfers: { to: string; tokenAmount: number; timestamp: number; custody?: TokenCustody }[]; // custody: sent to a locker or burn address
     incomingTransfers: { from: string; tokenAmount: number; timestamp: number }[];
     currentBalance: number;
     isSeedWallet: boolean;   // Was this wallet a block 0-2 buyer?
     traceDepth: number;      // 0 = seed, 1 = level 1 recipient, 2 = level 2
     fundingSource?: FundingSource; // Wallet or CEX that funded this account
+    incomplete?: string;     // Why part of the wallet's history is missing, e.g. "page 3: HTTP 429"
+}
+
+/** Tracer output: the wallets that loaded plus the ones that failed after retries */
+export interface DistributionTrace {
+    wallets: HeliusWalletData[];
+    failedWallets: FailedWallet[];
 }
 
 // ── Helpers ──
 
-const getApiKey = (): string => {
-    // Universal support: Vite (Browser) or Process (Node.js)
-    if (typeof import.meta !== 'undefined' && import.meta.env) {
-        return import.meta.env.VITE_HELIUS_API_KEY || '';
-    }
-    return process.env.VITE_HELIUS_API_KEY || '';
-};
+const getApiKey = (): string => readEnv('VITE_HELIUS_API_KEY');
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Every Helius request (API and RPC) shares one rate-limited queue
+const helius = providerScheduler('helius');
 
 // Known addresses to exclude from distribution tracing
 // Includes DEX programs, system programs, LP pools, pump.fun infrastructure
@@ -103,109 +112,129 @@ const isExcludedAddress = (addr: string): boolean => {
     return false;
 };
 
-// Fetch all parsed transactions for a wallet
+const PAGE_SIZE = 100;
+const MAX_WALLET_PAGES = 10;
+// ~400ms slots: how far before the launch a wallet's funding is looked for
+export const SLOTS_PER_DAY = 216_000;
+
+// Fetch parsed transactions for a wallet, newest first, following the `before`
+// cursor until the history reaches `notBeforeSlot` (or runs out / hits the page cap).
+// A failed first page throws so the wallet is reported; later failures keep what was fetched
+// and say so in `incomplete`.
 // Note: No type filter is applied because DEX interactions (e.g. pump.fun)
 // may be classified as 'UNKNOWN'. Filtering is done by mint address instead.
 
 const fetchWalletTransactions = async (
     walletAddress: string,
-    apiKey: string
-): Promise<HeliusTransaction[]> => {
-    try {
-        const res = await axios.get(
-            `${HELIUS_BASE}/v0/addresses/${walletAddress}/transactions`,
-            { params: { 'api-key': apiKey, limit: 100 } } // Increased limit to find funding
-        );
-        return res.data || [];
-    } catch (err: any) {
-        console.warn(`[Helius] Failed to fetch txs for ${walletAddress.slice(0, 8)}:`, err?.response?.status);
-        return [];
+    apiKey: string,
+    notBeforeSlot = 0
+): Promise<{ txs: HeliusTransaction[]; incomplete?: string }> => {
+    const txs: HeliusTransaction[] = [];
+    let before: string | undefined;
+
+    for (let page = 0; page < MAX_WALLET_PAGES; page++) {
+        try {
+            const res = await helius.schedule(() => http.get(
+                `${HELIUS_BASE}/v0/addresses/${walletAddress}/transactions`,
+                { params: { 'api-key': apiKey, limit: PAGE_SIZE, ...(before ? { before } : {}) } }
+            ));
+            const batch: HeliusTransaction[] = res.data || [];
+            txs.push(...batch);
+
+            const oldest = batch[batch.length - 1];
+            if (batch.length < PAGE_SIZE || (notBeforeSlot > 0 && oldest.slot < notBeforeSlot)) return { txs };
+            before = oldest.signature;
+        } catch (err: any) {
+            if (page === 0) throw err;
+            console.warn(`[Helius] Failed to fetch txs for ${walletAddress.slice(0, 8)} (page ${page + 1}):`, err?.response?.status);
+            return { txs, incomplete: `page ${page + 1}: ${describeError(err)}` };
+        }
     }
+
+    console.warn(`[Helius] ${walletAddress.slice(0, 8)}: stopped after ${MAX_WALLET_PAGES * PAGE_SIZE} txs; older history not fetched`);
+    return { txs };
 };
 
 // Get current token balance for a wallet via RPC
-// Supports both standard Token Program and Token-2022 Program
-
-
+// Supports both standard Token Program and Token-2022 Program.
+// Throws once retries are exhausted so callers can report the wallet.
 
 const getWalletTokenBalance = async (
     walletAddress: string,
     mintAddress: string,
     apiKey: string
 ): Promise<number> => {
-    try {
-        // Try standard Token Program first
-        const res = await axios.post(
-            `https://mainnet.helius-rpc.com/?api-key=${apiKey}`,
-            {
-                jsonrpc: '2.0',
-                id: 1,
-                method: 'getTokenAccountsByOwner',
-                params: [
-                    walletAddress,
-                    { mint: mintAddress },
-                    { encoding: 'jsonParsed' }
-                ],
-            }
-        );
-
-        const accounts = res.data?.result?.value || [];
-        if (accounts.length > 0) {
-            return parseFloat(accounts[0].account.data.parsed.info.tokenAmount.uiAmountString || '0');
+    // Try standard Token Program first
+    const res = await helius.schedule(() => http.post(
+        `https://mainnet.helius-rpc.com/?api-key=${apiKey}`,
+        {
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'getTokenAccountsByOwner',
+            params: [
+                walletAddress,
+                { mint: mintAddress },
+                { encoding: 'jsonParsed' }
+            ],
         }
+    ));
 
-        // If no accounts found, try Token2022 program
-        const res2022 = await axios.post(
-            `https://mainnet.helius-rpc.com/?api-key=${apiKey}`,
-            {
-                jsonrpc: '2.0',
-                id: 2,
-                method: 'getTokenAccountsByOwner',
-                params: [
-                    walletAddress,
-                    { mint: mintAddress },
-                    {
-                        encoding: 'jsonParsed',
-                        commitment: 'confirmed',
-                    }
-                ],
-            }
-        );
+    const accounts = res.data?.result?.value || [];
+    if (accounts.length > 0) {
+        return parseFloat(accounts[0].account.data.parsed.info.tokenAmount.uiAmountString || '0');
+    }
 
-        const accounts2022 = res2022.data?.result?.value || [];
-        if (accounts2022.length > 0) {
-            return parseFloat(accounts2022[0].account.data.parsed.info.tokenAmount.uiAmountString || '0');
+    // If no accounts found, try Token2022 program
+    const res2022 = await helius.schedule(() => http.post(
+        `https://mainnet.helius-rpc.com/?api-key=${apiKey}`,
+        {
+            jsonrpc: '2.0',
+            id: 2,
+            method: 'getTokenAccountsByOwner',
+            params: [
+                walletAddress,
+                { mint: mintAddress },
+                {
+                    encoding: 'jsonParsed',
+                    commitment: 'confirmed',
+                }
+            ],
         }
+    ));
 
-        return 0;
-    } catch (err: any) {
-        console.warn(`[Helius] Balance check failed for ${walletAddress.slice(0, 8)}:`, err?.response?.status);
-        return 0;
+    const accounts2022 = res2022.data?.result?.value || [];
+    if (accounts2022.length > 0) {
+        return parseFloat(accounts2022[0].account.data.parsed.info.tokenAmount.uiAmountString || '0');
     }
+
+    return 0;
 };
 
 // ───────────────────────────────────────────────
-// Batch balance check for multiple wallets
+// Token supply
 // ───────────────────────────────────────────────
 
-const batchGetBalances = async (
-    addresses: string[],
-    mintAddress: string,
-    apiKey: string,
-    batchSize: number = 5
-): Promise<Map<string, number>> => {
-    const balances = new Map<string, number>();
-
-    for (let i = 0; i < addresses.length; i += batchSize) {
-        const batch = addresses.slice(i, i + batchSize);
-        const results = await Promise.all(
-            batch.map(addr => getWalletTokenBalance(addr, mintAddress, apiKey))
-        );
-        batch.forEach((addr, idx) => balances.set(addr, results[idx]));
-        if (i + batchSize < addresses.length) await delay(50);
-    }
+// SPL burns shrink the mint's supply; tokens sent here are stuck instead
+const INCINERATOR = '1nc1nerator11111111111111111111111111111111';
+
+/** Mint supply (decimals applied) and the amount parked in the incinerator */
+export const getSplTokenSupply = async (mintAddress: string): Promise<{ totalSupply: number; burnedSupply: number } | null> => {
+    const apiKey = getApiKey();
+    if (!apiKey) return null;
+
+    const res = await helius.schedule(() => http.post(`https://mainnet.helius-rpc.com/?api-key=${apiKey}`, {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'getTokenSupply',
+        params: [mintAddress],
+    }));
+    const value = res.data?.result?.value;
+    if (!value) return null;
 
-    return balances;
+    return {
+        totalSupply: formatUnits(parseRawAmount(value.amount), value.decimals),
+        burnedSupply: await getWalletTokenBalance(INCINERATOR, mintAddress, apiKey),
+    };
 };
 
 // ───────────────────────────────────────────────
@@ -214,17 +243,33 @@ const batchGetBalances = async (
 
 export const traceDistributionTree = async (
     seedAddresses: string[],
-    mintAddress: string
-): Promise<HeliusWalletData[]> => {
+    mintAddress: string,
+    launchSlot?: number
+): Promise<DistributionTrace> => {
     const apiKey = getApiKey();
     if (!apiKey) {
         console.warn('[Helius] No API key configured');
-        return [];
+        return { wallets: [], failedWallets: [] };
     }
 
+    // Page back through each wallet's history far enough to see its funding before launch
+    const notBeforeSlot = launchSlot ? launchSlot - SLOTS_PER_DAY : 0;
+
     const MAX_TOTAL_WALLETS = 400;
     const knownAddresses = new Set<string>();
     const results: HeliusWalletData[] = [];
+    const failedWallets: FailedWallet[] = [];
+
+    // Each level's wallets are fetched concurrently; the Helius scheduler paces the requests
+    const traceLevel = async (wallets: string[], depth: number, fetch: (wallet: string) => Promise<HeliusWalletData>) => {
+        wallets.forEach(w => knownAddresses.add(w));
+        const { fulfilled, failed } = await settleEach(wallets, fetch);
+        results.push(...fulfilled);
+        failed.forEach(({ item, reason }) => {
+            console.warn(`[Helius] L${depth} ${item.slice(0, 8)} failed: ${reason}`);
+            failedWallets.push({ address: item, traceDepth: depth, reason });
+        });
+    };
 
     console.log(`[Helius] ═══ DISTRIBUTION TREE TRACE (DEEP SCAN) ═══`);
     console.log(`[Helius] Mint: ${mintAddress}`);
@@ -233,17 +278,12 @@ export const traceDistributionTree = async (
     // ── LEVEL 0: Full analysis of seed wallets ──
     console.log(`[Helius] ── Level 0: Analyzing ${seedAddresses.length} seed wallets (block 0-5 buyers)...`);
 
-    for (const wallet of seedAddresses) {
-        if (isExcludedAddress(wallet)) {
-            console.log(`[Helius] Skipping excluded seed: ${wallet.slice(0, 8)}...`);
-            continue;
-        }
-        knownAddresses.add(wallet);
-
-        const walletData = await fetchFullWalletData(wallet, mintAddress, apiKey, true, 0);
-        results.push(walletData);
-        await delay(50);
-    }
+    const seeds = seedAddresses.filter(wallet => {
+        if (!isExcludedAddress(wallet)) return true;
+        console.log(`[Helius] Skipping excluded seed: ${wallet.slice(0, 8)}...`);
+        return false;
+    });
+    await traceLevel(seeds, 0, wallet => fetchFullWalletData(wallet, mintAddress, apiKey, true, 0, notBeforeSlot));
 
     console.log(`[Helius] Level 0 complete: ${results.length} seed wallets analyzed`);
 
@@ -252,7 +292,7 @@ export const traceDistributionTree = async (
 
     results.forEach(w => {
         w.outgoingTransfers.forEach(t => {
-            if (!knownAddresses.has(t.to) && !isExcludedAddress(t.to)) {
+            if (!t.custody && !knownAddresses.has(t.to) && !isExcludedAddress(t.to)) {
                 level1Addresses.add(t.to);
             }
         });
@@ -260,16 +300,8 @@ export const traceDistributionTree = async (
 
     console.log(`[Helius] ── Level 1: Found ${level1Addresses.size} distribution recipients from seed wallets`);
 
-    const level1Array = [...level1Addresses].slice(0, Math.min(level1Addresses.size, MAX_TOTAL_WALLETS - results.length));
-
-    for (const wallet of level1Array) {
-        if (results.length >= MAX_TOTAL_WALLETS) break;
-        knownAddresses.add(wallet);
-
-        const walletData = await fetchTransferWalletData(wallet, mintAddress, apiKey, 1);
-        results.push(walletData);
-        await delay(50);
-    }
+    const level1Array = [...level1Addresses].slice(0, Math.max(0, MAX_TOTAL_WALLETS - results.length));
+    await traceLevel(level1Array, 1, wallet => fetchTransferWalletData(wallet, mintAddress, apiKey, 1, notBeforeSlot));
 
     console.log(`[Helius] Level 1 complete: ${level1Array.length} wallets analyzed | Total: ${results.length}`);
 
@@ -281,7 +313,7 @@ export const traceDistributionTree = async (
 
     level1Results.forEach(w => {
         w.outgoingTransfers.forEach(t => {
-            if (!knownAddresses.has(t.to) && !isExcludedAddress(t.to)) {
+            if (!t.custody && !knownAddresses.has(t.to) && !isExcludedAddress(t.to)) {
                 level2Addresses.add(t.to);
             }
         });
@@ -289,18 +321,11 @@ export const traceDistributionTree = async (
 
     console.log(`[Helius] ── Level 2: Found ${level2Addresses.size} secondary distribution recipients`);
 
-    const level2Array = [...level2Addresses].slice(0, Math.min(level2Addresses.size, MAX_TOTAL_WALLETS - results.length));
+    const level2Array = [...level2Addresses].slice(0, Math.max(0, MAX_TOTAL_WALLETS - results.length));
 
     // For Level 2, we now do a FULL fetch (transfers + balance) instead of just balance
     // This allows us to find Level 3 recipients
-    for (const wallet of level2Array) {
-        if (results.length >= MAX_TOTAL_WALLETS) break;
-        knownAddresses.add(wallet);
-
-        const walletData = await fetchTransferWalletData(wallet, mintAddress, apiKey, 2);
-        results.push(walletData);
-        await delay(50);
-    }
+    await traceLevel(level2Array, 2, wallet => fetchTransferWalletData(wallet, mintAddress, apiKey, 2, notBeforeSlot));
 
     console.log(`[Helius] Level 2 complete: ${level2Array.length} wallets analyzed | Total: ${results.length}`);
 
@@ -312,7 +337,7 @@ export const traceDistributionTree = async (
 
     level2Results.forEach(w => {
         w.outgoingTransfers.forEach(t => {
-            if (!knownAddresses.has(t.to) && !isExcludedAddress(t.to)) {
+            if (!t.custody && !knownAddresses.has(t.to) && !isExcludedAddress(t.to)) {
                 level3Addresses.add(t.to);
             }
         });
@@ -320,28 +345,21 @@ export const traceDistributionTree = async (
 
     console.log(`[Helius] ── Level 3: Found ${level3Addresses.size} tertiary distribution recipients`);
 
-    const level3Array = [...level3Addresses].slice(0, Math.min(level3Addresses.size, MAX_TOTAL_WALLETS - results.length));
+    const level3Array = [...level3Addresses].slice(0, Math.max(0, MAX_TOTAL_WALLETS - results.length));
 
     if (level3Array.length > 0) {
-        console.log(`[Helius] Level 3: Batch-checking balances for ${level3Array.length} wallets...`);
+        console.log(`[Helius] Level 3: Checking balances for ${level3Array.length} wallets...`);
         // Level 3 is the end of the line (for now) -> Balance check only
-        const level3Balances = await batchGetBalances(level3Array, mintAddress, apiKey);
-
-        for (const [addr, balance] of level3Balances) {
-            if (results.length >= MAX_TOTAL_WALLETS) break;
-            knownAddresses.add(addr);
-
-            results.push({
-                address: addr,
-                buys: [],
-                sells: [],
-                outgoingTransfers: [],
-                incomingTransfers: [],
-                currentBalance: balance,
-                isSeedWallet: false,
-                traceDepth: 3,
-            });
-        }
+        await traceLevel(level3Array, 3, async wallet => ({
+            address: wallet,
+            buys: [],
+            sells: [],
+            outgoingTransfers: [],
+            incomingTransfers: [],
+            currentBalance: await getWalletTokenBalance(wallet, mintAddress, apiKey),
+            isSeedWallet: false,
+            traceDepth: 3,
+        }));
     }
 
     // ── Summary ──
@@ -351,10 +369,10 @@ export const traceDistributionTree = async (
     const l3Count = results.filter(r => r.traceDepth === 3).length;
     const totalBalance = results.reduce((s, r) => s + r.currentBalance, 0);
     console.log(`[Helius] ═══ TRACE COMPLETE ═══`);
-    console.log(`[Helius] Total: ${results.length} wallets | L0: ${seedCount}, L1: ${l1Count}, L2: ${l2Count}, L3: ${l3Count}`);
+    console.log(`[Helius] Total: ${results.length} wallets | L0: ${seedCount}, L1: ${l1Count}, L2: ${l2Count}, L3: ${l3Count}${failedWallets.length > 0 ? ` | ${failedWallets.length} failed` : ''}`);
     console.log(`[Helius] Total token balance across all traced wallets: ${totalBalance.toLocaleString()}`);
 
-    return results;
+    return { wallets: results, failedWallets };
 };
 
 // Legacy export alias for backward compatibility
@@ -370,11 +388,12 @@ const fetchFullWalletData = async (
     mintAddress: string,
     apiKey: string,
     isSeed: boolean,
-    depth: number
+    depth: number,
+    notBeforeSlot: number
 ): Promise<HeliusWalletData> => {
     // Fetch ALL parsed transactions + current balance in parallel
-    const [allTxs, currentBalance] = await Promise.all([
-        fetchWalletTransactions(wallet, apiKey),
+    const [{ txs: allTxs, incomplete }, currentBalance] = await Promise.all([
+        fetchWalletTransactions(wallet, apiKey, notBeforeSlot),
         getWalletTokenBalance(wallet, mintAddress, apiKey),
     ]);
 
@@ -397,6 +416,7 @@ const fetchFullWalletData = async (
         isSeedWallet: isSeed,
         traceDepth: depth,
         fundingSource,
+        ...(incomplete && { incomplete }),
     };
 };
 
@@ -408,11 +428,12 @@ const fetchTransferWalletData = async (
     wallet: string,
     mintAddress: string,
     apiKey: string,
-    depth: number
+    depth: number,
+    notBeforeSlot: number
 ): Promise<HeliusWalletData> => {
     // Fetch ALL transactions + balance
-    const [allTxs, currentBalance] = await Promise.all([
-        fetchWalletTransactions(wallet, apiKey),
+    const [{ txs: allTxs, incomplete }, currentBalance] = await Promise.all([
+        fetchWalletTransactions(wallet, apiKey, notBeforeSlot),
         getWalletTokenBalance(wallet, mintAddress, apiKey),
     ]);
 
@@ -432,6 +453,7 @@ const fetchTransferWalletData = async (
         isSeedWallet: false,
         traceDepth: depth,
         fundingSource,
+        ...(incomplete && { incomplete }),
     };
 };
 
@@ -478,12 +500,35 @@ const traceFundingSource = (
         address: sender,
         amount: transfer.amount,
         timestamp: best.timestamp,
-        isCex
+        isCex,
+        signature: best.signature
     };
 };
 
 // ── Parsing helpers ──
 
+const WRAPPED_SOL_MINT = 'So11111111111111111111111111111111111111112';
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+/**
+ * SOL the wallet paid and received in a transaction. Wrapped-SOL transfers win over
+ * native ones, which in a swap are mostly the wrap/unwrap of the same amount.
+ */
+const solFlow = (tx: HeliusTransaction, wallet: string): { paid: number; received: number } => {
+    const wrapped = (tx.tokenTransfers || []).filter(tt => tt.mint === WRAPPED_SOL_MINT && tt.fromUserAccount !== tt.toUserAccount);
+    if (wrapped.length > 0) {
+        return {
+            paid: wrapped.filter(tt => tt.fromUserAccount === wallet).reduce((sum, tt) => sum + tt.tokenAmount, 0),
+            received: wrapped.filter(tt => tt.toUserAccount === wallet).reduce((sum, tt) => sum + tt.tokenAmount, 0),
+        };
+    }
+    const native = (tx.nativeTransfers || []).filter(nt => nt.fromUserAccount !== nt.toUserAccount);
+    return {
+        paid: native.filter(nt => nt.fromUserAccount === wallet).reduce((sum, nt) => sum + nt.amount, 0) / LAMPORTS_PER_SOL,
+        received: native.filter(nt => nt.toUserAccount === wallet).reduce((sum, nt) => sum + nt.amount, 0) / LAMPORTS_PER_SOL,
+    };
+};
+
 const parseSwaps = (
     allTxs: HeliusTransaction[],
     wallet: string,
@@ -500,22 +545,37 @@ const parseSwaps = (
         const isSwapLike = tx.type === 'SWAP' || tx.type === 'UNKNOWN' || tx.source === 'PUMP_FUN';
         if (!isSwapLike) return;
 
-        tx.tokenTransfers.forEach(tt => {
-            if (tt.mint !== mintAddress) return;
-            if (tt.tokenAmount <= 0) return;
-
-            if (tt.toUserAccount === wallet && tt.fromUserAccount !== wallet) {
-                buys.push({ tokenAmount: tt.tokenAmount, timestamp: tx.timestamp });
-            } else if (tt.fromUserAccount === wallet && tt.toUserAccount !== wallet) {
-                sells.push({ tokenAmount: tt.tokenAmount, timestamp: tx.timestamp });
-            }
-        });
+        const legs = tx.tokenTransfers.filter(tt => tt.mint === mintAddress && tt.tokenAmount > 0);
+        const bought = legs.filter(tt => tt.toUserAccount === wallet && tt.fromUserAccount !== wallet);
+        const sold = legs.filter(tt => tt.fromUserAccount === wallet && tt.toUserAccount !== wallet);
+        if (bought.length === 0 && sold.length === 0) return;
+
+        // The transaction's SOL side is shared across its legs by token amount
+        const { paid, received } = solFlow(tx, wallet);
+        const boughtTotal = bought.reduce((sum, tt) => sum + tt.tokenAmount, 0);
+        const soldTotal = sold.reduce((sum, tt) => sum + tt.tokenAmount, 0);
+
+        bought.forEach(tt => buys.push({
+            tokenAmount: tt.tokenAmount,
+            timestamp: tx.timestamp,
+            ...(paid > 0 && { quoteAmount: paid * tt.tokenAmount / boughtTotal }),
+        }));
+        sold.forEach(tt => sells.push({
+            tokenAmount: tt.tokenAmount,
+            timestamp: tx.timestamp,
+            ...(received > 0 && { quoteAmount: received * tt.tokenAmount / soldTotal }),
+        }));
     });
 
     return { buys, sells };
 };
 
-const parseTransfers = (
+/**
+ * The wallet's token movements of `mintAddress` that are not swaps. Sends to a burn
+ * address or locker carry `custody`; an SPL burn has no destination at all, so it is
+ * classified before the exclusion filter would drop it as a too-short address.
+ */
+export const parseTransfers = (
     allTxs: HeliusTransaction[],
     wallet: string,
     mintAddress: string
@@ -525,6 +585,7 @@ const parseTransfers = (
 
     allTxs.forEach(tx => {
         if (!tx.tokenTransfers || tx.tokenTransfers.length === 0) return;
+        const locksTokens = (tx.instructions || []).some(ix => isLockerProgram(ix.programId));
 
         // A "transfer" is a direct token send (TRANSFER type) or any non-swap movement
         // For distribution tracing, we care about ALL token movements of the target mint
@@ -535,6 +596,15 @@ const parseTransfers = (
             // Skip if both sides are the same wallet (self-transfer)
             if (tt.fromUserAccount === tt.toUserAccount) return;
 
+            if (tt.fromUserAccount === wallet) {
+                // Streamflow-style lockers escrow into per-lock accounts, so match the program too
+                const custody = !tt.toUserAccount ? 'burned' : custodyOf(tt.toUserAccount) ?? (locksTokens ? 'locked' : undefined);
+                if (custody) {
+                    outgoingTransfers.push({ to: tt.toUserAccount, tokenAmount: tt.tokenAmount, timestamp: tx.timestamp, custody });
+                    return;
+                }
+            }
+
             // Skip excluded addresses (DEX pools, programs)
             if (isExcludedAddress(tt.fromUserAccount) || isExcludedAddress(tt.toUserAccount)) return;
 
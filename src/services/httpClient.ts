@@ -0,0 +1,11 @@
+import axios from 'axios';
+
+// ───────────────────────────────────────────────
+// Shared HTTP client for every data provider
+// ───────────────────────────────────────────────
+
+/**
+ * All provider services issue requests through this instance rather than the
+ * global axios, so fixture record/replay (see fixtureMode.ts) can swap its adapter.
+ */
+export const http = axios.create();
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateLiquidity, isThinPool } from './liquidity';
+import { LiquidityPair } from '../lib/mockData';
+
+const pool = (pairAddress: string, liquidityUSD: number, volume24hUSD = 0): LiquidityPair => ({
+    dexName: 'raydium', pairAddress, liquidityUSD, volume24hUSD, baseTokenSymbol: 'TKN', quoteTokenSymbol: 'SOL',
+});
+
+describe('aggregateLiquidity', () => {
+    it('sums depth across every pool of the token', () => {
+        const { summary } = aggregateLiquidity([pool('A', 60_000), pool('B', 30_000), pool('C', 10_000)]);
+        expect(summary).toEqual({ totalUSD: 100_000, topPairUSD: 60_000, pairCount: 3, thinPoolCount: 0 });
+    });
+
+    it('flags tiny pools that trade far more than their depth', () => {
+        const { pairs, summary } = aggregateLiquidity([
+            pool('Deep', 200_000, 2_000_000),   // heavy volume, but deep
+            pool('Wash', 4_000, 90_000),        // 2% of depth, 22x turnover
+            pool('Quiet', 3_000, 1_000),        // tiny but barely traded
+        ]);
+        expect(pairs.map(p => p.isThinPool)).toEqual([false, true, false]);
+        expect(summary.thinPoolCount).toBe(1);
+    });
+
+    it('applies an absolute floor when the token has a single pool', () => {
+        expect(isThinPool(pool('Only', 500, 10_000), 500)).toBe(true);
+        expect(isThinPool(pool('Only', 50_000, 10_000_000), 50_000)).toBe(false);
+        expect(aggregateLiquidity([]).summary).toEqual({ totalUSD: 0, topPairUSD: 0, pairCount: 0, thinPoolCount: 0 });
+    });
+});
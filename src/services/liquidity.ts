@@ -0,0 +1,33 @@
+import { LiquidityPair, LiquiditySummary } from '../lib/mockData';
+
+// ───────────────────────────────────────────────
+// Liquidity aggregation across a token's pools
+// ───────────────────────────────────────────────
+
+/** A pool is tiny below this share of the token's total depth... */
+const THIN_POOL_SHARE = 0.05;
+/** ...or below this much liquidity outright */
+const THIN_POOL_MIN_USD = 1_000;
+/** A tiny pool is flagged when its 24h volume is at least this multiple of its liquidity */
+const THIN_POOL_TURNOVER = 5;
+
+export const isThinPool = (pair: LiquidityPair, totalUSD: number): boolean => {
+    const tiny = pair.liquidityUSD < THIN_POOL_MIN_USD || (totalUSD > 0 && pair.liquidityUSD / totalUSD < THIN_POOL_SHARE);
+    return tiny && (pair.volume24hUSD || 0) >= Math.max(pair.liquidityUSD, 1) * THIN_POOL_TURNOVER;
+};
+
+/** Flag thin pools and sum depth across every pair of the token */
+export const aggregateLiquidity = (pairs: LiquidityPair[]): { pairs: LiquidityPair[]; summary: LiquiditySummary } => {
+    const totalUSD = pairs.reduce((sum, p) => sum + p.liquidityUSD, 0);
+    const flagged = pairs.map(p => ({ ...p, isThinPool: isThinPool(p, totalUSD) }));
+
+    return {
+        pairs: flagged,
+        summary: {
+            totalUSD,
+            topPairUSD: pairs.reduce((max, p) => Math.max(max, p.liquidityUSD), 0),
+            pairCount: pairs.length,
+            thinPoolCount: flagged.filter(p => p.isThinPool).length,
+        },
+    };
+};
@@ -0,0 +1,88 @@
+import { searchAllPairs } from './dexScreener';
+import { checkTokenSecurity } from './goPlus';
+import { getTokenForensics, isEvmChain, isSolanaChain } from './moralisService';
+import { traceDistributionTree, getSplTokenSupply } from './heliusService';
+import { getPumpFunLaunch, isPumpFunToken } from './pumpFunService';
+import { readEnv } from '../lib/env';
+import {
+    MarketDataProvider,
+    SecurityProvider,
+    ForensicsProvider,
+    DistributionTracer,
+    LaunchpadProvider,
+    SupplyProvider,
+    ProviderRegistry,
+} from './providers';
+
+// ───────────────────────────────────────────────
+// Live providers backed by the public APIs
+// ───────────────────────────────────────────────
+
+export const dexScreenerProvider: MarketDataProvider = {
+    name: 'dexscreener',
+    searchPairs: searchAllPairs,
+};
+
+export const goPlusProvider: SecurityProvider = {
+    name: 'goplus',
+    checkTokenSecurity,
+};
+
+export const moralisProvider: ForensicsProvider = {
+    name: 'moralis',
+    isConfigured: () => !!readEnv('VITE_MORALIS_API_KEY'),
+    getTokenForensics,
+};
+
+export const heliusTracer: DistributionTracer = {
+    name: 'helius',
+    supportsChain: isSolanaChain,
+    isConfigured: () => !!readEnv('VITE_HELIUS_API_KEY'),
+    traceDistributionTree: (seedAddresses, tokenAddress, _chainId, context) => traceDistributionTree(seedAddresses, tokenAddress, context?.launchBlock),
+};
+
+export const alchemyTracer: DistributionTracer = {
+    name: 'alchemy',
+    supportsChain: isEvmChain,
+    isConfigured: () => !!readEnv('VITE_ALCHEMY_API_KEY'),
+    traceDistributionTree: async (seedAddresses, tokenAddress, chainId, context) => {
+        // Dynamic import to keep Alchemy as an optional dependency
+        const { traceEvmDistributionTree } = await import('./alchemyService');
+        return traceEvmDistributionTree(seedAddresses, tokenAddress, chainId, context?.pairAddresses);
+    },
+};
+
+export const heliusSupply: SupplyProvider = {
+    name: 'helius',
+    supportsChain: isSolanaChain,
+    isConfigured: () => !!readEnv('VITE_HELIUS_API_KEY'),
+    getTokenSupply: (_chainId, tokenAddress) => getSplTokenSupply(tokenAddress),
+};
+
+export const alchemySupply: SupplyProvider = {
+    name: 'alchemy',
+    supportsChain: isEvmChain,
+    isConfigured: () => !!readEnv('VITE_ALCHEMY_API_KEY'),
+    getTokenSupply: async (chainId, tokenAddress) => {
+        const { getEvmTokenSupply } = await import('./alchemyService');
+        return getEvmTokenSupply(tokenAddress, chainId);
+    },
+};
+
+export const pumpFunProvider: LaunchpadProvider = {
+    name: 'pump.fun',
+    isConfigured: () => !!readEnv('VITE_HELIUS_API_KEY'),
+    isLaunchpadToken: isPumpFunToken,
+    getLaunch: getPumpFunLaunch,
+};
+
+/** Registry with every live provider; pass overrides to swap individual ones */
+export const createProviderRegistry = (overrides: Partial<ProviderRegistry> = {}): ProviderRegistry => ({
+    market: dexScreenerProvider,
+    security: goPlusProvider,
+    forensics: moralisProvider,
+    tracers: [heliusTracer, alchemyTracer],
+    supply: [heliusSupply, alchemySupply],
+    launchpad: pumpFunProvider,
+    ...overrides,
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { getTokenForensics } from './moralisService';
+import { startReplay, stopReplay, FIXTURE_BUNDLE_VERSION, type FixtureEntry } from './fixtureMode';
+
+const MINT = 'MintPaged1111111111111111111111111111111111';
+const SWAPS = `https://solana-gateway.moralis.io/token/mainnet/${MINT}/swaps`;
+
+const entry = (url: string, data: unknown): FixtureEntry => ({ key: `GET ${url}`, method: 'GET', url, status: 200, data });
+
+const buy = (slot: number, wallet: string) => ({
+    transactionHash: `tx-${wallet}`, blockNumber: slot, walletAddress: wallet,
+    transactionType: 'buy', bought: { amount: '1000' }, totalValueUsd: '10',
+});
+
+const replay = (entries: FixtureEntry[]) => startReplay({
+    version: FIXTURE_BUNDLE_VERSION, recordedAt: '', configuredKeys: ['VITE_MORALIS_API_KEY'], entries,
+});
+
+describe('getTokenForensics (Solana paging)', () => {
+    it('follows the swap cursor until the early window is covered', async () => {
+        const page1 = Array.from({ length: 100 }, (_, i) => buy(1000 + (i < 60 ? 0 : 3), `w${i}`));
+        replay([
+            entry(`${SWAPS}?limit=100&order=ASC`, { result: page1, cursor: 'c1' }),
+            entry(`${SWAPS}?cursor=c1&limit=100&order=ASC`, { result: [buy(1010, 'late1'), buy(1030, 'late2')], cursor: 'c2' }),
+            entry(`https://solana-gateway.moralis.io/token/mainnet/${MINT}/top-holders`, { result: [] }),
+        ]);
+
+        const forensics = await getTokenForensics('solana', MINT);
+        const { misses } = stopReplay();
+
+        expect(forensics?.creationBlock).toBe(1000);
+        expect(forensics?.block0Transfers).toHaveLength(100);
+        expect(forensics?.earlyTransfers.map(t => t.buyerAddress)).toContain('late1');
+        expect(forensics?.earlyTransfers.map(t => t.buyerAddress)).not.toContain('late2');
+        expect(forensics?.failedEndpoints).toBeUndefined();
+        // Page 2 already passed creation + 20 slots, so page 3 is never requested
+        expect(misses).toEqual([]);
+    });
+
+    it('keeps earlier pages when a later page fails, and reports the gap', async () => {
+        const page1 = Array.from({ length: 100 }, (_, i) => buy(2000, `w${i}`));
+        replay([
+            entry(`${SWAPS}?limit=100&order=ASC`, { result: page1, cursor: 'c1' }),
+            entry(`https://solana-gateway.moralis.io/token/mainnet/${MINT}/top-holders`, { result: [] }),
+        ]);
+
+        const forensics = await getTokenForensics('solana', MINT);
+        stopReplay();
+
+        expect(forensics?.block0Transfers).toHaveLength(100);
+        expect(forensics?.failedEndpoints).toEqual(['swaps page 2']);
+    });
+});
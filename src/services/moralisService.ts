@@ -1,4 +1,7 @@
-import axios from 'axios';
+import { http } from './httpClient';
+import { readEnv } from '../lib/env';
+import { formatUnits, parseRawAmount } from '../lib/units';
+import { providerScheduler } from './requestScheduler';
 
 // ───────────────────────────────────────────────
 // Moralis API Base URLs
@@ -17,6 +20,8 @@ export interface ForensicData {
     earlyTransfers: NormalizedTransfer[];
     creationBlock: number;
     chain: string;
+    /** Endpoints (or later pages of one) that failed while others answered, e.g. ['swaps page 2']: the data is partial */
+    failedEndpoints?: string[];
 }
 
 /** A normalized transfer/swap — same shape regardless of chain */
@@ -51,8 +56,52 @@ const mapChainToMoralisHex = (chainId: string): string => {
     return map[chainId] || '0x1';
 };
 
-const isEvmChain = (chainId: string): boolean => EVM_CHAINS.includes(chainId);
-const isSolanaChain = (chainId: string): boolean => chainId === 'solana';
+export const isEvmChain = (chainId: string): boolean => EVM_CHAINS.includes(chainId);
+export const isSolanaChain = (chainId: string): boolean => chainId === 'solana';
+export const SUPPORTED_CHAINS = ['solana', ...EVM_CHAINS];
+
+// ───────────────────────────────────────────────
+// Pagination
+// ───────────────────────────────────────────────
+const MAX_PAGES = 10;
+const moralis = providerScheduler('moralis');
+// Early-buy windows past the creation slot/block; paging stops once they are covered
+const SOLANA_EARLY_SLOTS = 20;
+const EVM_EARLY_BLOCKS = 5;
+
+/**
+ * Follow an oldest-first Moralis list through its `cursor` until an item lies more than
+ * `windowBlocks` past the first one. A failing first page throws; a later failure keeps
+ * what was fetched and reports the page in `failedPage` so the gap is not silent.
+ */
+const fetchLaunchWindow = async (
+    url: string,
+    params: Record<string, unknown>,
+    headers: Record<string, string>,
+    blockOf: (item: any) => number,
+    windowBlocks: number
+): Promise<{ items: any[]; failedPage?: number }> => {
+    const items: any[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+        try {
+            const res = await moralis.schedule(() => http.get(url, { params: { ...params, ...(cursor ? { cursor } : {}) }, headers }));
+            const batch: any[] = res.data?.result || [];
+            items.push(...batch);
+            cursor = res.data?.cursor || undefined;
+            if (!cursor || batch.length === 0) return { items };
+            if (blockOf(batch[batch.length - 1]) > blockOf(items[0]) + windowBlocks) return { items };
+        } catch (err) {
+            if (page === 0) throw err;
+            console.warn(`[Moralis] Page ${page + 1} failed; launch window may be incomplete`);
+            return { items, failedPage: page + 1 };
+        }
+    }
+
+    console.warn(`[Moralis] Launch window not covered after ${MAX_PAGES} pages`);
+    return { items };
+};
 
 // ───────────────────────────────────────────────
 // MAIN ENTRY POINT
@@ -62,9 +111,7 @@ export const getTokenForensics = async (
     chainId: string,
     tokenAddress: string
 ): Promise<ForensicData | null> => {
-    const apiKey = (typeof import.meta !== 'undefined' && import.meta.env)
-        ? import.meta.env.VITE_MORALIS_API_KEY
-        : process.env.VITE_MORALIS_API_KEY;
+    const apiKey = readEnv('VITE_MORALIS_API_KEY');
     if (!apiKey) {
         console.error('[Moralis] Missing VITE_MORALIS_API_KEY');
         return null;
@@ -91,34 +138,46 @@ const fetchSolanaForensics = async (
     apiKey: string
 ): Promise<ForensicData | null> => {
     const headers = { 'X-API-Key': apiKey, 'accept': 'application/json' };
+    const failedEndpoints: string[] = [];
+    let firstError: unknown;
 
     try {
         // ── 1. Fetch swap history (oldest first → find launch buys) ──
         let swaps: any[] = [];
+        let swapsFailedPage: number | undefined;
         try {
-            const swapsRes = await axios.get(
+            ({ items: swaps, failedPage: swapsFailedPage } = await fetchLaunchWindow(
                 `${SOLANA_BASE_URL}/token/mainnet/${tokenAddress}/swaps`,
-                { params: { order: 'ASC', limit: 100 }, headers }
-            );
-            swaps = swapsRes.data?.result || [];
+                { order: 'ASC', limit: 100 }, headers,
+                swap => Number(swap.blockNumber || 0), SOLANA_EARLY_SLOTS
+            ));
             console.log(`[Moralis Solana] Fetched ${swaps.length} swaps`);
         } catch (err: any) {
             console.warn('[Moralis Solana] Swap endpoint error:', err?.response?.status, err?.response?.data?.message || '');
+            failedEndpoints.push('swaps');
+            firstError ??= err;
         }
 
         // ── 2. Fetch top holders ──
         let holders: any[] = [];
         try {
-            const holdersRes = await axios.get(
+            const holdersRes = await moralis.schedule(() => http.get(
                 `${SOLANA_BASE_URL}/token/mainnet/${tokenAddress}/top-holders`,
                 { headers }
-            );
+            ));
             holders = holdersRes.data?.result || [];
             console.log(`[Moralis Solana] Fetched ${holders.length} holders`);
         } catch (err: any) {
             console.warn('[Moralis Solana] Top-holders endpoint error:', err?.response?.status, err?.response?.data?.message || '');
+            failedEndpoints.push('top-holders');
+            firstError ??= err;
         }
 
+        // Nothing answered: report the failure rather than an empty (clean-looking) result
+        if (failedEndpoints.length === 2) throw firstError;
+        if (swapsFailedPage) failedEndpoints.push(`swaps page ${swapsFailedPage}`);
+        const partial = failedEndpoints.length > 0 ? { failedEndpoints } : {};
+
         if (swaps.length === 0 && holders.length === 0) {
             console.warn('[Moralis Solana] No data returned for this token.');
             return {
@@ -127,6 +186,7 @@ const fetchSolanaForensics = async (
                 earlyTransfers: [],
                 creationBlock: 0,
                 chain: 'solana',
+                ...partial,
             };
         }
 
@@ -163,6 +223,7 @@ const fetchSolanaForensics = async (
                 earlyTransfers: [],
                 creationBlock: 0,
                 chain: 'solana',
+                ...partial,
             };
         }
 
@@ -172,7 +233,7 @@ const fetchSolanaForensics = async (
         const block0Transfers = buySwaps.filter(s => s.blockNumber <= creationSlot + 4);
 
         // Early transfers = wider context window (~8 seconds)
-        const earlyTransfers = buySwaps.filter(s => s.blockNumber <= creationSlot + 20);
+        const earlyTransfers = buySwaps.filter(s => s.blockNumber <= creationSlot + SOLANA_EARLY_SLOTS);
 
         console.log(`[Moralis Solana] Creation slot: ${creationSlot} | Block 0-2 buys: ${block0Transfers.length} | Early buys (0-20): ${earlyTransfers.length}`);
 
@@ -182,10 +243,11 @@ const fetchSolanaForensics = async (
             earlyTransfers,
             creationBlock: creationSlot,
             chain: 'solana',
+            ...partial,
         };
     } catch (e: any) {
         console.error('[Moralis Solana] Fatal error:', e?.response?.data || e.message);
-        return null;
+        throw e;
     }
 };
 
@@ -213,30 +275,30 @@ const fetchEvmForensics = async (
         const headers = { 'X-API-Key': apiKey, 'accept': 'application/json' };
 
         // Parallel fetch: holders + transfers
-        const [holdersRes, transfersRes] = await Promise.all([
-            axios.get(`${EVM_BASE_URL}/erc20/${tokenAddress}/owners`, {
+        const [holdersRes, { items: rawTransfers, failedPage }] = await Promise.all([
+            moralis.schedule(() => http.get(`${EVM_BASE_URL}/erc20/${tokenAddress}/owners`, {
                 params: { chain, limit: 20, order: 'DESC' }, headers,
-            }),
-            axios.get(`${EVM_BASE_URL}/erc20/${tokenAddress}/transfers`, {
-                params: { chain, limit: 100, order: 'ASC' }, headers,
-            }),
+            })),
+            fetchLaunchWindow(
+                `${EVM_BASE_URL}/erc20/${tokenAddress}/transfers`,
+                { chain, limit: 100, order: 'ASC' }, headers,
+                tx => Number(tx.block_number || 0), EVM_EARLY_BLOCKS
+            ),
         ]);
 
-        const rawTransfers = transfersRes.data.result || [];
         const rawHolders = holdersRes.data.result || [];
 
         // Normalize EVM holders
         const holders: NormalizedHolder[] = rawHolders.slice(0, 20).map((h: any) => ({
             address: (h.owner_address || '').toLowerCase(),
-            balance: parseFloat(h.balance || '0') / (10 ** parseInt(h.token_decimals || '18')),
+            balance: formatUnits(parseRawAmount(h.balance), parseInt(h.token_decimals || '18')),
             percentage: parseFloat(h.percentage_relative || h.percentage || '0'),
             usdValue: 0, // EVM endpoint doesn't provide USD value directly
         }));
 
         // Normalize EVM transfers
         const normalizedTransfers: NormalizedTransfer[] = rawTransfers.map((tx: any) => {
-            const decimals = parseInt(tx.token_decimals || '18');
-            const tokenAmount = parseFloat(tx.value || '0') / (10 ** decimals);
+            const tokenAmount = formatUnits(parseRawAmount(tx.value), parseInt(tx.token_decimals || '18'));
             return {
                 txHash: tx.transaction_hash || '',
                 blockNumber: Number(tx.block_number || 0),
@@ -256,13 +318,14 @@ const fetchEvmForensics = async (
         // Launch window = creation block + next 2 blocks (~24-36 seconds on ETH)
         const block0Transfers = normalizedTransfers.filter(t => t.blockNumber <= creationBlock + 2);
         // Early transfers = wider context window
-        const earlyTransfers = normalizedTransfers.filter(t => t.blockNumber <= creationBlock + 5);
+        const earlyTransfers = normalizedTransfers.filter(t => t.blockNumber <= creationBlock + EVM_EARLY_BLOCKS);
 
         console.log(`[Moralis EVM] Creation block: ${creationBlock} | Launch window (0-2): ${block0Transfers.length} | Early (0-5): ${earlyTransfers.length} | Holders: ${holders.length}`);
 
-        return { holders, block0Transfers, earlyTransfers, creationBlock, chain: chainId };
+        const partial = failedPage ? { failedEndpoints: [`transfers page ${failedPage}`] } : {};
+        return { holders, block0Transfers, earlyTransfers, creationBlock, chain: chainId, ...partial };
     } catch (e: any) {
         console.error('[Moralis EVM] Forensic scan failed:', e?.response?.data || e.message);
-        return null;
+        throw e;
     }
 };
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { simulateSell, simulateClusterExits } from './priceImpact';
+import { LiquidityPair, BundleControlResult, BundleCluster } from '../lib/mockData';
+
+const pool = (baseReserve: number, isConcentrated = false): LiquidityPair => ({
+    dexName: 'dex', pairAddress: `P${baseReserve}`, liquidityUSD: 0, baseTokenSymbol: 'TKN', quoteTokenSymbol: 'SOL', baseReserve, isConcentrated,
+});
+
+describe('simulateSell', () => {
+    it('follows the constant-product curve', () => {
+        // Doubling the base reserve halves √price: price falls to a quarter
+        const sim = simulateSell([pool(1_000)], 1_000, 2)!;
+        expect(sim.priceDropPercent).toBe(75);
+        expect(sim.priceAfterUsd).toBeCloseTo(0.5);
+        expect(sim.proceedsUSD).toBeCloseTo(1_000);
+        expect(sim.exhaustsLiquidity).toBe(false);
+    });
+
+    it('routes across pools like one pool holding their combined reserves', () => {
+        const split = simulateSell([pool(600), pool(400)], 500, 1)!;
+        const single = simulateSell([pool(1_000)], 500, 1)!;
+        expect(split.priceDropPercent).toBeCloseTo(single.priceDropPercent, 4);
+        expect(split.proceedsUSD).toBeCloseTo(single.proceedsUSD, 4);
+    });
+
+    it('treats concentrated pools as deeper near the price but finite', () => {
+        const cp = simulateSell([pool(1_000)], 1_000, 1)!;
+        const cl = simulateSell([pool(1_000, true)], 1_000, 1)!;
+        expect(cl.priceDropPercent).toBeCloseTo(55.56, 1);
+        expect(cl.priceDropPercent).toBeLessThan(cp.priceDropPercent);
+
+        const drained = simulateSell([pool(1_000, true)], 2_500, 1)!;
+        expect(drained).toMatchObject({ priceDropPercent: 100, priceAfterUsd: 0, exhaustsLiquidity: true });
+        expect(drained.proceedsUSD).toBeCloseTo(1_000);
+    });
+
+    it('keeps absorbing through a constant-product pool once a concentrated range runs dry', () => {
+        const sim = simulateSell([pool(1_000, true), pool(1_000)], 5_000, 1)!;
+        expect(sim.priceDropPercent).toBeLessThan(100);
+        expect(sim.exhaustsLiquidity).toBe(true);
+    });
+
+    it('needs reserves and a price', () => {
+        expect(simulateSell([pool(0)], 100, 1)).toBeUndefined();
+        expect(simulateSell([pool(1_000)], 100, 0)).toBeUndefined();
+        expect(simulateSell([pool(1_000)], 0, 1)!.priceDropPercent).toBe(0);
+    });
+});
+
+describe('simulateClusterExits', () => {
+    const cluster = (id: string, balances: number[]) => ({
+        id, wallets: balances.map((currentBalance, i) => ({ address: `${id}${i}`, currentBalance })),
+    }) as BundleCluster;
+
+    it('simulates each cluster alone and all of them at once', () => {
+        const bc = { clusters: [cluster('A', [300, 200]), cluster('B', [500])] } as BundleControlResult;
+        const result = simulateClusterExits(bc, [pool(1_000)], 1);
+
+        expect(result.clusters.map(c => c.sellSimulation?.tokensSold)).toEqual([500, 500]);
+        expect(result.clusters[0].sellSimulation?.priceDropPercent).toBeCloseTo(55.56, 1);
+        expect(result.combinedSellSimulation).toMatchObject({ tokensSold: 1_000, priceDropPercent: 75 });
+        expect(simulateClusterExits({ clusters: [] as BundleCluster[] } as BundleControlResult, [pool(1_000)], 1).combinedSellSimulation).toBeUndefined();
+    });
+});
@@ -0,0 +1,86 @@
+import { BundleControlResult, BundleCluster, LiquidityPair, SellSimulation } from '../lib/mockData';
+
+// ───────────────────────────────────────────────
+// Sell simulation — price impact of clusters dumping into the token's pools
+//
+// Constant-product pools: selling Δ into base reserve x moves the price to
+// p·(x / (x + Δ))². Concentrated pools are approximated as one position over
+// [p / R, p · R]: its virtual reserves are the real ones × 1 / (1 − 1/√R), and
+// it stops absorbing once the price reaches p / R. Sells are routed across all
+// pools so they end at the same price (what an aggregator converges to).
+// Swap fees are ignored.
+// ───────────────────────────────────────────────
+
+/** Assumed width of a concentrated position around the current price */
+const CL_RANGE = 4;
+const CL_FLOOR = 1 / Math.sqrt(CL_RANGE);    // √(price floor / price)
+const CL_LEVERAGE = 1 / (1 - CL_FLOOR);
+
+interface Pool {
+    reserve: number;     // (virtual) base reserve
+    floor: number;       // √ of the lowest price ratio the pool can reach (0 for constant-product)
+}
+
+const toPools = (pairs: LiquidityPair[]): Pool[] => pairs
+    .filter(p => (p.baseReserve || 0) > 0)
+    .map(p => p.isConcentrated
+        ? { reserve: p.baseReserve! * CL_LEVERAGE, floor: CL_FLOOR }
+        : { reserve: p.baseReserve!, floor: 0 });
+
+/** Tokens a pool takes in to move the price to s² of where it started */
+const absorbed = (pool: Pool, s: number) => pool.reserve * (1 / Math.max(s, pool.floor) - 1);
+
+/** Quote value (USD) a pool pays out on the way down to s² */
+const paidOut = (pool: Pool, s: number, priceUsd: number) => pool.reserve * priceUsd * (1 - Math.max(s, pool.floor));
+
+/**
+ * Estimate the price after selling `tokensSold` into `pairs`, or undefined when
+ * no pair reports reserves.
+ */
+export const simulateSell = (pairs: LiquidityPair[], tokensSold: number, priceUsd: number): SellSimulation | undefined => {
+    const pools = toPools(pairs);
+    if (pools.length === 0 || priceUsd <= 0) return undefined;
+
+    const result = (s: number, exhaustsLiquidity = false): SellSimulation => ({
+        tokensSold,
+        priceDropPercent: parseFloat(((1 - s * s) * 100).toFixed(2)),
+        priceAfterUsd: priceUsd * s * s,
+        proceedsUSD: pools.reduce((sum, p) => sum + paidOut(p, s, priceUsd), 0),
+        exhaustsLiquidity,
+    });
+    if (tokensSold <= 0) return result(1);
+
+    // Only concentrated pools and the sale outlasts their ranges: the price collapses
+    if (pools.every(p => p.floor > 0)) {
+        const capacity = pools.reduce((sum, p) => sum + absorbed(p, 0), 0);
+        if (tokensSold >= capacity) return result(0, true);
+    }
+
+    // Bisect on s = √(price ratio): total absorbed falls monotonically as s rises
+    let lo = 0;
+    let hi = 1;
+    for (let i = 0; i < 60; i++) {
+        const mid = (lo + hi) / 2;
+        const total = pools.reduce((sum, p) => sum + absorbed(p, mid), 0);
+        if (total > tokensSold) lo = mid; else hi = mid;
+    }
+    return result(hi, pools.some(p => p.floor > 0 && hi <= p.floor));
+};
+
+const clusterBalance = (cluster: BundleCluster) => cluster.wallets.reduce((sum, w) => sum + w.currentBalance, 0);
+
+/** Attach per-cluster and all-at-once sell simulations to a bundle analysis */
+export const simulateClusterExits = (
+    bundleControl: BundleControlResult,
+    pairs: LiquidityPair[],
+    priceUsd: number
+): BundleControlResult => {
+    const clusters = bundleControl.clusters.map(c => ({ ...c, sellSimulation: simulateSell(pairs, clusterBalance(c), priceUsd) }));
+    const combined = clusters.reduce((sum, c) => sum + clusterBalance(c), 0);
+
+    return {
+        ...bundleControl,
+        clusters,
+        combinedSellSimulation: clusters.length > 0 ? simulateSell(pairs, combined, priceUsd) : undefined,
+    };
+};
@@ -0,0 +1,105 @@
+import { DexPairData } from './dexScreener';
+import { SecurityData } from './goPlus';
+import { ForensicData } from './moralisService';
+import { DistributionTrace } from './heliusService';
+import { BondingCurveLaunch } from './pumpFunService';
+
+// ───────────────────────────────────────────────
+// Data-provider contracts for the scan engine
+// ───────────────────────────────────────────────
+
+/** Pair discovery and market data (price, liquidity, FDV) */
+export interface MarketDataProvider {
+    name: string;
+    /** All pairs matching an address or symbol, sorted by liquidity (highest first) */
+    searchPairs(query: string): Promise<DexPairData[]>;
+}
+
+/** Contract security checks (honeypot, mint, taxes) */
+export interface SecurityProvider {
+    name: string;
+    /** Resolves null when the provider has no record of the token; throws when the request fails */
+    checkTokenSecurity(chainId: string, tokenAddress: string): Promise<SecurityData | null>;
+}
+
+/** Holders and launch-window transfers */
+export interface ForensicsProvider {
+    name: string;
+    /** False when credentials are missing — the engine reports MISSING_KEY */
+    isConfigured(): boolean;
+    /** Resolves null when the chain is not supported; throws when the provider fails */
+    getTokenForensics(chainId: string, tokenAddress: string): Promise<ForensicData | null>;
+}
+
+/** What the engine already knows about the token when tracing starts */
+export interface TraceContext {
+    /** The token's DEX pairs: transfers with them are swaps rather than distribution */
+    pairAddresses: string[];
+    /** Launch slot/block when forensics found it: bounds how far back wallet history is paged */
+    launchBlock?: number;
+}
+
+/** Recursive seed → recipient distribution tracing for one family of chains */
+export interface DistributionTracer {
+    name: string;
+    supportsChain(chainId: string): boolean;
+    isConfigured(): boolean;
+    traceDistributionTree(seedAddresses: string[], tokenAddress: string, chainId: string, context?: TraceContext): Promise<DistributionTrace>;
+}
+
+/** Raw on-chain supply; the engine derives circulating supply from it */
+export interface OnChainSupply {
+    totalSupply: number;
+    burnedSupply: number;
+}
+
+/** On-chain token supply for one family of chains */
+export interface SupplyProvider {
+    name: string;
+    supportsChain(chainId: string): boolean;
+    isConfigured(): boolean;
+    /** Resolves null when the token is unknown to the chain */
+    getTokenSupply(chainId: string, tokenAddress: string): Promise<OnChainSupply | null>;
+}
+
+/** Bonding-curve launchpad whose tokens trade before (or instead of) a DEX pair */
+export interface LaunchpadProvider {
+    name: string;
+    isConfigured(): boolean;
+    /** Cheap check from the address and the DEX ids of any pairs found */
+    isLaunchpadToken(chainId: string, tokenAddress: string, dexIds: string[]): boolean;
+    /** Resolves null when the token did not launch here */
+    getLaunch(tokenAddress: string): Promise<BondingCurveLaunch | null>;
+}
+
+/** The set of providers a scan engine is constructed with */
+export interface ProviderRegistry {
+    market: MarketDataProvider;
+    security: SecurityProvider;
+    forensics: ForensicsProvider;
+    /** Checked in order — the first configured tracer supporting the chain wins */
+    tracers: DistributionTracer[];
+    /** Checked in order like `tracers`; without one the supply is estimated from FDV / price */
+    supply?: SupplyProvider[];
+    /** Optional: rebuilds launches that happened on a bonding curve */
+    launchpad?: LaunchpadProvider;
+}
+
+// ───────────────────────────────────────────────
+// Registry helpers
+// ───────────────────────────────────────────────
+
+/**
+ * Add a tracer ahead of the existing ones, so a custom indexer can take over
+ * a chain (or add a new one) without editing the engine.
+ */
+export const registerTracer = (registry: ProviderRegistry, tracer: DistributionTracer): ProviderRegistry => ({
+    ...registry,
+    tracers: [tracer, ...registry.tracers.filter(t => t.name !== tracer.name)],
+});
+
+export const findTracer = (registry: ProviderRegistry, chainId: string): DistributionTracer | undefined =>
+    registry.tracers.find(t => t.supportsChain(chainId) && t.isConfigured());
+
+export const findSupplyProvider = (registry: ProviderRegistry, chainId: string): SupplyProvider | undefined =>
+    (registry.supply || []).find(p => p.supportsChain(chainId) && p.isConfigured());
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { parseLaunchTransactions, analyzeBondingCurve, curveState, getPumpFunLaunch, isPumpFunToken, PUMP_FUN_MIGRATION } from './pumpFunService';
+import { HeliusTransaction } from './heliusService';
+import { startReplay, stopReplay, FIXTURE_BUNDLE_VERSION, type FixtureEntry } from './fixtureMode';
+
+const MINT = 'Mint1111111111111111111111111111111111pump';
+const CURVE = 'Curve111111111111111111111111111111111111';
+const SOL = 1_000_000_000;
+
+const tx = (slot: number, feePayer: string, overrides: Partial<HeliusTransaction> = {}): HeliusTransaction => ({
+    signature: `sig${slot}${feePayer}`, type: 'SWAP', source: 'PUMP_FUN', slot, timestamp: 1_700_000_000 + slot, feePayer,
+    tokenTransfers: [], nativeTransfers: [],
+    ...overrides,
+});
+
+const buy = (slot: number, wallet: string, tokens: number, sol: number) => tx(slot, wallet, {
+    tokenTransfers: [{ fromUserAccount: CURVE, toUserAccount: wallet, tokenAmount: tokens, mint: MINT }],
+    nativeTransfers: [{ fromUserAccount: wallet, toUserAccount: CURVE, amount: sol * SOL }],
+});
+
+const sell = (slot: number, wallet: string, tokens: number, sol: number) => tx(slot, wallet, {
+    tokenTransfers: [{ fromUserAccount: wallet, toUserAccount: CURVE, tokenAmount: tokens, mint: MINT }],
+    nativeTransfers: [{ fromUserAccount: CURVE, toUserAccount: wallet, amount: sol * SOL }],
+});
+
+// Dev creates and buys 30M; S1 in the same slot, S2 one slot later, R1 well after
+const create = tx(100, 'Dev', {
+    type: 'CREATE',
+    tokenTransfers: [
+        { fromUserAccount: '', toUserAccount: CURVE, tokenAmount: 1_000_000_000, mint: MINT },
+        { fromUserAccount: CURVE, toUserAccount: 'Dev', tokenAmount: 30_000_000, mint: MINT },
+    ],
+    nativeTransfers: [{ fromUserAccount: 'Dev', toUserAccount: CURVE, amount: 0.9 * SOL }],
+});
+
+const HISTORY = [
+    sell(110, 'S1', 10_000_000, 0.4),
+    buy(105, 'R1', 20_000_000, 0.8),
+    buy(101, 'S2', 40_000_000, 1.5),
+    buy(100, 'S1', 50_000_000, 1.8),
+    create,
+];
+
+const migrated = [
+    tx(210, 'Trader', { source: 'RAYDIUM', tokenTransfers: [{ fromUserAccount: 'Pool', toUserAccount: 'Trader', tokenAmount: 5_000_000, mint: MINT }] }),
+    tx(200, PUMP_FUN_MIGRATION, { type: 'CREATE_POOL', source: 'RAYDIUM' }),
+    ...HISTORY,
+];
+
+describe('parseLaunchTransactions', () => {
+    it('reads the creator, curve account and curve trades in slot order', () => {
+        const launch = parseLaunchTransactions(MINT, HISTORY)!;
+
+        expect(launch).toMatchObject({ creator: 'Dev', creationSlot: 100, bondingCurve: CURVE, migration: undefined });
+        expect(launch.buys.map(b => [b.wallet, b.tokenAmount, b.solAmount])).toEqual([
+            ['Dev', 30_000_000, 0.9],
+            ['S1', 50_000_000, 1.8],
+            ['S2', 40_000_000, 1.5],
+            ['R1', 20_000_000, 0.8],
+        ]);
+        expect(launch.sells.map(s => [s.wallet, s.tokenAmount, s.solAmount])).toEqual([['S1', 10_000_000, 0.4]]);
+    });
+
+    it('tracks the migration and ignores trading after it', () => {
+        const launch = parseLaunchTransactions(MINT, migrated)!;
+
+        expect(launch.migration).toEqual({ signature: `sig200${PUMP_FUN_MIGRATION}`, timestamp: 1_700_000_200, venue: 'RAYDIUM' });
+        expect(launch.buys.map(b => b.wallet)).not.toContain('Trader');
+    });
+
+    it('returns null without a creation transaction', () => {
+        expect(parseLaunchTransactions(MINT, HISTORY.filter(t => t !== create))).toBeNull();
+    });
+});
+
+const RPC = 'https://mainnet.helius-rpc.com/';
+const PARSE = 'https://api.helius.xyz/v0/transactions';
+
+const post = (url: string, body: unknown, data: unknown): FixtureEntry => ({
+    key: `POST ${url} ${JSON.stringify(body)}`, method: 'POST', url, body, status: 200, data,
+});
+const signaturesRequest = (before?: string) => ({
+    jsonrpc: '2.0', id: 1, method: 'getSignaturesForAddress', params: [MINT, { limit: 1000, ...(before ? { before } : {}) }],
+});
+
+describe('getPumpFunLaunch', () => {
+    it('reads forward from the oldest signature, however long the history is', async () => {
+        // 1,500 signatures newest-first over two pages; creation is the oldest
+        const sigs = Array.from({ length: 1500 }, (_, i) => `s${1499 - i}`);
+        const parseBatches = Array.from({ length: 10 }, (_, b) => Array.from({ length: 100 }, (_, i) => `s${b * 100 + i}`));
+
+        startReplay({
+            version: FIXTURE_BUNDLE_VERSION, recordedAt: '', configuredKeys: ['VITE_HELIUS_API_KEY'], entries: [
+                post(RPC, signaturesRequest(), { result: sigs.slice(0, 1000).map(signature => ({ signature, err: null })) }),
+                post(RPC, signaturesRequest('s500'), { result: sigs.slice(1000).map(signature => ({ signature, err: null })) }),
+                ...parseBatches.map((batch, b) => post(PARSE, { transactions: batch }, b === 0 ? HISTORY : [])),
+                post(RPC, { jsonrpc: '2.0', id: 1, method: 'getAsset', params: { id: MINT } }, { result: { content: { metadata: { name: 'Mint', symbol: 'MNT' } } } }),
+            ],
+        });
+        const launch = await getPumpFunLaunch(MINT);
+        const report = stopReplay();
+
+        expect(launch).toMatchObject({ creator: 'Dev', creationSlot: 100, symbol: 'MNT' });
+        expect(launch?.buys).toHaveLength(4);
+        // Only the first 1,000 transactions after creation are parsed, so the curve state may be stale
+        expect(report).toEqual({ served: 13, misses: [] });
+        expect(launch?.incomplete).toBe('history: 500 later transactions not read');
+    });
+
+    it('reads a short history in full and reports no gaps', async () => {
+        startReplay({
+            version: FIXTURE_BUNDLE_VERSION, recordedAt: '', configuredKeys: ['VITE_HELIUS_API_KEY'], entries: [
+                post(RPC, signaturesRequest(), { result: [{ signature: 's1', err: null }, { signature: 's0', err: null }] }),
+                post(PARSE, { transactions: ['s0', 's1'] }, HISTORY),
+                post(RPC, { jsonrpc: '2.0', id: 1, method: 'getAsset', params: { id: MINT } }, { result: { content: { metadata: { name: 'Mint', symbol: 'MNT' } } } }),
+            ],
+        });
+        const launch = await getPumpFunLaunch(MINT);
+        stopReplay();
+
+        expect(launch).toMatchObject({ creator: 'Dev', symbol: 'MNT' });
+        expect(launch?.incomplete).toBeUndefined();
+    });
+});
+
+describe('analyzeBondingCurve', () => {
+    it('counts the creator and launch-slot buyers as the dev bundle', () => {
+        const analysis = analyzeBondingCurve(parseLaunchTransactions(MINT, HISTORY)!);
+
+        expect(analysis.devBundleWallets).toEqual(['Dev', 'S1', 'S2']);
+        expect(analysis.devBundleTokens).toBe(120_000_000);
+        expect(analysis.devBundleCurvePercent).toBe(15.13);
+        expect(analysis.devBundleSupplyPercent).toBe(12);
+        expect(analysis.curveBuyerCount).toBe(4);
+        expect(analysis.curveProgressPercent).toBe(16.39);
+    });
+
+    it('reports a migrated curve as complete', () => {
+        const analysis = analyzeBondingCurve(parseLaunchTransactions(MINT, migrated)!);
+        expect(analysis.curveProgressPercent).toBe(100);
+        expect(analysis.migration?.venue).toBe('RAYDIUM');
+    });
+});
+
+describe('curveState', () => {
+    it('prices from the virtual reserves', () => {
+        const fresh = curveState({ mint: MINT, creator: 'Dev', createdAt: 0, creationSlot: 0, buys: [], sells: [] });
+        expect(fresh).toMatchObject({ virtualSol: 30, virtualTokens: 1_073_000_000, realSol: 0, progressPercent: 0 });
+        expect(fresh.priceSol).toBeCloseTo(30 / 1_073_000_000, 15);
+
+        const launch = parseLaunchTransactions(MINT, HISTORY)!;
+        const state = curveState(launch);
+        expect(state.tokensSold).toBe(130_000_000);
+        expect(state.virtualSol * state.virtualTokens).toBeCloseTo(30 * 1_073_000_000, 0);
+        expect(state.priceSol).toBeGreaterThan(fresh.priceSol);
+    });
+});
+
+describe('isPumpFunToken', () => {
+    it('recognises pump vanity mints and the pump.fun DEX ids on Solana only', () => {
+        expect(isPumpFunToken('solana', MINT)).toBe(true);
+        expect(isPumpFunToken('solana', 'So11111111111111111111111111111111111111112', ['pumpswap'])).toBe(true);
+        expect(isPumpFunToken('solana', 'So11111111111111111111111111111111111111112', ['raydium'])).toBe(false);
+        expect(isPumpFunToken('ethereum', '0xpump')).toBe(false);
+        expect(isPumpFunToken('solana', 'catpump')).toBe(false);
+        expect(isPumpFunToken('solana', 'Mint0OIl111111111111111111111111111111pump')).toBe(false);
+    });
+});
@@ -0,0 +1,305 @@
+import { http } from './httpClient';
+import { readEnv } from '../lib/env';
+import { BondingCurveAnalysis } from '../lib/mockData';
+import { HeliusTransaction } from './heliusService';
+import { providerScheduler, describeError } from './requestScheduler';
+import { isSolanaAddress } from '../lib/addresses';
+
+// ───────────────────────────────────────────────
+// Pump.fun — bonding-curve launches on Solana
+//
+// Tokens trade against the program's bonding curve until it sells out, then
+// migrate to an AMM pool. Before migration there is no DEX pair, so the launch
+// is rebuilt from the mint's own parsed transactions (Helius).
+// ───────────────────────────────────────────────
+
+const HELIUS_BASE = 'https://api.helius.xyz';
+
+export const PUMP_FUN_PROGRAM = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+export const PUMP_FUN_MIGRATION = '39azUYFWPz3VHgKCf3VChUwbpURdCHRxjWVowf5jUJjg';
+
+// Curve parameters (token amounts in whole tokens, SOL in SOL)
+export const PUMP_FUN_TOTAL_SUPPLY = 1_000_000_000;
+export const PUMP_FUN_CURVE_SUPPLY = 793_100_000;       // Sold on the curve before migration
+const INITIAL_VIRTUAL_SOL = 30;
+const INITIAL_VIRTUAL_TOKENS = 1_073_000_000;
+
+/** Buys in the creation slot and this many slots after it count as the dev's bundle */
+const DEV_BUNDLE_SLOTS = 1;
+
+/** Transactions parsed per mint, read forward from its creation */
+const MAX_HISTORY_TXS = 1000;
+const PARSE_BATCH_SIZE = 100;           // Enhanced API limit per request
+
+/** Signatures are cheap to list; the cap only bounds pathological mints */
+const SIGNATURE_PAGE_SIZE = 1000;
+const MAX_SIGNATURE_PAGES = 100;
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+// ── Types ──
+
+export interface CurveTrade {
+    wallet: string;
+    tokenAmount: number;
+    solAmount: number;
+    timestamp: number;
+    slot: number;
+    signature: string;
+}
+
+export interface BondingCurveLaunch {
+    mint: string;
+    creator: string;
+    createdAt: number;       // unix seconds
+    creationSlot: number;
+    bondingCurve?: string;   // Curve account holding the unsold tokens
+    name?: string;
+    symbol?: string;
+    buys: CurveTrade[];
+    sells: CurveTrade[];
+    migration?: { signature: string; timestamp: number; venue: string };
+    incomplete?: string;     // A lookup that failed after the launch itself was read
+}
+
+export interface CurveState {
+    virtualSol: number;
+    virtualTokens: number;
+    realSol: number;          // SOL deposited by buyers and still in the curve
+    tokensSold: number;       // Net of sells
+    priceSol: number;         // SOL per token
+    progressPercent: number;  // tokensSold out of PUMP_FUN_CURVE_SUPPLY
+}
+
+// ── Parsing ──
+
+const involves = (tx: HeliusTransaction, address: string) =>
+    tx.feePayer === address ||
+    (tx.nativeTransfers || []).some(t => t.fromUserAccount === address || t.toUserAccount === address) ||
+    (tx.tokenTransfers || []).some(t => t.fromUserAccount === address || t.toUserAccount === address);
+
+/** The create instruction mints the whole supply into the curve (a transfer with no sender) */
+const isCreation = (tx: HeliusTransaction, mint: string) =>
+    tx.source === 'PUMP_FUN' &&
+    (tx.type === 'CREATE' || (tx.tokenTransfers || []).some(t => t.mint === mint && !t.fromUserAccount));
+
+const isMigration = (tx: HeliusTransaction) => involves(tx, PUMP_FUN_MIGRATION);
+
+/** SOL that moved between `wallet` and the curve in one transaction */
+const solBetween = (tx: HeliusTransaction, from: string, to: string) =>
+    (tx.nativeTransfers || [])
+        .filter(t => t.fromUserAccount === from && t.toUserAccount === to)
+        .reduce((sum, t) => sum + t.amount, 0) / LAMPORTS_PER_SOL;
+
+/**
+ * Rebuild a launch from the mint's parsed transactions (any order). Returns null
+ * when the creation is not among them — not a Pump.fun token, or history too long.
+ */
+export const parseLaunchTransactions = (mint: string, txs: HeliusTransaction[]): BondingCurveLaunch | null => {
+    // Within the creation slot, the create instruction always executed first
+    const ordered = [...txs].sort((a, b) => a.slot - b.slot || Number(isCreation(b, mint)) - Number(isCreation(a, mint)));
+    const creation = ordered.find(tx => isCreation(tx, mint));
+    if (!creation) return null;
+
+    const bondingCurve = (creation.tokenTransfers || []).find(t => t.mint === mint && !t.fromUserAccount)?.toUserAccount || undefined;
+    const migrationTx = ordered.find(tx => tx.slot >= creation.slot && isMigration(tx));
+
+    const buys: CurveTrade[] = [];
+    const sells: CurveTrade[] = [];
+
+    ordered.forEach(tx => {
+        if (tx.source !== 'PUMP_FUN' || tx.slot < creation.slot) return;
+        if (migrationTx && (tx === migrationTx || tx.slot > migrationTx.slot)) return;
+
+        (tx.tokenTransfers || []).forEach(tt => {
+            if (tt.mint !== mint || tt.tokenAmount <= 0 || !tt.fromUserAccount) return;
+            const trade = { timestamp: tx.timestamp, slot: tx.slot, signature: tx.signature, tokenAmount: tt.tokenAmount };
+
+            // Without a known curve account, the fee payer's side of the transfer decides
+            const isBuy = bondingCurve ? tt.fromUserAccount === bondingCurve : tt.toUserAccount === tx.feePayer;
+            const isSell = bondingCurve ? tt.toUserAccount === bondingCurve : tt.fromUserAccount === tx.feePayer;
+
+            if (isBuy) {
+                const wallet = tt.toUserAccount;
+                buys.push({ ...trade, wallet, solAmount: bondingCurve ? solBetween(tx, wallet, bondingCurve) : 0 });
+            } else if (isSell) {
+                const wallet = tt.fromUserAccount;
+                sells.push({ ...trade, wallet, solAmount: bondingCurve ? solBetween(tx, bondingCurve, wallet) : 0 });
+            }
+        });
+    });
+
+    return {
+        mint,
+        creator: creation.feePayer,
+        createdAt: creation.timestamp,
+        creationSlot: creation.slot,
+        bondingCurve,
+        buys,
+        sells,
+        migration: migrationTx && {
+            signature: migrationTx.signature,
+            timestamp: migrationTx.timestamp,
+            venue: migrationTx.source && !['PUMP_FUN', 'UNKNOWN'].includes(migrationTx.source) ? migrationTx.source : 'RAYDIUM',
+        },
+    };
+};
+
+// ── Curve math ──
+
+const sum = (trades: CurveTrade[]) => trades.reduce((s, t) => s + t.tokenAmount, 0);
+
+/** Curve reserves and price implied by the trades seen (constant product on virtual reserves) */
+export const curveState = (launch: BondingCurveLaunch): CurveState => {
+    const tokensSold = Math.min(Math.max(sum(launch.buys) - sum(launch.sells), 0), PUMP_FUN_CURVE_SUPPLY);
+    const virtualTokens = INITIAL_VIRTUAL_TOKENS - tokensSold;
+    const virtualSol = (INITIAL_VIRTUAL_SOL * INITIAL_VIRTUAL_TOKENS) / virtualTokens;
+
+    return {
+        virtualSol,
+        virtualTokens,
+        realSol: virtualSol - INITIAL_VIRTUAL_SOL,
+        tokensSold,
+        priceSol: virtualSol / virtualTokens,
+        progressPercent: parseFloat(((tokensSold / PUMP_FUN_CURVE_SUPPLY) * 100).toFixed(2)),
+    };
+};
+
+/**
+ * Dev bundle: the creator plus every wallet whose first curve buy landed in the
+ * creation slot or right after it — only wallets prepared in advance get in that early.
+ */
+export const analyzeBondingCurve = (launch: BondingCurveLaunch): BondingCurveAnalysis => {
+    const lastBundleSlot = launch.creationSlot + DEV_BUNDLE_SLOTS;
+    const firstBuySlot = new Map<string, number>();
+    launch.buys.forEach(b => {
+        if (!firstBuySlot.has(b.wallet) || b.slot < firstBuySlot.get(b.wallet)!) firstBuySlot.set(b.wallet, b.slot);
+    });
+
+    const devBundle = new Set([launch.creator]);
+    firstBuySlot.forEach((slot, wallet) => { if (slot <= lastBundleSlot) devBundle.add(wallet); });
+
+    const devBundleTokens = sum(launch.buys.filter(b => devBundle.has(b.wallet)));
+    const pct = (amount: number, of: number) => parseFloat(((amount / of) * 100).toFixed(2));
+
+    return {
+        launchpad: 'pump.fun',
+        creator: launch.creator,
+        createdAt: launch.createdAt,
+        curveProgressPercent: launch.migration ? 100 : curveState(launch).progressPercent,
+        curveBuyerCount: firstBuySlot.size,
+        devBundleWallets: [...devBundle],
+        devBundleTokens,
+        devBundleCurvePercent: pct(devBundleTokens, PUMP_FUN_CURVE_SUPPLY),
+        devBundleSupplyPercent: pct(devBundleTokens, PUMP_FUN_TOTAL_SUPPLY),
+        migration: launch.migration,
+    };
+};
+
+// ───────────────────────────────────────────────
+// Fetching
+// ───────────────────────────────────────────────
+
+// Shares the Helius rate limit with the distribution tracer
+const helius = providerScheduler('helius');
+
+/**
+ * Every signature that touched the mint, oldest first. The RPC only pages backwards,
+ * so this walks back to the first one; null when the page cap runs out first.
+ */
+const fetchMintSignatures = async (mint: string, apiKey: string): Promise<string[] | null> => {
+    const signatures: string[] = [];
+    let before: string | undefined;
+
+    for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+        const res = await helius.schedule(() => http.post(`https://mainnet.helius-rpc.com/?api-key=${apiKey}`, {
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'getSignaturesForAddress',
+            params: [mint, { limit: SIGNATURE_PAGE_SIZE, ...(before ? { before } : {}) }],
+        }));
+        if (res.data?.error) throw new Error(`getSignaturesForAddress: ${res.data.error.message}`);
+
+        const batch: { signature: string; err: unknown }[] = res.data?.result || [];
+        // Failed transactions changed nothing, so they can't be the launch
+        signatures.push(...batch.filter(s => !s.err).map(s => s.signature));
+        if (batch.length < SIGNATURE_PAGE_SIZE) return signatures.reverse();
+        before = batch[batch.length - 1].signature;
+    }
+
+    return null;
+};
+
+/**
+ * The mint's history read forward from its creation, so the launch is always in
+ * reach however busy the token is since. Trades past MAX_HISTORY_TXS are not read;
+ * `unread` counts them.
+ */
+const fetchMintHistory = async (mint: string, apiKey: string): Promise<{ txs: HeliusTransaction[]; unread: number }> => {
+    const signatures = await fetchMintSignatures(mint, apiKey);
+    if (!signatures) {
+        console.warn(`[PumpFun] ${mint.slice(0, 8)}: more than ${MAX_SIGNATURE_PAGES * SIGNATURE_PAGE_SIZE} signatures, launch out of reach`);
+        return { txs: [], unread: 0 };
+    }
+
+    const earliest = signatures.slice(0, MAX_HISTORY_TXS);
+    const txs: HeliusTransaction[] = [];
+    for (let i = 0; i < earliest.length; i += PARSE_BATCH_SIZE) {
+        const batch = earliest.slice(i, i + PARSE_BATCH_SIZE);
+        const res = await helius.schedule(() => http.post(`${HELIUS_BASE}/v0/transactions`, { transactions: batch }, {
+            params: { 'api-key': apiKey },
+        }));
+        txs.push(...(res.data || []));
+    }
+    return { txs, unread: signatures.length - earliest.length };
+};
+
+/**
+ * Name and symbol from the DAS API (pre-migration tokens have no DEX listing to read them from).
+ * A failed lookup doesn't sink the launch; it comes back as `incomplete`.
+ */
+const fetchTokenMetadata = async (mint: string, apiKey: string): Promise<{ name?: string; symbol?: string; incomplete?: string }> => {
+    try {
+        const res = await helius.schedule(() => http.post(`https://mainnet.helius-rpc.com/?api-key=${apiKey}`, {
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'getAsset',
+            params: { id: mint },
+        }));
+        const metadata = res.data?.result?.content?.metadata || {};
+        return { name: metadata.name || undefined, symbol: metadata.symbol || undefined };
+    } catch (err: any) {
+        console.warn(`[PumpFun] Metadata lookup failed for ${mint.slice(0, 8)}:`, err?.response?.status);
+        return { incomplete: `metadata: ${describeError(err)}` };
+    }
+};
+
+/** Launch details for a Pump.fun mint, or null when it did not launch there */
+export const getPumpFunLaunch = async (mint: string): Promise<BondingCurveLaunch | null> => {
+    const apiKey = readEnv('VITE_HELIUS_API_KEY');
+    if (!apiKey) {
+        console.warn('[PumpFun] No Helius API key configured');
+        return null;
+    }
+
+    const { txs, unread } = await fetchMintHistory(mint, apiKey);
+    const launch = parseLaunchTransactions(mint, txs);
+    if (!launch) return null;
+
+    console.log(`[PumpFun] ${mint.slice(0, 8)}: created by ${launch.creator.slice(0, 8)} | ${launch.buys.length} curve buys, ${launch.sells.length} sells | ${launch.migration ? `migrated to ${launch.migration.venue}` : 'on curve'}`);
+    const { incomplete: metadataGap, ...metadata } = await fetchTokenMetadata(mint, apiKey);
+    // A migration inside the window closed the curve; otherwise the unread trades still moved it
+    const historyGap = unread > 0 && !launch.migration ? `history: ${unread} later transactions not read` : undefined;
+    const incomplete = [historyGap, metadataGap].filter(Boolean).join('; ');
+    return { ...launch, ...metadata, ...(incomplete && { incomplete }) };
+};
+
+/**
+ * Pump.fun mints are vanity addresses ending in "pump"; migrated ones also trade on its AMM.
+ * The suffix only counts on a real mint address, so a ticker like "catpump" is not one.
+ */
+export const isPumpFunToken = (chainId: string, tokenAddress: string, dexIds: string[] = []): boolean =>
+    chainId === 'solana' && (
+        (isSolanaAddress(tokenAddress) && tokenAddress.endsWith('pump')) ||
+        dexIds.some(d => d === 'pumpfun' || d === 'pumpswap')
+    );
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { renderMarkdownReport, renderPdfReport, walletsToCsv, clusterWalletsToCsv, describeFactorEvidence, exportFileName } from './reportExport';
+import { MOCK_SCENARIOS, ScanResult, BundleCluster } from '../lib/mockData';
+
+const CLUSTER: BundleCluster = {
+    id: 'Funding Cluster (Fund)',
+    wallets: [
+        { address: 'W1', boughtAmount: 1_000, receivedAmount: 0, currentBalance: 1_000, soldAmount: 0, holdingUSD: 10, status: 'active', heuristics: ['Shared Funding'], matchedGroups: ['Funding Cluster (Fund)'] },
+        { address: 'W2', boughtAmount: 500, receivedAmount: 0, currentBalance: 0, soldAmount: 500, holdingUSD: 0, status: 'sold_all', heuristics: ['Shared Funding', 'Sync Sell'], matchedGroups: ['Funding Cluster (Fund)'] },
+    ],
+    totalSupplyPercent: 1,
+    totalValueUSD: 10,
+    status: 'Active',
+    lpImpact: 0.01,
+    risk: 'High',
+    riskScore: 80,
+    riskFactors: ['Shared Funding', 'Sync Sell', 'Known Serial Bundler'],
+    internalTransferCount: 0,
+    knownBundlers: ['W1'],
+};
+
+const RESULT: ScanResult = {
+    ...MOCK_SCENARIOS.SAFE,
+    tokenName: 'Pipe | Token',
+    scoreBreakdown: [{ label: 'Liquidity', impact: 0, status: 'pass', detail: '$30,000 — healthy' }],
+    bundleControl: { ...MOCK_SCENARIOS.SAFE.analysis, clusters: [CLUSTER], clusterCount: 1 },
+    wallets: [{ address: 'W1', isBundler: true, fundingSource: 'Funder, "the dev"', holdingAmount: 1_000, percentage: 0.1 }],
+};
+
+describe('describeFactorEvidence', () => {
+    it('describes structured evidence with amounts, times and transactions', () => {
+        const withEvidence: BundleCluster = {
+            ...CLUSTER,
+            evidence: [
+                { factor: 'Shared Funding', funder: 'Funder', fundings: [{ wallet: 'W1', amount: 500_000_000, timestamp: 1_700_000_000, signature: 'Sig1' }] },
+                { factor: 'Sync Sell', pairs: [{ first: { wallet: 'W1', tokenAmount: 100, timestamp: 1_700_000_100 }, second: { wallet: 'W2', tokenAmount: 2_000, timestamp: 1_700_000_130 }, gapSeconds: 30 }] },
+            ],
+        };
+        expect(describeFactorEvidence(withEvidence, 'Shared Funding', 'solana')).toEqual([
+            'Funder Funder funded 1 wallets: W1 (0.500 SOL at 2023-11-14T22:13:20Z, tx Sig1)',
+        ]);
+        expect(describeFactorEvidence(withEvidence, 'Sync Sell', 'solana')).toEqual([
+            '1 sell pair(s) within 60s: W1 100 / W2 2.0K, 30s apart at 2023-11-14T22:15:00Z',
+        ]);
+    });
+
+    it('falls back to the wallets and heuristic groups behind each factor', () => {
+        expect(describeFactorEvidence(CLUSTER, 'Shared Funding', 'solana')).toEqual(['2 of 2 wallets: W1, W2 (Funding Cluster (Fund))']);
+        expect(describeFactorEvidence(CLUSTER, 'Sync Sell', 'solana')).toEqual(['1 of 2 wallets: W2']);
+        expect(describeFactorEvidence(CLUSTER, 'Known Serial Bundler', 'solana')).toEqual(['Clustered on other launches: W1']);
+        expect(describeFactorEvidence(CLUSTER, 'Behavioral Match', 'solana')).toEqual(['Cluster-level match']);
+    });
+});
+
+describe('renderMarkdownReport', () => {
+    it('covers token info, score breakdown, cluster tables and factor evidence', () => {
+        const md = renderMarkdownReport(RESULT);
+        expect(md).toMatch(/^# Pipe \| Token \(SAFE\) — Scan Report/);
+        expect(md).toContain('## Score Breakdown');
+        expect(md).toContain('| pass | +0 | Liquidity | $30,000 — healthy |');
+        expect(md).toContain('### Funding Cluster (Fund)');
+        expect(md).toContain('- Sync Sell: 1 of 2 wallets: W2');
+        expect(md).toContain('| W2 | sold_all | 500 | 0 | 500 | 0 | $0 | Shared Funding, Sync Sell |');
+    });
+});
+
+describe('renderPdfReport', () => {
+    it('writes a PDF whose xref points at each object', () => {
+        const pdf = new TextDecoder().decode(renderPdfReport(RESULT));
+        expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+        expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+        expect(pdf).toContain('(Pipe | Token \\(SAFE\\) - Scan Report) Tj');
+
+        const xrefAt = Number(pdf.match(/startxref\n(\d+)/)![1]);
+        expect(pdf.slice(xrefAt, xrefAt + 4)).toBe('xref');
+        const offsets = [...pdf.slice(xrefAt).matchAll(/^(\d{10}) 00000 n $/gm)].map(m => Number(m[1]));
+        offsets.forEach((offset, i) => expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+    });
+});
+
+describe('CSV exports', () => {
+    it('quotes fields with commas or quotes', () => {
+        expect(walletsToCsv(RESULT)).toBe(
+            'address,is_bundler,funding_source,holding_amount,percentage\r\n' +
+            'W1,true,"Funder, ""the dev""",1000,0.1\r\n'
+        );
+    });
+
+    it('lists every wallet of every cluster with its cluster', () => {
+        const rows = clusterWalletsToCsv(RESULT).trimEnd().split('\r\n');
+        expect(rows).toHaveLength(3);
+        expect(rows[2]).toBe('Funding Cluster (Fund),High,80,W2,sold_all,500,0,500,0,0,Shared Funding;Sync Sell');
+    });
+
+    it('names downloads after the token', () => {
+        expect(exportFileName(RESULT, 'report.pdf')).toBe(`SAFE-${RESULT.chainId}-${RESULT.tokenAddress.slice(0, 9)}-report.pdf`);
+    });
+});
@@ -0,0 +1,263 @@
+import { ScanResult, BundleCluster, RiskFactorEvidence } from '../lib/mockData';
+import { fromNativeUnits, nativeSymbol } from '../lib/explorers';
+import { writePdf, PdfLine } from '../lib/pdfWriter';
+
+// ───────────────────────────────────────────────
+// Report exports — Markdown/PDF reports and CSV wallet lists from a ScanResult
+// ───────────────────────────────────────────────
+
+interface ReportTable {
+    headers: string[];
+    rows: string[][];
+}
+
+interface ReportSection {
+    title: string;
+    level: 2 | 3;
+    paragraphs?: string[];
+    bullets?: string[];
+    table?: ReportTable;
+}
+
+/** Format-neutral report: the Markdown and PDF renderers lay out the same sections */
+export interface ScanReport {
+    title: string;
+    sections: ReportSection[];
+}
+
+const formatUSD = (v: number): string => {
+    if (v >= 1_000_000) return `$${(v / 1_000_000).toFixed(2)}M`;
+    if (v >= 1_000) return `$${(v / 1_000).toFixed(1)}K`;
+    return `$${v.toFixed(0)}`;
+};
+
+const formatAmount = (v: number): string => {
+    if (v >= 1_000_000_000) return `${(v / 1_000_000_000).toFixed(2)}B`;
+    if (v >= 1_000_000) return `${(v / 1_000_000).toFixed(2)}M`;
+    if (v >= 1_000) return `${(v / 1_000).toFixed(1)}K`;
+    return v.toFixed(0);
+};
+
+const listWithMore = (items: string[], shown = 5): string =>
+    items.slice(0, shown).join(', ') + (items.length > shown ? `, +${items.length - shown} more` : '');
+
+// Heuristic group ids (before merging) that back each clustering factor
+const FACTOR_GROUPS: Record<string, string> = {
+    'Shared Funding': 'Funding Cluster',
+    'Temporal Match': 'Temporal Cluster',
+    'Internal Transfers': 'Network Cluster',
+};
+
+const isoTime = (ts: number): string => new Date(ts * 1000).toISOString().replace('.000Z', 'Z');
+
+/** One line per piece of structured evidence */
+const describeEvidence = (e: RiskFactorEvidence, chainId: string): string => {
+    switch (e.factor) {
+        case 'Shared Funding':
+            return `Funder ${e.funder} funded ${e.fundings.length} wallets: ${listWithMore(e.fundings.map(f =>
+                `${f.wallet} (${fromNativeUnits(chainId, f.amount).toFixed(3)} ${nativeSymbol(chainId)} at ${isoTime(f.timestamp)}${f.signature ? `, tx ${f.signature}` : ''})`))}`;
+        case 'Temporal Match':
+            return `${e.buys.length} buys in the 2s window from ${isoTime(e.bucketStart)}: ${listWithMore(e.buys.map(b => `${b.wallet} ${formatAmount(b.tokenAmount)}`))}`;
+        case 'Internal Transfers':
+            return `${e.transfers.length} transfers between members: ${listWithMore(e.transfers.map(t => `${t.from} -> ${t.to} ${formatAmount(t.tokenAmount)} at ${isoTime(t.timestamp)}`))}`;
+        case 'Sync Sell':
+            return `${e.pairs.length} sell pair(s) within 60s: ${listWithMore(e.pairs.map(p =>
+                `${p.first.wallet} ${formatAmount(p.first.tokenAmount)} / ${p.second.wallet} ${formatAmount(p.second.tokenAmount)}, ${p.gapSeconds}s apart at ${isoTime(p.first.timestamp)}`))}`;
+        case 'Known Serial Bundler':
+            return `Clustered on other launches: ${listWithMore(e.addresses)}`;
+    }
+};
+
+/**
+ * What backs one of a cluster's risk factors. Structured evidence when the cluster
+ * carries it; otherwise the wallets that matched the factor and the groups they came from.
+ */
+export const describeFactorEvidence = (cluster: BundleCluster, factor: string, chainId: string): string[] => {
+    const structured = (cluster.evidence || []).filter(e => e.factor === factor);
+    if (structured.length > 0) return structured.map(e => describeEvidence(e, chainId));
+
+    if (factor === 'Known Serial Bundler' && cluster.knownBundlers?.length) {
+        return [`Clustered on other launches: ${listWithMore(cluster.knownBundlers)}`];
+    }
+
+    const matched = cluster.wallets.filter(w => w.heuristics?.includes(factor)).map(w => w.address);
+    if (matched.length === 0) return ['Cluster-level match'];
+
+    const prefix = FACTOR_GROUPS[factor];
+    const groups = prefix ? [...new Set(cluster.wallets.flatMap(w => w.matchedGroups || []).filter(g => g.startsWith(prefix)))] : [];
+    const transfers = factor === 'Internal Transfers' && cluster.internalTransferCount > 0 ? `; ${cluster.internalTransferCount} internal transfers` : '';
+    return [`${matched.length} of ${cluster.wallets.length} wallets: ${listWithMore(matched)}${groups.length > 0 ? ` (${groups.join(', ')})` : ''}${transfers}`];
+};
+
+const overview = (result: ScanResult): string[] => {
+    const quality = result.dataQuality;
+    return [
+        `Chain: ${result.chainId}`,
+        `Token address: ${result.tokenAddress}`,
+        `Score: ${result.score}/100 ${result.riskLevel} (${result.threatType})`,
+        `Price: $${result.priceUsd} | Market cap: ${formatUSD(result.marketCap)}`,
+        `Liquidity: ${formatUSD(result.liquidity?.totalUSD ?? result.selectedPair.liquidityUSD)} across ${result.pairs.length} pair(s), priced on ${result.selectedPair.dexName} ${result.selectedPair.pairAddress}`,
+        ...(result.supply ? [`Supply: ${formatAmount(result.supply.circulatingSupply)} circulating of ${formatAmount(result.supply.totalSupply)} (${result.supply.source})`] : []),
+        ...(result.bondingCurve ? [`Launch: ${result.bondingCurve.launchpad}, dev bundle ${result.bondingCurve.devBundleCurvePercent}% of curve`] : []),
+        `Forensics: ${result.forensicsStatus}`,
+        ...(quality ? [`Data quality: ${quality.inconclusive ? `INCONCLUSIVE (${quality.missingCritical.join('; ')})` : `${quality.confidence} confidence`}`] : []),
+        ...(result.failedWallets ? [`Trace: ${result.failedWallets.length} wallet(s) failed to load`] : []),
+        ...(result.scoringPolicy ? [`Policy: ${result.scoringPolicy.id}@${result.scoringPolicy.version}`] : []),
+        `Scanned: ${result.bundleControl?.lastUpdated || result.analysis.lastUpdated}`,
+    ];
+};
+
+const clusterSections = (result: ScanResult): ReportSection[] => {
+    const bc = result.bundleControl;
+    if (!bc) return [];
+    if (bc.clusters.length === 0) return [{ title: 'Bundle Clusters', level: 2, paragraphs: ['No bundle clusters detected.'] }];
+
+    const dump = bc.combinedSellSimulation ? `; if every cluster sold at once the price would drop ${bc.combinedSellSimulation.priceDropPercent.toFixed(1)}%` : '';
+    return [
+        {
+            title: 'Bundle Clusters',
+            level: 2,
+            paragraphs: [`Overall ${bc.overallRisk}: ${bc.clusterCount} cluster(s) of ${bc.totalWalletCount} wallets hold ${bc.totalBundledSupplyPercent}% of supply (${formatUSD(bc.totalBundledValueUSD)}, ${bc.lpImpactRatio}x liquidity)${dump}.`],
+            table: {
+                headers: ['Cluster', 'Wallets', 'Supply %', 'USD', 'LP impact', 'Dump', 'Risk', 'Factors'],
+                rows: bc.clusters.map(c => [
+                    c.id,
+                    String(c.wallets.length),
+                    c.totalSupplyPercent.toFixed(2),
+                    formatUSD(c.totalValueUSD),
+                    `${c.lpImpact}x`,
+                    c.sellSimulation ? `-${c.sellSimulation.priceDropPercent.toFixed(1)}%` : '-',
+                    `${c.risk} (${c.riskScore})`,
+                    c.riskFactors.join(', '),
+                ]),
+            },
+        },
+        ...bc.clusters.map((c): ReportSection => ({
+            title: c.id,
+            level: 3,
+            bullets: c.riskFactors.flatMap(f => describeFactorEvidence(c, f, result.chainId).map(line => `${f}: ${line}`)),
+            table: {
+                headers: ['Address', 'Status', 'Bought', 'Received', 'Sold', 'Balance', 'USD', 'Heuristics'],
+                rows: c.wallets.map(w => [
+                    w.address,
+                    w.status,
+                    formatAmount(w.boughtAmount),
+                    formatAmount(w.receivedAmount),
+                    formatAmount(w.soldAmount),
+                    formatAmount(w.currentBalance),
+                    formatUSD(w.holdingUSD),
+                    (w.heuristics || []).join(', '),
+                ]),
+            },
+        })),
+    ];
+};
+
+/** Assemble the report sections for a scan */
+export const buildScanReport = (result: ScanResult): ScanReport => ({
+    title: `${result.tokenName} (${result.tokenSymbol}) — Scan Report`,
+    sections: [
+        { title: 'Overview', level: 2, bullets: overview(result) },
+        ...(result.scoreBreakdown.length > 0 ? [{
+            title: 'Score Breakdown',
+            level: 2 as const,
+            table: {
+                headers: ['Status', 'Impact', 'Factor', 'Detail'],
+                rows: result.scoreBreakdown.map(f => [f.status, f.impact === 0 ? '+0' : String(f.impact), f.label, f.detail]),
+            },
+        }] : []),
+        ...clusterSections(result),
+        ...(result.wallets.length > 0 ? [{
+            title: 'Launch Wallets',
+            level: 2 as const,
+            table: {
+                headers: ['Address', 'Bundler', 'Funding source', 'Holding', '% of supply'],
+                rows: result.wallets.map(w => [w.address, w.isBundler ? 'yes' : 'no', w.fundingSource, formatAmount(w.holdingAmount), w.percentage.toFixed(2)]),
+            },
+        }] : []),
+    ],
+});
+
+// ── Markdown ──
+
+const markdownCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const markdownTable = ({ headers, rows }: ReportTable): string => [
+    `| ${headers.map(markdownCell).join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(r => `| ${r.map(markdownCell).join(' | ')} |`),
+].join('\n');
+
+export const renderMarkdownReport = (result: ScanResult): string => {
+    const report = buildScanReport(result);
+    const blocks = [`# ${report.title}`];
+    report.sections.forEach(s => {
+        blocks.push(`${'#'.repeat(s.level)} ${s.title}`);
+        s.paragraphs?.forEach(p => blocks.push(p));
+        if (s.bullets?.length) blocks.push(s.bullets.map(b => `- ${b}`).join('\n'));
+        if (s.table) blocks.push(markdownTable(s.table));
+    });
+    return blocks.join('\n\n') + '\n';
+};
+
+// ── PDF ──
+
+/** Space-padded columns for the monospaced PDF font */
+const alignedRows = ({ headers, rows }: ReportTable): string[] => {
+    const widths = headers.map((h, i) => Math.max(h.length, ...rows.map(r => (r[i] ?? '').length)));
+    const line = (cells: string[]) => cells.map((c, i) => (c ?? '').padEnd(widths[i])).join('  ').trimEnd();
+    return [line(headers), line(widths.map(w => '-'.repeat(w))), ...rows.map(line)];
+};
+
+export const renderPdfReport = (result: ScanResult): Uint8Array => {
+    const report = buildScanReport(result);
+    const lines: PdfLine[] = [{ text: report.title, style: 'title' }];
+    report.sections.forEach(s => {
+        lines.push({ text: s.title, style: 'heading' });
+        s.paragraphs?.forEach(text => lines.push({ text, style: 'text' }));
+        s.bullets?.forEach(b => lines.push({ text: `- ${b}`, style: 'text' }));
+        if (s.table) alignedRows(s.table).forEach(text => lines.push({ text, style: 'mono' }));
+    });
+    return writePdf(lines);
+};
+
+// ── CSV ──
+
+const csvCell = (value: string | number | boolean): string => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (headers: string[], rows: (string | number | boolean)[][]): string =>
+    [headers, ...rows].map(r => r.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+/** Launch wallets (`ScanResult.wallets`) */
+export const walletsToCsv = (result: ScanResult): string => toCsv(
+    ['address', 'is_bundler', 'funding_source', 'holding_amount', 'percentage'],
+    result.wallets.map(w => [w.address, w.isBundler, w.fundingSource, w.holdingAmount, w.percentage]),
+);
+
+/** Every wallet of every bundle cluster, one row per membership */
+export const clusterWalletsToCsv = (result: ScanResult): string => toCsv(
+    ['cluster_id', 'cluster_risk', 'cluster_risk_score', 'address', 'status', 'bought_amount', 'received_amount', 'sold_amount', 'current_balance', 'holding_usd', 'heuristics'],
+    (result.bundleControl?.clusters || []).flatMap(c => c.wallets.map(w => [
+        c.id, c.risk, c.riskScore, w.address, w.status, w.boughtAmount, w.receivedAmount, w.soldAmount, w.currentBalance, w.holdingUSD, (w.heuristics || []).join(';'),
+    ])),
+);
+
+// ── Export registry (HTTP routes and UI downloads) ──
+
+export type ScanExportName = 'report.md' | 'report.pdf' | 'wallets.csv' | 'cluster-wallets.csv';
+
+export const SCAN_EXPORTS: Record<ScanExportName, { label: string; contentType: string; render: (result: ScanResult) => string | Uint8Array }> = {
+    'report.md': { label: 'Markdown report', contentType: 'text/markdown; charset=utf-8', render: renderMarkdownReport },
+    'report.pdf': { label: 'PDF report', contentType: 'application/pdf', render: renderPdfReport },
+    'wallets.csv': { label: 'Launch wallets (CSV)', contentType: 'text/csv; charset=utf-8', render: walletsToCsv },
+    'cluster-wallets.csv': { label: 'Cluster wallets (CSV)', contentType: 'text/csv; charset=utf-8', render: clusterWalletsToCsv },
+};
+
+export const isScanExportName = (name: string): name is ScanExportName => Object.keys(SCAN_EXPORTS).includes(name);
+
+/** Download name, e.g. "PEPE-ethereum-0x6982508-report.pdf" */
+export const exportFileName = (result: ScanResult, name: ScanExportName): string =>
+    `${result.tokenSymbol.replace(/[^\w.-]/g, '') || 'token'}-${result.chainId}-${result.tokenAddress.slice(0, 9)}-${name}`;
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { createRequestScheduler, isRetryableError, settleEach, SchedulerClock } from './requestScheduler';
+
+/** Virtual clock: a sleeper wakes on the next macrotask with time moved to its wake-up point */
+const fakeClock = () => {
+    let now = 0;
+    const sleeps: number[] = [];
+    const clock: SchedulerClock = {
+        now: () => now,
+        sleep: async ms => {
+            sleeps.push(ms);
+            const wakeAt = now + ms;
+            await new Promise(resolve => setTimeout(resolve, 0));
+            now = Math.max(now, wakeAt);
+        },
+    };
+    return { clock, sleeps, elapsed: () => now };
+};
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+    new AxiosError('failed', 'ERR_BAD_RESPONSE', undefined, null, {
+        data: null, status, statusText: '', headers, config: { headers: new AxiosHeaders() },
+    });
+
+const options = { ratePerSecond: 10, burst: 2, concurrency: 2, maxRetries: 2, baseDelayMs: 100 };
+
+describe('createRequestScheduler', () => {
+    it('spaces requests once the burst is spent', async () => {
+        const { clock, elapsed } = fakeClock();
+        const scheduler = createRequestScheduler({ ...options, concurrency: 10 }, clock);
+        const startedAt: number[] = [];
+
+        await Promise.all(Array.from({ length: 4 }, () => scheduler.schedule(async () => { startedAt.push(elapsed()); })));
+
+        expect(startedAt).toEqual([0, 0, 100, 200]);
+    });
+
+    it('never runs more than `concurrency` tasks at once', async () => {
+        const { clock } = fakeClock();
+        const scheduler = createRequestScheduler({ ...options, burst: 10, ratePerSecond: 1000 }, clock);
+        let running = 0;
+        let peak = 0;
+
+        await Promise.all(Array.from({ length: 6 }, () => scheduler.schedule(async () => {
+            running++;
+            peak = Math.max(peak, running);
+            await new Promise(resolve => setTimeout(resolve, 1));
+            running--;
+        })));
+
+        expect(peak).toBe(2);
+    });
+
+    it('retries 429/5xx with exponential backoff, honouring Retry-After', async () => {
+        const { clock, sleeps } = fakeClock();
+        const scheduler = createRequestScheduler({ ...options, burst: 10 }, clock);
+        const failures = [httpError(503), httpError(429, { 'retry-after': '2' })];
+
+        const result = await scheduler.schedule(async () => {
+            const next = failures.shift();
+            if (next) throw next;
+            return 'ok';
+        });
+
+        expect(result).toBe('ok');
+        expect(sleeps).toEqual([100, 2000]);
+    });
+
+    it('gives up after maxRetries and does not retry client errors', async () => {
+        const { clock } = fakeClock();
+        const scheduler = createRequestScheduler({ ...options, burst: 10 }, clock);
+        let calls = 0;
+
+        await expect(scheduler.schedule(async () => { calls++; throw httpError(500); })).rejects.toThrow();
+        expect(calls).toBe(3);
+
+        calls = 0;
+        await expect(scheduler.schedule(async () => { calls++; throw httpError(404); })).rejects.toThrow();
+        expect(calls).toBe(1);
+    });
+});
+
+describe('isRetryableError', () => {
+    it('retries dropped connections but not replay misses or plain errors', () => {
+        expect(isRetryableError(new AxiosError('reset', 'ECONNRESET'))).toBe(true);
+        expect(isRetryableError(new AxiosError('No recorded fixture', AxiosError.ERR_NETWORK))).toBe(false);
+        expect(isRetryableError(new Error('boom'))).toBe(false);
+    });
+});
+
+describe('settleEach', () => {
+    it('reports failed items with a reason', async () => {
+        const { fulfilled, failed } = await settleEach(['a', 'b', 'c'], async item => {
+            if (item === 'b') throw httpError(429);
+            return item.toUpperCase();
+        });
+
+        expect(fulfilled).toEqual(['A', 'C']);
+        expect(failed).toEqual([{ item: 'b', reason: 'HTTP 429' }]);
+    });
+});
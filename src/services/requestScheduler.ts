@@ -0,0 +1,152 @@
+import axios from 'axios';
+
+// ───────────────────────────────────────────────
+// Request scheduler — per-provider rate limits, concurrency and retries
+// ───────────────────────────────────────────────
+
+export interface SchedulerOptions {
+    /** Sustained request rate (token bucket refill) */
+    ratePerSecond: number;
+    /** Bucket size: requests that may start back-to-back after an idle spell */
+    burst: number;
+    /** Requests in flight at once */
+    concurrency: number;
+    /** Extra attempts after a 429/5xx or dropped connection */
+    maxRetries: number;
+    /** First backoff; doubles on every retry unless the provider sends Retry-After */
+    baseDelayMs: number;
+}
+
+export interface SchedulerClock {
+    now(): number;
+    sleep(ms: number): Promise<void>;
+}
+
+export interface RequestScheduler {
+    /** Run `task` once a concurrency slot and a rate token are free, retrying transient failures */
+    schedule<T>(task: () => Promise<T>): Promise<T>;
+}
+
+const systemClock: SchedulerClock = {
+    now: () => Date.now(),
+    sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+};
+
+// Connection-level failures worth another attempt (replay misses are ERR_NETWORK and are not)
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN']);
+
+export const isRetryableError = (err: unknown): boolean => {
+    if (!axios.isAxiosError(err)) return false;
+    const status = err.response?.status;
+    if (status !== undefined) return status === 429 || status >= 500;
+    return RETRYABLE_CODES.has(err.code || '');
+};
+
+/** Retry-After in ms (seconds form only), when the provider sent one */
+const retryAfterMs = (err: unknown): number | undefined => {
+    if (!axios.isAxiosError(err)) return undefined;
+    const seconds = Number(err.response?.headers?.['retry-after']);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+};
+
+/** Short reason for failure reports: HTTP status when there is one, else the error message */
+export const describeError = (err: unknown): string => {
+    if (axios.isAxiosError(err) && err.response) return `HTTP ${err.response.status}`;
+    return (err as Error)?.message || String(err);
+};
+
+export const createRequestScheduler = (options: SchedulerOptions, clock: SchedulerClock = systemClock): RequestScheduler => {
+    let tokens = options.burst;
+    let refilledAt = clock.now();
+    let active = 0;
+    const waiting: (() => void)[] = [];
+
+    const takeToken = async () => {
+        for (;;) {
+            const now = clock.now();
+            tokens = Math.min(options.burst, tokens + ((now - refilledAt) / 1000) * options.ratePerSecond);
+            refilledAt = now;
+            if (tokens >= 1) {
+                tokens -= 1;
+                return;
+            }
+            await clock.sleep(Math.ceil(((1 - tokens) / options.ratePerSecond) * 1000));
+        }
+    };
+
+    const acquireSlot = (): Promise<void> => {
+        if (active < options.concurrency) {
+            active++;
+            return Promise.resolve();
+        }
+        return new Promise(resolve => waiting.push(resolve));
+    };
+
+    // A freed slot passes straight to the next waiter, so `active` only drops when nobody waits
+    const releaseSlot = () => {
+        const next = waiting.shift();
+        if (next) next();
+        else active--;
+    };
+
+    const schedule = async <T>(task: () => Promise<T>): Promise<T> => {
+        await acquireSlot();
+        try {
+            for (let attempt = 0; ; attempt++) {
+                await takeToken();
+                try {
+                    return await task();
+                } catch (err) {
+                    if (attempt >= options.maxRetries || !isRetryableError(err)) throw err;
+                    await clock.sleep(retryAfterMs(err) ?? options.baseDelayMs * 2 ** attempt);
+                }
+            }
+        } finally {
+            releaseSlot();
+        }
+    };
+
+    return { schedule };
+};
+
+// ───────────────────────────────────────────────
+// Shared per-provider schedulers
+// ───────────────────────────────────────────────
+
+export type ScheduledProvider = 'helius' | 'alchemy' | 'moralis';
+
+// Sized to each provider's free-tier limits; every request to the provider shares one bucket
+export const PROVIDER_LIMITS: Record<ScheduledProvider, SchedulerOptions> = {
+    helius: { ratePerSecond: 10, burst: 10, concurrency: 5, maxRetries: 3, baseDelayMs: 500 },
+    alchemy: { ratePerSecond: 25, burst: 25, concurrency: 8, maxRetries: 3, baseDelayMs: 500 },
+    moralis: { ratePerSecond: 5, burst: 5, concurrency: 3, maxRetries: 3, baseDelayMs: 1000 },
+};
+
+const schedulers = new Map<ScheduledProvider, RequestScheduler>();
+
+export const providerScheduler = (provider: ScheduledProvider): RequestScheduler => {
+    let scheduler = schedulers.get(provider);
+    if (!scheduler) {
+        scheduler = createRequestScheduler(PROVIDER_LIMITS[provider]);
+        schedulers.set(provider, scheduler);
+    }
+    return scheduler;
+};
+
+/**
+ * Run `fetch` for every item at once — the provider scheduler does the pacing — and
+ * split the outcomes so callers can report what failed instead of dropping it.
+ */
+export const settleEach = async <T>(
+    items: string[],
+    fetch: (item: string) => Promise<T>
+): Promise<{ fulfilled: T[]; failed: { item: string; reason: string }[] }> => {
+    const outcomes = await Promise.allSettled(items.map(fetch));
+    const fulfilled: T[] = [];
+    const failed: { item: string; reason: string }[] = [];
+    outcomes.forEach((outcome, i) => {
+        if (outcome.status === 'fulfilled') fulfilled.push(outcome.value);
+        else failed.push({ item: items[i], reason: describeError(outcome.reason) });
+    });
+    return { fulfilled, failed };
+};
@@ -0,0 +1,280 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createScanEngine, targetForCandidate } from './scanEngine';
+import { createProviderRegistry } from './liveProviders';
+import { DexPairData } from './dexScreener';
+import { HeliusWalletData } from './heliusService';
+import { DEFAULT_SCORING_POLICY, ScoringPolicyError } from './scoringPolicy';
+
+const pair = (chainId: string, tokenAddress: string, pairAddress: string, liquidityUsd: number, extra: Partial<DexPairData> = {}) => ({
+    chainId, pairAddress, dexId: 'dex', url: '',
+    baseToken: { address: tokenAddress, name: 'Pepe', symbol: 'PEPE' },
+    quoteToken: { address: 'QUOTE', name: 'Wrapped', symbol: 'WETH' },
+    priceUsd: '0.5', liquidity: { usd: liquidityUsd, base: 0, quote: 0 }, fdv: 1_000_000,
+    ...extra,
+}) as DexPairData;
+
+// Search results for "PEPE": two tokens on ethereum, one on base (same address as the ethereum one)
+const PAIRS = [
+    pair('ethereum', '0xAAA', '0xP1', 900_000, { pairCreatedAt: 2_000 }),
+    pair('base', '0xaaa', '0xP2', 500_000, { pairCreatedAt: 5_000 }),
+    pair('ethereum', '0xAAA', '0xP3', 300_000, { pairCreatedAt: 1_000 }),
+    pair('ethereum', '0xBBB', '0xP4', 50_000),
+];
+
+const engineOver = (pairs: DexPairData[]) => createScanEngine(createProviderRegistry({
+    market: { name: 'stub', searchPairs: vi.fn(async () => pairs) },
+    security: { name: 'stub', checkTokenSecurity: async () => null },
+    forensics: { name: 'stub', isConfigured: () => false, getTokenForensics: async () => null },
+    tracers: [],
+}));
+
+describe('findCandidates', () => {
+    it('groups pairs by chain and base token, deepest total liquidity first', async () => {
+        const candidates = await engineOver(PAIRS).findCandidates('PEPE');
+
+        expect(candidates.map(c => [c.chainId, c.tokenAddress, c.liquidityUsd, c.pairCount])).toEqual([
+            ['ethereum', '0xAAA', 1_200_000, 2],
+            ['base', '0xaaa', 500_000, 1],
+            ['ethereum', '0xBBB', 50_000, 1],
+        ]);
+        expect(candidates[0].topPair.pairAddress).toBe('0xP1');
+        expect(candidates[0].pairCreatedAt).toBe(1_000);
+    });
+
+    it('filters by chain and returns nothing for demo queries', async () => {
+        const engine = engineOver(PAIRS);
+        expect((await engine.findCandidates('PEPE', 'base')).map(c => c.tokenAddress)).toEqual(['0xaaa']);
+        expect(await engine.findCandidates('rug')).toEqual([]);
+    });
+
+    it('lets the scan that follows reuse its search once', async () => {
+        const searchPairs = vi.fn(async (_query: string) => PAIRS);
+        const engine = createScanEngine(createProviderRegistry({
+            market: { name: 'stub', searchPairs },
+            security: { name: 'stub', checkTokenSecurity: async () => null },
+            forensics: { name: 'stub', isConfigured: () => false, getTokenForensics: async () => null },
+            tracers: [],
+        }));
+        const searchesFor = (query: string) => searchPairs.mock.calls.filter(([q]) => q === query).length;
+
+        const [candidate] = await engine.findCandidates('0xAAA', 'ethereum');
+        await engine.runFullScan(targetForCandidate(candidate));
+        expect(searchesFor('0xAAA')).toBe(1);
+
+        // A later scan of the same token asks the market again
+        await engine.runFullScan(targetForCandidate(candidate));
+        expect(searchesFor('0xAAA')).toBe(2);
+    });
+});
+
+describe('runFullScan demo scenarios', () => {
+    it('stamps the scoring policy on demo results', async () => {
+        const result = await engineOver(PAIRS).runFullScan('safe');
+        expect(result.scoringPolicy).toEqual({ id: DEFAULT_SCORING_POLICY.id, version: DEFAULT_SCORING_POLICY.version });
+    });
+});
+
+describe('runFullScan target selection', () => {
+    it('never mixes pairs of other tokens into a raw query scan', async () => {
+        const result = await engineOver(PAIRS).runFullScan('PEPE');
+
+        expect(result).toMatchObject({ chainId: 'ethereum', tokenAddress: '0xAAA' });
+        expect(result.pairs.map(p => p.pairAddress)).toEqual(['0xP1', '0xP3']);
+    });
+
+    it('judges liquidity by the depth of all pools, not just the priced one', async () => {
+        const result = await engineOver(PAIRS).runFullScan({ chainId: 'ethereum', tokenAddress: '0xAAA', pairAddress: '0xP3' });
+
+        expect(result.liquidity).toEqual({ totalUSD: 1_200_000, topPairUSD: 900_000, pairCount: 2, thinPoolCount: 0 });
+        expect(result.analysis.lpValueUSD).toBe(1_200_000);
+        expect(result.analysis.liquidityMcapRatio).toBe(1.2);
+        expect(result.scoreBreakdown.find(f => f.label === 'Liquidity')?.status).toBe('pass');
+    });
+
+    it('prefers the token whose address was queried over a deeper same-symbol token', async () => {
+        const result = await engineOver(PAIRS).runFullScan('0xBBB');
+        expect(result.tokenAddress).toBe('0xBBB');
+    });
+
+    it('scans the pinned chain, token and pair of a ScanTarget', async () => {
+        const engine = engineOver(PAIRS);
+
+        const onBase = await engine.runFullScan({ chainId: 'base', tokenAddress: '0xAAA' });
+        expect(onBase).toMatchObject({ chainId: 'base', selectedPair: { pairAddress: '0xP2' } });
+
+        const pinned = await engine.runFullScan({ chainId: 'ethereum', tokenAddress: '0xaaa', pairAddress: '0xP3' });
+        expect(pinned.selectedPair.pairAddress).toBe('0xP3');
+        expect(pinned.selectedPair.liquidityUSD).toBe(300_000);
+
+        const missing = await engine.runFullScan({ chainId: 'solana', tokenAddress: '0xAAA' });
+        expect(missing.chainId).toBe('unknown');
+    });
+});
+
+describe('runFullScan token supply', () => {
+    const engineWithSupply = (getTokenSupply: () => Promise<{ totalSupply: number; burnedSupply: number } | null>, pairs = PAIRS) =>
+        createScanEngine(createProviderRegistry({
+            market: { name: 'stub', searchPairs: async () => pairs },
+            security: { name: 'stub', checkTokenSecurity: async () => null },
+            forensics: { name: 'stub', isConfigured: () => false, getTokenForensics: async () => null },
+            tracers: [],
+            supply: [{ name: 'stub', supportsChain: c => c === 'ethereum', isConfigured: () => true, getTokenSupply }],
+        }));
+
+    it('takes on-chain supply and subtracts burned tokens', async () => {
+        const result = await engineWithSupply(async () => ({ totalSupply: 1_000_000, burnedSupply: 250_000 })).runFullScan('0xAAA');
+        expect(result.supply).toEqual({ totalSupply: 1_000_000, burnedSupply: 250_000, circulatingSupply: 750_000, source: 'onchain' });
+    });
+
+    it('falls back to FDV / price, and to nothing without an FDV', async () => {
+        const failing = engineWithSupply(async () => { throw new Error('rpc down'); });
+        expect((await failing.runFullScan('0xAAA')).supply).toEqual({ totalSupply: 2_000_000, burnedSupply: 0, circulatingSupply: 2_000_000, source: 'estimated' });
+
+        const noFdv = engineWithSupply(async () => null, PAIRS.map(p => ({ ...p, fdv: 0 })));
+        expect((await noFdv.runFullScan('0xAAA')).supply).toBeUndefined();
+    });
+});
+
+describe('runFullScan data quality', () => {
+    it('records each provider call and caps the score when security data is missing', async () => {
+        const engine = createScanEngine(createProviderRegistry({
+            market: { name: 'stub', searchPairs: async () => PAIRS },
+            security: { name: 'goplus', checkTokenSecurity: async () => { throw new Error('rate limited'); } },
+            forensics: { name: 'moralis', isConfigured: () => true, getTokenForensics: async () => ({ holders: [], block0Transfers: [], earlyTransfers: [], creationBlock: 0, chain: 'ethereum' }) },
+            tracers: [],
+        }));
+
+        const result = await engine.runFullScan('0xAAA');
+
+        expect(result.dataQuality?.calls.map(c => [c.step, c.status])).toEqual([
+            ['market', 'ok'],
+            ['supply', 'not_supported'],
+            ['security', 'failed'],
+            ['forensics', 'ok'],
+            ['tracing', 'not_supported'],
+        ]);
+        expect(result.dataQuality).toMatchObject({ confidence: 'low', inconclusive: true });
+        expect(result.score).toBe(60);
+        expect(result.riskLevel).toBe('CAUTION');
+    });
+
+    it('tells a failed pair lookup apart from a token with no pairs', async () => {
+        const engineWith = (searchPairs: () => Promise<DexPairData[]>) => createScanEngine(createProviderRegistry({
+            market: { name: 'dexscreener', searchPairs },
+            security: { name: 'stub', checkTokenSecurity: async () => null },
+            forensics: { name: 'stub', isConfigured: () => false, getTokenForensics: async () => null },
+            tracers: [],
+        }));
+
+        const failed = await engineWith(async () => { throw new Error('HTTP 503'); }).runFullScan('0xAAA');
+        expect(failed.dataQuality).toMatchObject({ inconclusive: true, missingCritical: ['market: failed (HTTP 503)'] });
+
+        const missing = await engineWith(async () => []).runFullScan('0xAAA');
+        expect(missing.dataQuality?.calls).toEqual([{ step: 'market', provider: 'dexscreener', status: 'no_data', detail: '0 pairs' }]);
+        expect(missing.dataQuality?.inconclusive).toBe(false);
+        expect(missing.scoringPolicy).toEqual({ id: DEFAULT_SCORING_POLICY.id, version: DEFAULT_SCORING_POLICY.version });
+    });
+
+    it('reports tracing as failed when the analysis after a trace throws', async () => {
+        const MINT = 'Mint1111111111111111111111111111111111pump';
+        const engine = createScanEngine(createProviderRegistry({
+            market: { name: 'stub', searchPairs: async () => [] },
+            security: { name: 'stub', checkTokenSecurity: async () => null },
+            forensics: { name: 'stub', isConfigured: () => false, getTokenForensics: async () => null },
+            // A malformed wallet makes the cluster analysis throw after the trace was recorded
+            tracers: [{
+                name: 'helius', supportsChain: () => true, isConfigured: () => true,
+                traceDistributionTree: async () => ({ wallets: [{ address: 'Dev' } as HeliusWalletData], failedWallets: [] }),
+            }],
+            launchpad: {
+                name: 'pump.fun', isConfigured: () => true, isLaunchpadToken: () => true,
+                getLaunch: async () => ({ mint: MINT, creator: 'Dev', createdAt: 0, creationSlot: 100, buys: [], sells: [] }),
+            },
+        }));
+
+        const tracing = (await engine.runFullScan(MINT)).dataQuality?.calls.filter(c => c.step === 'tracing');
+
+        expect(tracing).toHaveLength(1);
+        expect(tracing?.[0]).toMatchObject({ provider: 'helius', status: 'failed' });
+    });
+});
+
+describe('runFullScan on a bonding curve', () => {
+    const MINT = 'Mint1111111111111111111111111111111111pump';
+    const WSOL = 'So11111111111111111111111111111111111111112';
+    const trade = (wallet: string, tokenAmount: number, slot: number) => ({ wallet, tokenAmount, solAmount: 0, timestamp: 0, slot, signature: '' });
+    const launch = {
+        mint: MINT, creator: 'Dev', createdAt: 1_700_000_000, creationSlot: 100, bondingCurve: 'Curve', name: 'Moon', symbol: 'MOON',
+        buys: [trade('Dev', 100_000_000, 100), trade('Sniper', 150_000_000, 100), trade('Retail', 23_000_000, 140)],
+        sells: [],
+    };
+
+    it('prices a pre-migration token from its curve and scores the dev bundle', async () => {
+        const solPair = pair('solana', WSOL, 'SOLPOOL', 10_000_000, { priceUsd: '150' });
+        const getLaunch = vi.fn(async () => launch);
+        const engine = createScanEngine(createProviderRegistry({
+            market: { name: 'stub', searchPairs: async q => q === WSOL ? [solPair] : [] },
+            security: { name: 'stub', checkTokenSecurity: async () => null },
+            forensics: { name: 'stub', isConfigured: () => false, getTokenForensics: async () => null },
+            tracers: [],
+            launchpad: { name: 'stub', isConfigured: () => true, isLaunchpadToken: (_chain, address) => address.endsWith('pump'), getLaunch },
+        }));
+
+        const result = await engine.runFullScan(MINT);
+
+        expect(getLaunch).toHaveBeenCalledWith(MINT);
+        expect(result).toMatchObject({ chainId: 'solana', tokenAddress: MINT, tokenSymbol: 'MOON', selectedPair: { dexName: 'pump.fun', pairAddress: 'Curve' } });
+        // 273M sold: virtual reserves 800M tokens / 40.24 SOL
+        expect(result.priceUsd).toBeCloseTo((30 * 1_073_000_000 / 800_000_000 / 800_000_000) * 150, 12);
+        expect(result.liquidity!.totalUSD).toBeCloseTo((30 * 1_073_000_000 / 800_000_000 - 30) * 150, 6);
+        expect(result.bondingCurve).toMatchObject({ curveProgressPercent: 34.42, devBundleWallets: ['Dev', 'Sniper'], devBundleCurvePercent: 31.52 });
+        expect(result.scoreBreakdown.find(f => f.label === 'Dev Bundle (Bonding Curve)')?.impact).toBe(-25);
+    });
+});
+
+describe('runFullScan partial provider data', () => {
+    it('marks a launch and a trace with gaps as partial rather than ok', async () => {
+        const MINT = 'Mint1111111111111111111111111111111111pump';
+        const wallet = (address: string, incomplete?: string) => ({
+            address, buys: [], sells: [], outgoingTransfers: [], incomingTransfers: [], currentBalance: 0, isSeedWallet: true, traceDepth: 0,
+            ...(incomplete && { incomplete }),
+        });
+        const engine = createScanEngine(createProviderRegistry({
+            market: { name: 'stub', searchPairs: async () => [] },
+            security: { name: 'stub', checkTokenSecurity: async () => null },
+            forensics: { name: 'stub', isConfigured: () => false, getTokenForensics: async () => null },
+            tracers: [{
+                name: 'helius', supportsChain: c => c === 'solana', isConfigured: () => true,
+                traceDistributionTree: async () => ({ wallets: [wallet('Dev'), wallet('Sniper', 'page 2: HTTP 429')], failedWallets: [] }),
+            }],
+            launchpad: {
+                name: 'pump.fun', isConfigured: () => true, isLaunchpadToken: () => true,
+                getLaunch: async () => ({
+                    mint: MINT, creator: 'Dev', createdAt: 0, creationSlot: 100, buys: [{ wallet: 'Sniper', tokenAmount: 1_000_000, solAmount: 0, timestamp: 0, slot: 100, signature: '' }],
+                    sells: [], incomplete: 'metadata: HTTP 500',
+                }),
+            },
+        }));
+
+        const calls = (await engine.runFullScan(MINT)).dataQuality?.calls || [];
+
+        expect(calls.find(c => c.step === 'launchpad')).toMatchObject({ status: 'partial', detail: 'metadata: HTTP 500' });
+        expect(calls.find(c => c.step === 'tracing')).toMatchObject({ status: 'partial', detail: '2 of 2 wallets traced, 1 with incomplete history' });
+    });
+});
+
+describe('createScanEngine', () => {
+    it('rejects an unknown product before any provider is called', () => {
+        const searchPairs = vi.fn(async () => PAIRS);
+        const create = () => createScanEngine(createProviderRegistry({
+            market: { name: 'stub', searchPairs },
+            security: { name: 'stub', checkTokenSecurity: async () => null },
+            forensics: { name: 'stub', isConfigured: () => false, getTokenForensics: async () => null },
+            tracers: [],
+        }), { scoringPolicy: DEFAULT_SCORING_POLICY, product: 'nope' });
+
+        expect(create).toThrow(ScoringPolicyError);
+        expect(create).toThrow('atlaix-default has no product "nope"');
+        expect(searchPairs).not.toHaveBeenCalled();
+    });
+});
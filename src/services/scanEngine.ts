@@ -1,9 +1,20 @@
-import { ScanResult, MOCK_SCENARIOS, WalletNode, ScoreFactor, BundleControlResult } from '../lib/mockData';
-import { searchAllPairs, mapDexToLiquidityPair } from './dexScreener';
-import { checkTokenSecurity } from './goPlus';
-import { getTokenForensics, ForensicData, NormalizedTransfer } from './moralisService';
-import { traceDistributionTree } from './heliusService';
+import { ScanResult, MOCK_SCENARIOS, WalletNode, BundleControlResult, ClusterGraph, LiquidityPair, LiquiditySummary, TokenSupply, FailedWallet, ProviderCall, DataQuality } from '../lib/mockData';
+import { DexPairData, TokenCandidate, mapDexToLiquidityPair, groupPairCandidates } from './dexScreener';
+import { ForensicData, NormalizedTransfer } from './moralisService';
 import { analyzeBundleClusters } from './bundleAnalyzer';
+import { HeliusWalletData } from './heliusService';
+import { ProviderRegistry, findTracer, findSupplyProvider } from './providers';
+import { createProviderRegistry } from './liveProviders';
+import { calculateScore, riskLevelForScore } from './scoring';
+import { ScoringPolicyDocument, ScoringPolicyStamp, DEFAULT_SCORING_POLICY, resolveScoringPolicy } from './scoringPolicy';
+import { ReputationRegistry } from './walletReputation';
+import { normalizeAddress } from '../lib/addresses';
+import { aggregateLiquidity } from './liquidity';
+import { simulateClusterExits } from './priceImpact';
+import { assessDataQuality } from './dataQuality';
+import { describeError } from './requestScheduler';
+import { computeWalletPnl } from './walletPnl';
+import { BondingCurveLaunch, analyzeBondingCurve, curveState, PUMP_FUN_TOTAL_SUPPLY } from './pumpFunService';
 
 // ───────────────────────────────────────────────
 // Zero-address constants (minting transactions)
@@ -16,60 +27,180 @@ const ZERO_ADDRESSES = new Set([
 ]);
 const isZeroAddress = (addr: string): boolean => ZERO_ADDRESSES.has(addr);
 
+// ───────────────────────────────────────────────
+// ENGINE FACTORY
+// ───────────────────────────────────────────────
+
+/** How long a candidate search stays fresh enough to scan from */
+const SEARCH_REUSE_MS = 60_000;
+
+/** One specific token to scan, e.g. a candidate the user picked */
+export interface ScanTarget {
+    chainId: string;
+    tokenAddress: string;
+    /** Pair to price from (defaults to the token's deepest pair on the chain) */
+    pairAddress?: string;
+}
+
+export interface ScanEngine {
+    /** A raw query scans its deepest-liquidity match; a ScanTarget pins chain, token and pair */
+    runFullScan(target: ScanTarget | string): Promise<ScanResult>;
+    /** Distinct tokens matching an address or symbol, deepest liquidity first (none for demo queries) */
+    findCandidates(query: string, chainId?: string): Promise<TokenCandidate[]>;
+}
+
+export interface ScanEngineOptions {
+    /** Scoring weights and thresholds (defaults to DEFAULT_SCORING_POLICY) */
+    scoringPolicy?: ScoringPolicyDocument;
+    /** Product override to apply from the policy's `products` section */
+    product?: string;
+    /** Cross-token wallet reputation: consulted before clustering, updated after each scan */
+    reputation?: ReputationRegistry;
+}
+
+/**
+ * Build a scan engine over injected providers (live APIs, custom indexers or fixtures).
+ * Throws ScoringPolicyError for an unknown `product`, before any provider is called.
+ */
+export const createScanEngine = (
+    providers: ProviderRegistry = createProviderRegistry(),
+    options: ScanEngineOptions = {}
+): ScanEngine => {
+    resolveScoringPolicy(options.scoringPolicy ?? DEFAULT_SCORING_POLICY, { product: options.product });
+
+    // findCandidates' search, taken once by the scan that follows it. Only an address query
+    // matches: a text search lists just some of a token's pairs, so a picked symbol still looks up its own.
+    const recentSearches = new Map<string, { pairs: DexPairData[]; at: number }>();
+    const market = {
+        ...providers.market,
+        searchPairs: async (query: string) => {
+            const recent = recentSearches.get(query);
+            recentSearches.delete(query);
+            return recent && Date.now() - recent.at < SEARCH_REUSE_MS ? recent.pairs : providers.market.searchPairs(query);
+        },
+    };
+
+    return {
+        runFullScan: (target: ScanTarget | string) => scanWithProviders({ ...providers, market }, options, target),
+        findCandidates: async (query: string, chainId?: string) => {
+            if (demoScenario(query)) return [];
+            const pairs = await providers.market.searchPairs(query.trim());
+            recentSearches.set(query.trim(), { pairs, at: Date.now() });
+            const candidates = groupPairCandidates(pairs);
+            return chainId ? candidates.filter(c => c.chainId === chainId) : candidates;
+        },
+    };
+};
+
+export const targetForCandidate = (candidate: TokenCandidate): ScanTarget => ({
+    chainId: candidate.chainId,
+    tokenAddress: candidate.tokenAddress,
+    pairAddress: candidate.topPair.pairAddress,
+});
+
+let defaultEngine: ScanEngine | undefined;
+
 // ───────────────────────────────────────────────
 // MAIN SCAN ENTRY POINT
 // ───────────────────────────────────────────────
 
-export const runFullScan = async (query: string): Promise<ScanResult> => {
-    // 1. Check demo scenarios
+/** Scan with the live provider registry */
+export const runFullScan = (target: ScanTarget | string): Promise<ScanResult> => {
+    defaultEngine ??= createScanEngine();
+    return defaultEngine.runFullScan(target);
+};
+
+const demoScenario = (query: string): ScanResult | undefined => {
     const normalized = query.toUpperCase().trim();
     if (normalized === 'RUG' || normalized === 'VAMPIRE') return { ...MOCK_SCENARIOS['VAMPIRE'] };
     if (normalized === 'NEST') return { ...MOCK_SCENARIOS['NEST'] };
     if (normalized === 'SAFE') return { ...MOCK_SCENARIOS['SAFE'] };
+    return undefined;
+};
+
+const scanWithProviders = async (providers: ProviderRegistry, options: ScanEngineOptions, target: ScanTarget | string): Promise<ScanResult> => {
+    // Results that never reach scoring (demos, tokens not found) carry the policy without a chain override
+    const { stamp: baseStamp } = resolveScoringPolicy(options.scoringPolicy ?? DEFAULT_SCORING_POLICY, { product: options.product });
+
+    // 1. Check demo scenarios
+    const query = typeof target === 'string' ? target.trim() : target.tokenAddress;
+    const demo = typeof target === 'string' ? demoScenario(target) : undefined;
+    if (demo) return { ...demo, scoringPolicy: baseStamp };
 
     // 2. Live Scan
-    console.log(`[ScanEngine] Starting live scan for: ${query}`);
+    console.log(`[ScanEngine] Starting live scan for: ${typeof target === 'string' ? query : `${query} on ${target.chainId}`}`);
+
+    // Every provider step is recorded for ScanResult.dataQuality
+    const calls: ProviderCall[] = [];
 
-    // ── A. Fetch pairs from DexScreener ──
-    const allDexPairs = await searchAllPairs(query);
-    if (allDexPairs.length === 0) {
-        console.warn('[ScanEngine] Token not found on DexScreener.');
-        return buildEmptyResult(query);
+    // ── A. Fetch pairs (market data provider) ──
+    // A failed lookup is not "no pairs": it is recorded so the result can't pass for a clean miss
+    let allDexPairs: DexPairData[] = [];
+    try {
+        allDexPairs = selectTokenPairs(await providers.market.searchPairs(query), target);
+        calls.push({ step: 'market', provider: providers.market.name, status: allDexPairs.length > 0 ? 'ok' : 'no_data', detail: `${allDexPairs.length} pairs` });
+    } catch (e) {
+        console.warn(`[ScanEngine] ${providers.market.name} pair lookup failed:`, e);
+        calls.push({ step: 'market', provider: providers.market.name, status: 'failed', detail: describeError(e) });
     }
 
-    const bestPair = allDexPairs[0];
-    const allPairsMapped = allDexPairs.map(p => mapDexToLiquidityPair(p));
-    const chainId = bestPair.chainId;
-    const tokenAddress = bestPair.baseToken.address;
-    const priceUsd = parseFloat(bestPair.priceUsd || '0');
-    const liquidityUsd = bestPair.liquidity?.usd || 0;
-    const fdv = bestPair.fdv || 0;
+    // ── A2. Launchpad: pre-migration tokens have no pair yet, only a bonding curve ──
+    const launch = allDexPairs.length > 0
+        ? await findLaunch(providers, calls, allDexPairs[0].chainId, allDexPairs[0].baseToken.address, allDexPairs.map(p => p.dexId))
+        : await findLaunch(providers, calls, typeof target === 'string' ? 'solana' : target.chainId, query, []);
+    const bondingCurve = launch ? analyzeBondingCurve(launch) : undefined;
 
-    console.log(`[ScanEngine] ${allDexPairs.length} pairs on ${chainId}: ${bestPair.baseToken.symbol} | Price: $${priceUsd} | Liq: $${liquidityUsd.toLocaleString()} | FDV: $${fdv.toLocaleString()}`);
+    if (allDexPairs.length === 0 && !launch) {
+        console.warn(`[ScanEngine] Token not found via ${providers.market.name}.`);
+        return buildEmptyResult(query, assessDataQuality(calls), baseStamp);
+    }
+
+    const market = allDexPairs.length > 0
+        ? marketFromPairs(allDexPairs, typeof target === 'string' ? undefined : target.pairAddress)
+        : await marketFromCurve(providers, launch!);
+    const { chainId, tokenAddress, priceUsd, fdv, pairs: allPairsMapped, selectedPair, liquidity } = market;
+    // Depth across every pool: liquidity split over several DEXes still absorbs selling
+    const liquidityUsd = liquidity.totalUSD;
 
-    // ── B. Fetch Security Data (GoPlus) ──
+    console.log(`[ScanEngine] ${allPairsMapped.length} pairs on ${chainId}: ${market.tokenSymbol} | Price: $${priceUsd} | Liq: $${liquidityUsd.toLocaleString()} (top pair $${liquidity.topPairUSD.toLocaleString()}) | FDV: $${fdv.toLocaleString()}`);
+    if (liquidity.thinPoolCount > 0) {
+        console.warn(`[ScanEngine] ${liquidity.thinPoolCount} thin pool(s): tiny liquidity with heavy 24h volume`);
+    }
+    if (bondingCurve) {
+        console.log(`[ScanEngine] pump.fun launch: ${bondingCurve.curveProgressPercent}% of curve sold | dev bundle ${bondingCurve.devBundleWallets.length} wallets, ${bondingCurve.devBundleCurvePercent}% of curve${bondingCurve.migration ? ` | migrated to ${bondingCurve.migration.venue}` : ''}`);
+    }
+
+    // ── A3. Token supply (percentages of supply are of circulating supply) ──
+    const supply = await resolveSupply(providers, calls, chainId, tokenAddress, fdv, priceUsd);
+    if (supply) {
+        console.log(`[ScanEngine] Supply (${supply.source}): ${supply.circulatingSupply.toLocaleString()} circulating of ${supply.totalSupply.toLocaleString()} (${supply.burnedSupply.toLocaleString()} burned)`);
+    } else {
+        console.warn('[ScanEngine] Token supply unknown; supply percentages will read 0.');
+    }
+
+    // ── B. Fetch Security Data ──
     let securityData = null;
     try {
-        securityData = await checkTokenSecurity(chainId, tokenAddress);
-        console.log('[ScanEngine] GoPlus Security:', securityData);
+        securityData = await providers.security.checkTokenSecurity(chainId, tokenAddress);
+        console.log(`[ScanEngine] Security (${providers.security.name}):`, securityData);
+        calls.push(securityData
+            ? { step: 'security', provider: providers.security.name, status: 'ok' }
+            : { step: 'security', provider: providers.security.name, status: 'no_data', detail: 'Token unknown to the provider' });
     } catch (e) {
-        console.warn('[ScanEngine] GoPlus check failed, continuing.');
+        console.warn(`[ScanEngine] ${providers.security.name} check failed, continuing.`);
+        calls.push({ step: 'security', provider: providers.security.name, status: 'failed', detail: describeError(e) });
     }
 
-    // ── C. Fetch Forensic Data (Moralis — EVM + Solana) ──
-    // Universal env check
-    const moralisKey = (typeof import.meta !== 'undefined' && import.meta.env)
-        ? import.meta.env.VITE_MORALIS_API_KEY
-        : process.env.VITE_MORALIS_API_KEY;
-
+    // ── C. Fetch Forensic Data ──
     let forensics: ForensicData | null = null;
     let forensicsStatus: 'SUCCESS' | 'MISSING_KEY' | 'NOT_SUPPORTED' | 'ERROR' = 'NOT_SUPPORTED';
+    let forensicsError: string | undefined;
 
-    if (!moralisKey) {
+    if (!providers.forensics.isConfigured()) {
         forensicsStatus = 'MISSING_KEY';
     } else {
         try {
-            forensics = await getTokenForensics(chainId, tokenAddress);
+            forensics = await providers.forensics.getTokenForensics(chainId, tokenAddress);
             if (forensics) {
                 forensicsStatus = 'SUCCESS';
                 console.log('[ScanEngine] Forensics received:', {
@@ -85,8 +216,10 @@ export const runFullScan = async (query: string): Promise<ScanResult> => {
         } catch (e) {
             console.warn('[ScanEngine] Forensics error:', e);
             forensicsStatus = 'ERROR';
+            forensicsError = describeError(e);
         }
     }
+    calls.push(forensicsCall(providers.forensics.name, forensicsStatus, forensics, forensicsError));
 
     // ── D. Analyze forensic data ──
     const analysisResult = analyzeForensics(forensics, priceUsd, fdv, chainId);
@@ -94,74 +227,75 @@ export const runFullScan = async (query: string): Promise<ScanResult> => {
     // ── D2. Deep bundle analysis ──
     // Uses recursive distribution tree tracing: seed buyers → recipients → sub-recipients
     let bundleControl: BundleControlResult | undefined;
-    const isSolana = chainId === 'solana';
+    let clusterGraph: ClusterGraph | undefined;
+    let failedWallets: FailedWallet[] = [];
+    const tracer = findTracer(providers, chainId);
+    // The dev bundle bought from the curve, so it can be missing from DEX-based forensics
+    const block0Addresses = [...new Set([...analysisResult.block0Buyers, ...(bondingCurve?.devBundleWallets || [])])];
+
+    if (!tracer) {
+        const unconfigured = providers.tracers.some(t => t.supportsChain(chainId));
+        calls.push({ step: 'tracing', provider: 'none', status: unconfigured ? 'missing_key' : 'not_supported', detail: unconfigured ? undefined : `No tracer for ${chainId}` });
+    } else if (block0Addresses.length === 0) {
+        calls.push({ step: 'tracing', provider: tracer.name, status: 'skipped', detail: 'No launch buyers to trace' });
+    }
 
-    // Universal env check for Helius and Alchemy
-    const heliusKey = (typeof import.meta !== 'undefined' && import.meta.env)
-        ? import.meta.env.VITE_HELIUS_API_KEY
-        : process.env.VITE_HELIUS_API_KEY;
-
-    const alchemyKey = (typeof import.meta !== 'undefined' && import.meta.env)
-        ? import.meta.env.VITE_ALCHEMY_API_KEY
-        : process.env.VITE_ALCHEMY_API_KEY;
-
-    if (isSolana && heliusKey) {
-        // Solana: Trace distribution tree via Helius
-        const block0Addresses = [...analysisResult.block0Buyers];
-        if (block0Addresses.length > 0) {
-            try {
-                console.log(`[ScanEngine] Running Helius distribution tree analysis on ${block0Addresses.length} seed wallets...`);
-                const walletData = await traceDistributionTree(block0Addresses, tokenAddress);
-                const totalSupply = fdv > 0 && priceUsd > 0 ? fdv / priceUsd : 0;
-
-                // Build block0 map for fallback
-                const block0BuyMap = new Map<string, number>();
-                if (forensics && forensics.block0Transfers) {
-                    forensics.block0Transfers.forEach(tx => {
-                        if (tx.buyerAddress) {
-                            const current = block0BuyMap.get(tx.buyerAddress) || 0;
-                            block0BuyMap.set(tx.buyerAddress, current + tx.tokenAmount);
-                        }
-                    });
-                }
-
-                bundleControl = analyzeBundleClusters(walletData, totalSupply, priceUsd, liquidityUsd, block0Addresses, forensics?.holders || [], block0BuyMap);
-            } catch (err) {
-                console.warn('[ScanEngine] Helius analysis failed:', err);
+    if (tracer && block0Addresses.length > 0) {
+        try {
+            console.log(`[ScanEngine] Running ${tracer.name} distribution tree analysis on ${block0Addresses.length} seed wallets...`);
+            const trace = await tracer.traceDistributionTree(block0Addresses, tokenAddress, chainId, {
+                pairAddresses: allPairsMapped.map(p => p.pairAddress).filter(Boolean),
+                launchBlock: forensics?.creationBlock || launch?.creationSlot || undefined,
+            });
+            const walletData = trace.wallets;
+            failedWallets = trace.failedWallets;
+            if (failedWallets.length > 0) {
+                console.warn(`[ScanEngine] ${failedWallets.length} wallet(s) could not be traced; clusters may be incomplete`);
             }
-        }
-    }
-    else if (!isSolana && alchemyKey) {
-        // EVM: Trace distribution tree via Alchemy
-        const block0Addresses = [...analysisResult.block0Buyers];
-        if (block0Addresses.length > 0) {
-            try {
-                // Dynamic import to keep Alchemy as an optional dependency
-                console.log(`[ScanEngine] Running Alchemy EVM trace on ${block0Addresses.length} seed wallets...`);
-                const { traceEvmDistributionTree } = await import('./alchemyService');
-                const walletData = await traceEvmDistributionTree(block0Addresses, tokenAddress, chainId);
-
-                const totalSupply = fdv > 0 && priceUsd > 0 ? fdv / priceUsd : 0;
-
-                // Build block0 map
-                const block0BuyMap = new Map<string, number>();
-                if (forensics && forensics.block0Transfers) {
-                    forensics.block0Transfers.forEach(tx => {
-                        if (tx.buyerAddress) {
-                            const current = block0BuyMap.get(tx.buyerAddress) || 0;
-                            block0BuyMap.set(tx.buyerAddress, current + tx.tokenAmount);
-                        }
-                    });
-                }
-
-                bundleControl = analyzeBundleClusters(walletData, totalSupply, priceUsd, liquidityUsd, block0Addresses, forensics?.holders || [], block0BuyMap);
-                console.log('[ScanEngine] EVM Bundle analysis complete:', {
-                    clusters: bundleControl.clusterCount,
-                    risk: bundleControl.overallRisk
+            // Wallets that loaded with gaps (a later page or lookup failed) still count as traced
+            const incomplete = walletData.filter(w => w.incomplete).length;
+            const coverage = { covered: walletData.length, total: walletData.length + failedWallets.length };
+            calls.push({
+                step: 'tracing',
+                provider: tracer.name,
+                status: failedWallets.length > 0 || incomplete > 0 ? 'partial' : 'ok',
+                detail: `${coverage.covered} of ${coverage.total} wallets traced${incomplete > 0 ? `, ${incomplete} with incomplete history` : ''}`,
+                coverage,
+            });
+            const totalSupply = supply?.circulatingSupply ?? 0;
+
+            // Build block0 map for fallback
+            const block0BuyMap = new Map<string, number>();
+            if (forensics && forensics.block0Transfers) {
+                forensics.block0Transfers.forEach(tx => {
+                    if (tx.buyerAddress) {
+                        const current = block0BuyMap.get(tx.buyerAddress) || 0;
+                        block0BuyMap.set(tx.buyerAddress, current + tx.tokenAmount);
+                    }
                 });
-            } catch (err) {
-                console.warn('[ScanEngine] Alchemy EVM analysis failed:', err);
             }
+
+            const knownBundlers = await findKnownBundlers(options.reputation, walletData, chainId, tokenAddress);
+            bundleControl = simulateClusterExits(
+                analyzeBundleClusters(walletData, totalSupply, priceUsd, liquidityUsd, block0Addresses, forensics?.holders || [], block0BuyMap, knownBundlers),
+                allPairsMapped,
+                priceUsd
+            );
+            // Swap quote amounts are in SOL; wallets without them get no PnL
+            const pricedSwaps = chainId === 'solana' && walletData.some(w => [...w.buys, ...w.sells].some(t => t.quoteAmount !== undefined));
+            const nativeUsd = pricedSwaps ? await findSolPrice(providers) : 0;
+            clusterGraph = buildClusterGraph(walletData, bundleControl, priceUsd, nativeUsd);
+            console.log('[ScanEngine] Bundle analysis complete:', {
+                clusters: bundleControl.clusterCount,
+                risk: bundleControl.overallRisk
+            });
+        } catch (err) {
+            console.warn(`[ScanEngine] ${tracer.name} analysis failed:`, err);
+            // Replaces the trace's own entry: without the analysis, its coverage counts for nothing
+            const failed: ProviderCall = { step: 'tracing', provider: tracer.name, status: 'failed', detail: describeError(err) };
+            const traced = calls.findIndex(c => c.step === 'tracing');
+            if (traced >= 0) calls[traced] = failed;
+            else calls.push(failed);
         }
     }
 
@@ -203,10 +337,16 @@ export const runFullScan = async (query: string): Promise<ScanResult> => {
         totalInsiderSold: 0,
         currentInsiderHoldings: initialInsiderSupply,
         retentionRate: 1.0,
+        ...(bondingCurve ? { devBundleCurvePercent: bondingCurve.devBundleCurvePercent } : {}),
     };
 
     // Calculate safety score
-    const { score, breakdown: scoreBreakdown } = calculateScore(liquidityUsd, securityData, analysis, bundleControl);
+    const { policy, stamp } = resolveScoringPolicy(options.scoringPolicy ?? DEFAULT_SCORING_POLICY, { chainId, product: options.product });
+    const dataQuality = assessDataQuality(calls, policy.dataQuality);
+    if (dataQuality.inconclusive) {
+        console.warn(`[ScanEngine] Inconclusive scan (${dataQuality.missingCritical.join('; ')}); score capped at ${policy.dataQuality.inconclusiveScoreCap}`);
+    }
+    const { score, breakdown: scoreBreakdown } = calculateScore(liquidityUsd, securityData, analysis, bundleControl, policy, dataQuality);
 
     // ── H. Threat type ──
     let threatType: 'ORGANIC_GROWTH' | 'ACCUMULATION_PHASE' | 'DISTRIBUTION_PHASE' | 'UNKNOWN' = 'ORGANIC_GROWTH';
@@ -221,34 +361,243 @@ export const runFullScan = async (query: string): Promise<ScanResult> => {
     }
 
     // ── I. Risk level ──
-    let riskLevel: 'SAFE' | 'CAUTION' | 'DANGER' | 'CRITICAL';
-    if (score >= 80) riskLevel = 'SAFE';
-    else if (score >= 50) riskLevel = 'CAUTION';
-    else if (score >= 20) riskLevel = 'DANGER';
-    else riskLevel = 'CRITICAL';
+    const riskLevel = riskLevelForScore(score, policy);
 
     const result: ScanResult = {
         score, riskLevel, threatType, forensicsStatus, scoreBreakdown,
         marketCap: fdv,
-        tokenName: bestPair.baseToken.name || bestPair.baseToken.symbol,
-        tokenSymbol: bestPair.baseToken.symbol,
+        tokenName: market.tokenName,
+        tokenSymbol: market.tokenSymbol,
+        tokenAddress,
         priceUsd, chainId,
         isBurned: securityData ? !securityData.is_mintable : false,
         isLocked: securityData ? !!securityData.is_open_source : false,
         isSoledOld: false,
         pairs: allPairsMapped,
-        selectedPair: mapDexToLiquidityPair(bestPair),
+        selectedPair,
+        liquidity,
         analysis,
         wallets: wallets.length > 0 ? wallets : [
             { address: 'No holder data available', isBundler: false, fundingSource: 'N/A', holdingAmount: 0, percentage: 0 },
         ],
         bundleControl,
+        clusterGraph,
+        bondingCurve,
+        supply,
+        ...(failedWallets.length > 0 ? { failedWallets } : {}),
+        dataQuality,
+        scoringPolicy: stamp,
     };
 
+    if (options.reputation && bundleControl) {
+        try {
+            await options.reputation.recordScan(result);
+        } catch (e) {
+            console.warn('[ScanEngine] Could not update wallet reputation:', e);
+        }
+    }
+
     console.log('[ScanEngine] Final Result:', result);
     return result;
 };
 
+/**
+ * Narrow search results to the pairs of one base token, so a ticker never mixes
+ * same-symbol tokens from other chains. A raw query takes the exact address match,
+ * else the deepest-liquidity token.
+ */
+const selectTokenPairs = (pairs: DexPairData[], target: ScanTarget | string): DexPairData[] => {
+    const candidates = groupPairCandidates(pairs);
+    const hasAddress = (c: TokenCandidate, address: string) => normalizeAddress(c.tokenAddress) === normalizeAddress(address);
+
+    const chosen = typeof target === 'string'
+        ? candidates.find(c => hasAddress(c, target.trim())) ?? candidates[0]
+        : candidates.find(c => c.chainId === target.chainId && hasAddress(c, target.tokenAddress));
+    if (!chosen) return [];
+
+    if (typeof target === 'string' && candidates.length > 1) {
+        console.warn(`[ScanEngine] "${target}" matches ${candidates.length} tokens; scanning ${chosen.tokenSymbol} on ${chosen.chainId} (${chosen.tokenAddress}). Pass a chain to pick another.`);
+    }
+    return pairs.filter(p => p.chainId === chosen.chainId && normalizeAddress(p.baseToken.address) === normalizeAddress(chosen.tokenAddress));
+};
+
+/** The requested pair, or the deepest one */
+const selectPair = (pairs: DexPairData[], pairAddress?: string): DexPairData => {
+    if (!pairAddress) return pairs[0];
+    const pair = pairs.find(p => normalizeAddress(p.pairAddress) === normalizeAddress(pairAddress));
+    if (!pair) console.warn(`[ScanEngine] Pair ${pairAddress} not found for this token; using the deepest pair.`);
+    return pair ?? pairs[0];
+};
+
+/** Traced wallets and their funders that the registry has seen bundling other launches */
+const findKnownBundlers = async (
+    reputation: ReputationRegistry | undefined,
+    walletData: HeliusWalletData[],
+    chainId: string,
+    tokenAddress: string
+): Promise<Set<string>> => {
+    if (!reputation) return new Set();
+    const candidates = [...new Set(walletData.flatMap(w => [
+        w.address,
+        ...(w.fundingSource && !w.fundingSource.isCex ? [w.fundingSource.address] : []),
+    ]))];
+    try {
+        const serial = await reputation.findSerialBundlers(candidates, { chainId, tokenAddress });
+        if (serial.size > 0) console.log(`[ScanEngine] ${serial.size} known serial bundler(s) among traced wallets`);
+        // The registry stores normalized addresses; the analyzer matches the tracer's originals
+        return new Set(candidates.filter(a => serial.has(normalizeAddress(a))));
+    } catch (e) {
+        console.warn('[ScanEngine] Reputation lookup failed, continuing without it:', e);
+        return new Set();
+    }
+};
+
+// ═══════════════════════════════════════════════
+// MARKET — prices and pools, from DEX pairs or a bonding curve
+// ═══════════════════════════════════════════════
+
+const WRAPPED_SOL = 'So11111111111111111111111111111111111111112';
+
+interface MarketView {
+    chainId: string;
+    tokenAddress: string;
+    tokenName: string;
+    tokenSymbol: string;
+    priceUsd: number;
+    fdv: number;
+    pairs: LiquidityPair[];
+    selectedPair: LiquidityPair;
+    liquidity: LiquiditySummary;
+}
+
+const marketFromPairs = (dexPairs: DexPairData[], pairAddress?: string): MarketView => {
+    const bestPair = selectPair(dexPairs, pairAddress);
+    const { pairs, summary } = aggregateLiquidity(dexPairs.map(p => mapDexToLiquidityPair(p)));
+    return {
+        chainId: bestPair.chainId,
+        tokenAddress: bestPair.baseToken.address,
+        tokenName: bestPair.baseToken.name || bestPair.baseToken.symbol,
+        tokenSymbol: bestPair.baseToken.symbol,
+        priceUsd: parseFloat(bestPair.priceUsd || '0'),
+        fdv: bestPair.fdv || 0,
+        pairs,
+        selectedPair: pairs[dexPairs.indexOf(bestPair)],
+        liquidity: summary,
+    };
+};
+
+/** Price and depth of a token still on its curve: the curve acts as one constant-product pool */
+const marketFromCurve = async (providers: ProviderRegistry, launch: BondingCurveLaunch): Promise<MarketView> => {
+    const curve = curveState(launch);
+    const solUsd = await findSolPrice(providers);
+    const priceUsd = curve.priceSol * solUsd;
+    const tokenSymbol = launch.symbol || '???';
+
+    const { pairs, summary } = aggregateLiquidity([{
+        dexName: 'pump.fun',
+        liquidityUSD: curve.realSol * solUsd,
+        pairAddress: launch.bondingCurve || '',
+        baseTokenSymbol: tokenSymbol,
+        quoteTokenSymbol: 'SOL',
+        baseReserve: curve.virtualTokens,
+    }]);
+    return {
+        chainId: 'solana',
+        tokenAddress: launch.mint,
+        tokenName: launch.name || tokenSymbol,
+        tokenSymbol,
+        priceUsd,
+        fdv: priceUsd * PUMP_FUN_TOTAL_SUPPLY,
+        pairs,
+        selectedPair: pairs[0],
+        liquidity: summary,
+    };
+};
+
+/** SOL/USD from the market provider's deepest wrapped-SOL pair (0 when unavailable) */
+const findSolPrice = async (providers: ProviderRegistry): Promise<number> => {
+    try {
+        const pairs = await providers.market.searchPairs(WRAPPED_SOL);
+        const solPair = pairs.find(p => p.chainId === 'solana' && p.baseToken.address === WRAPPED_SOL && parseFloat(p.priceUsd || '0') > 0);
+        return solPair ? parseFloat(solPair.priceUsd) : 0;
+    } catch (e) {
+        console.warn('[ScanEngine] SOL price lookup failed; SOL-quoted values will read $0:', e);
+        return 0;
+    }
+};
+
+/** On-chain supply when a provider covers the chain, else the FDV / price estimate */
+const resolveSupply = async (
+    providers: ProviderRegistry,
+    calls: ProviderCall[],
+    chainId: string,
+    tokenAddress: string,
+    fdv: number,
+    priceUsd: number
+): Promise<TokenSupply | undefined> => {
+    const provider = findSupplyProvider(providers, chainId);
+    if (provider) {
+        try {
+            const onChain = await provider.getTokenSupply(chainId, tokenAddress);
+            if (onChain && onChain.totalSupply > 0) {
+                const burnedSupply = Math.min(onChain.burnedSupply, onChain.totalSupply);
+                calls.push({ step: 'supply', provider: provider.name, status: 'ok' });
+                return { totalSupply: onChain.totalSupply, burnedSupply, circulatingSupply: onChain.totalSupply - burnedSupply, source: 'onchain' };
+            }
+            calls.push({ step: 'supply', provider: provider.name, status: 'no_data', detail: 'Estimated from FDV / price' });
+        } catch (e) {
+            console.warn(`[ScanEngine] ${provider.name} supply lookup failed, estimating from FDV:`, e);
+            calls.push({ step: 'supply', provider: provider.name, status: 'failed', detail: `${describeError(e)}; estimated from FDV / price` });
+        }
+    } else {
+        calls.push({ step: 'supply', provider: 'none', status: 'not_supported', detail: 'Estimated from FDV / price' });
+    }
+    if (fdv > 0 && priceUsd > 0) {
+        const estimate = fdv / priceUsd;
+        return { totalSupply: estimate, burnedSupply: 0, circulatingSupply: estimate, source: 'estimated' };
+    }
+    return undefined;
+};
+
+/** The token's bonding-curve launch, when the registry's launchpad recognises it */
+const findLaunch = async (
+    providers: ProviderRegistry,
+    calls: ProviderCall[],
+    chainId: string,
+    tokenAddress: string,
+    dexIds: string[]
+): Promise<BondingCurveLaunch | null> => {
+    const launchpad = providers.launchpad;
+    if (!launchpad?.isConfigured() || !launchpad.isLaunchpadToken(chainId, tokenAddress, dexIds)) return null;
+    try {
+        const launch = await launchpad.getLaunch(tokenAddress);
+        calls.push(launch?.incomplete
+            ? { step: 'launchpad', provider: launchpad.name, status: 'partial', detail: launch.incomplete }
+            : { step: 'launchpad', provider: launchpad.name, status: launch ? 'ok' : 'no_data' });
+        return launch;
+    } catch (e) {
+        console.warn(`[ScanEngine] ${launchpad.name} launch lookup failed, continuing without it:`, e);
+        calls.push({ step: 'launchpad', provider: launchpad.name, status: 'failed', detail: describeError(e) });
+        return null;
+    }
+};
+
+/** The forensics step as a ProviderCall; partial when some of the provider's endpoints failed */
+const forensicsCall = (
+    provider: string,
+    status: ScanResult['forensicsStatus'],
+    forensics: ForensicData | null,
+    error?: string
+): ProviderCall => {
+    if (status === 'MISSING_KEY') return { step: 'forensics', provider, status: 'missing_key' };
+    if (status === 'ERROR') return { step: 'forensics', provider, status: 'failed', detail: error };
+    if (!forensics) return { step: 'forensics', provider, status: 'not_supported' };
+    if (forensics.failedEndpoints?.length) {
+        return { step: 'forensics', provider, status: 'partial', detail: `${forensics.failedEndpoints.join(', ')} unavailable` };
+    }
+    return { step: 'forensics', provider, status: 'ok', detail: `${forensics.block0Transfers.length} launch buys, ${forensics.holders.length} holders` };
+};
+
 // ═══════════════════════════════════════════════
 // FORENSIC ANALYSIS — Core bundle detection logic
 // ═══════════════════════════════════════════════
@@ -438,137 +787,41 @@ const buildWalletList = (
 };
 
 // ═══════════════════════════════════════════════
-// SCORING
+// CLUSTER GRAPH
 // ═══════════════════════════════════════════════
 
-const calculateScore = (
-    liquidityUsd: number,
-    security: any,
-    analysis: any,
-    bundleControl?: BundleControlResult
-): { score: number; breakdown: ScoreFactor[] } => {
-    let score = 100;
-    const breakdown: ScoreFactor[] = [];
-
-    // ── Contract Security Checks ──
-    if (security?.is_honeypot) {
-        breakdown.push({ label: 'Honeypot', impact: -100, status: 'fail', detail: 'Cannot sell — confirmed honeypot' });
-        return { score: 0, breakdown };
-    }
-
-    if (security?.is_mintable) {
-        score -= 25;
-        breakdown.push({ label: 'Mintable Supply', impact: -25, status: 'fail', detail: 'Owner can mint new tokens' });
-    }
-
-    const buyTax = parseFloat(security?.buy_tax || '0');
-    if (buyTax > 10) {
-        score -= 15;
-        breakdown.push({ label: 'Buy Tax', impact: -15, status: 'fail', detail: `${buyTax.toFixed(1)}% tax on buys` });
-    }
-
-    const sellTax = parseFloat(security?.sell_tax || '0');
-    if (sellTax > 10) {
-        score -= 15;
-        breakdown.push({ label: 'Sell Tax', impact: -15, status: 'fail', detail: `${sellTax.toFixed(1)}% tax on sells` });
-    }
-
-    if (security?.cannot_sell_all) {
-        score -= 30;
-        breakdown.push({ label: 'Sell Restriction', impact: -30, status: 'fail', detail: 'Cannot sell entire balance' });
-    }
-
-    // ── Liquidity ──
-    if (liquidityUsd < 1000) {
-        score -= 40;
-        breakdown.push({ label: 'Liquidity', impact: -40, status: 'fail', detail: `$${liquidityUsd.toLocaleString()} — critically low` });
-    } else if (liquidityUsd < 5000) {
-        score -= 25;
-        breakdown.push({ label: 'Liquidity', impact: -25, status: 'warn', detail: `$${liquidityUsd.toLocaleString()} — low` });
-    } else if (liquidityUsd < 20000) {
-        score -= 10;
-        breakdown.push({ label: 'Liquidity', impact: -10, status: 'warn', detail: `$${liquidityUsd.toLocaleString()} — moderate` });
-    } else {
-        breakdown.push({ label: 'Liquidity', impact: 0, status: 'pass', detail: `$${liquidityUsd.toLocaleString()} — healthy` });
-    }
-
-    // ── Bundle Activity ──
-    if (analysis.bundleWalletCount > 10) {
-        score -= 30;
-        breakdown.push({ label: 'Bundle Activity', impact: -30, status: 'fail', detail: `${analysis.bundleWalletCount} bundled wallets — heavy coordination` });
-    } else if (analysis.bundleWalletCount > 5) {
-        score -= 15;
-        breakdown.push({ label: 'Bundle Activity', impact: -15, status: 'warn', detail: `${analysis.bundleWalletCount} bundled wallets — moderate coordination` });
-    } else if (analysis.bundleWalletCount > 2) {
-        score -= 5;
-        breakdown.push({ label: 'Bundle Activity', impact: -5, status: 'warn', detail: `${analysis.bundleWalletCount} bundled wallets detected` });
-    } else {
-        breakdown.push({ label: 'Bundle Activity', impact: 0, status: 'pass', detail: analysis.bundleWalletCount > 0 ? `${analysis.bundleWalletCount} wallet(s) — minimal` : 'No bundle activity detected' });
-    }
-
-    // ── Launch Block Volume ──
-    if (analysis.block0Volume > 50000) {
-        score -= 25;
-        breakdown.push({ label: 'Launch Volume', impact: -25, status: 'fail', detail: `$${analysis.block0Volume.toLocaleString()} — massive launch buying` });
-    } else if (analysis.block0Volume > 10000) {
-        score -= 15;
-        breakdown.push({ label: 'Launch Volume', impact: -15, status: 'warn', detail: `$${analysis.block0Volume.toLocaleString()} — high launch buying` });
-    } else if (analysis.block0Volume > 5000) {
-        score -= 10;
-        breakdown.push({ label: 'Launch Volume', impact: -10, status: 'warn', detail: `$${analysis.block0Volume.toLocaleString()} — moderate launch buying` });
-    } else {
-        breakdown.push({ label: 'Launch Volume', impact: 0, status: 'pass', detail: analysis.block0Volume > 0 ? `$${analysis.block0Volume.toLocaleString()} — low` : 'No launch block activity' });
-    }
-
-    // ── Holder Concentration ──
-    if (analysis.holdingConcentration > 80) {
-        score -= 20;
-        breakdown.push({ label: 'Holder Concentration', impact: -20, status: 'fail', detail: `${analysis.holdingConcentration.toFixed(1)}% held by top 20 — very concentrated` });
-    } else if (analysis.holdingConcentration > 60) {
-        score -= 10;
-        breakdown.push({ label: 'Holder Concentration', impact: -10, status: 'warn', detail: `${analysis.holdingConcentration.toFixed(1)}% held by top 20 — concentrated` });
-    } else {
-        breakdown.push({ label: 'Holder Concentration', impact: 0, status: 'pass', detail: `${analysis.holdingConcentration.toFixed(1)}% held by top 20 — distributed` });
-    }
+const buildClusterGraph = (walletData: HeliusWalletData[], bundleControl: BundleControlResult, priceUsd: number, nativeUsd: number): ClusterGraph => {
+    const clusterOf = new Map<string, string>();
+    bundleControl.clusters.forEach(c => c.wallets.forEach(w => clusterOf.set(w.address, c.id)));
 
-    // ── Deep Bundle Analysis (Helius) ──
-    if (bundleControl && bundleControl.clusterCount > 0) {
-        // LP Impact Ratio
-        if (bundleControl.lpImpactRatio > 1.5) {
-            score -= 20;
-            breakdown.push({ label: 'LP Impact Ratio', impact: -20, status: 'fail', detail: `${bundleControl.lpImpactRatio}x — bundled value far exceeds LP` });
-        } else if (bundleControl.lpImpactRatio > 1.0) {
-            score -= 15;
-            breakdown.push({ label: 'LP Impact Ratio', impact: -15, status: 'fail', detail: `${bundleControl.lpImpactRatio}x — bundled value exceeds LP` });
-        } else if (bundleControl.lpImpactRatio > 0.5) {
-            score -= 10;
-            breakdown.push({ label: 'LP Impact Ratio', impact: -10, status: 'warn', detail: `${bundleControl.lpImpactRatio}x — significant LP pressure risk` });
-        } else {
-            breakdown.push({ label: 'LP Impact Ratio', impact: 0, status: 'pass', detail: `${bundleControl.lpImpactRatio}x — manageable LP impact` });
-        }
-
-        // Bundled Supply %
-        if (bundleControl.totalBundledSupplyPercent > 30) {
-            score -= 15;
-            breakdown.push({ label: 'Bundled Supply', impact: -15, status: 'fail', detail: `${bundleControl.totalBundledSupplyPercent}% of supply held by bundle clusters` });
-        } else if (bundleControl.totalBundledSupplyPercent > 10) {
-            score -= 8;
-            breakdown.push({ label: 'Bundled Supply', impact: -8, status: 'warn', detail: `${bundleControl.totalBundledSupplyPercent}% of supply in bundle clusters` });
-        } else if (bundleControl.totalBundledSupplyPercent > 0) {
-            breakdown.push({ label: 'Bundled Supply', impact: 0, status: 'pass', detail: `${bundleControl.totalBundledSupplyPercent}% — low bundled supply` });
-        }
-    }
-
-    return { score: Math.max(0, Math.min(100, score)), breakdown };
+    return {
+        nodes: walletData.map(w => ({
+            address: w.address,
+            clusterId: clusterOf.get(w.address),
+            isSeedWallet: w.isSeedWallet,
+            traceDepth: w.traceDepth,
+            fundedBy: w.fundingSource?.address,
+            fundedByCex: w.fundingSource?.isCex,
+            currentBalance: w.currentBalance,
+            buys: w.buys,
+            sells: w.sells,
+            incomingTransfers: w.incomingTransfers,
+            pnl: computeWalletPnl(w, priceUsd, nativeUsd),
+        })),
+        // SPL burns have no destination to draw an edge to
+        edges: walletData.flatMap(w => w.outgoingTransfers.filter(t => t.to).map(t => ({
+            from: w.address, to: t.to, tokenAmount: t.tokenAmount, timestamp: t.timestamp,
+        }))),
+    };
 };
 
 // ═══════════════════════════════════════════════
 // EMPTY RESULT
 // ═══════════════════════════════════════════════
 
-const buildEmptyResult = (query: string): ScanResult => ({
+const buildEmptyResult = (query: string, dataQuality: DataQuality, scoringPolicy: ScoringPolicyStamp): ScanResult => ({
     score: 0, riskLevel: 'CAUTION', threatType: 'UNKNOWN',
-    marketCap: 0, tokenName: query, tokenSymbol: '???',
+    marketCap: 0, tokenName: query, tokenSymbol: '???', tokenAddress: query,
     priceUsd: 0, chainId: 'unknown',
     isBurned: false, isLocked: false, isSoledOld: false,
     pairs: [],
@@ -589,4 +842,6 @@ const buildEmptyResult = (query: string): ScanResult => ({
     forensicsStatus: 'MISSING_KEY',
     scoreBreakdown: [],
     wallets: [],
+    dataQuality,
+    scoringPolicy,
 });
@@ -0,0 +1,148 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, appendFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createScanHistoryStore, memoryHistoryBackend, localStorageHistoryBackend } from './scanHistory';
+import { createFileHistoryStore } from './scanHistoryFile';
+import { MOCK_SCENARIOS, ScanResult, BundleCluster, RiskLevel } from '../lib/mockData';
+
+const cluster = (id: string, addresses: string[]): BundleCluster => ({
+    id,
+    wallets: addresses.map(address => ({ address, boughtAmount: 1, receivedAmount: 0, currentBalance: 1, soldAmount: 0, holdingUSD: 1, status: 'active' })),
+    totalSupplyPercent: 1, totalValueUSD: 1, status: 'Active', lpImpact: 0, risk: 'Low', riskScore: 30, riskFactors: [], internalTransferCount: 0,
+});
+
+const scan = (tokenAddress: string, riskLevel: RiskLevel, clusters: BundleCluster[] = [], chainId = 'solana'): ScanResult => {
+    const base = structuredClone(MOCK_SCENARIOS['SAFE']);
+    return {
+        ...base,
+        chainId,
+        tokenAddress,
+        tokenSymbol: tokenAddress.slice(0, 4).toUpperCase(),
+        riskLevel,
+        bundleControl: { ...base.analysis, clusters, clusterCount: clusters.length },
+    };
+};
+
+const at = (iso: string) => new Date(iso);
+
+describe('scan history store', () => {
+    it('lists every scan of a token oldest first, keyed by chain + address', async () => {
+        const store = createScanHistoryStore(memoryHistoryBackend());
+        await store.save(scan('TokenA', 'SAFE'), at('2024-03-02T00:00:00Z'));
+        await store.save(scan('TokenA', 'DANGER'), at('2024-03-01T00:00:00Z'));
+        await store.save(scan('TokenA', 'SAFE', [], 'bsc'), at('2024-03-03T00:00:00Z'));
+        await store.save(scan('TokenB', 'SAFE'), at('2024-03-03T00:00:00Z'));
+
+        const records = await store.listScansForToken('solana', 'TokenA');
+        expect(records.map(r => [r.scannedAt, r.riskLevel])).toEqual([
+            ['2024-03-01T00:00:00.000Z', 'DANGER'],
+            ['2024-03-02T00:00:00.000Z', 'SAFE'],
+        ]);
+        expect(records[0].id).toBe('solana:TokenA:2024-03-01T00:00:00.000Z');
+        expect(records[0].forensicsStatus).toBe('SUCCESS');
+    });
+
+    it('matches EVM addresses case-insensitively but keeps Solana addresses exact', async () => {
+        const store = createScanHistoryStore(memoryHistoryBackend());
+        await store.save(scan('0xAbCdEf', 'SAFE', [cluster('C', ['0xWALLET'])], 'ethereum'));
+        await store.save(scan('MintAbc', 'SAFE'));
+
+        expect(await store.listScansForToken('ethereum', '0xabcdef')).toHaveLength(1);
+        expect(await store.findTokensByWallet('0xwallet')).toHaveLength(1);
+        expect(await store.listScansForToken('solana', 'mintabc')).toHaveLength(0);
+    });
+
+    it('finds the tokens a wallet was clustered in, using the latest scan per token', async () => {
+        const store = createScanHistoryStore(memoryHistoryBackend());
+        await store.save(scan('TokenA', 'DANGER', [cluster('Funding Cluster (X)', ['W1', 'W2'])]), at('2024-03-01T00:00:00Z'));
+        await store.save(scan('TokenA', 'CRITICAL', [cluster('Network Cluster', ['W1'])]), at('2024-03-02T00:00:00Z'));
+        await store.save(scan('TokenB', 'SAFE', [cluster('Temporal Cluster (7)', ['W1', 'W3'])]), at('2024-03-01T12:00:00Z'));
+        await store.save(scan('TokenC', 'SAFE', [cluster('Other', ['W9'])]), at('2024-03-03T00:00:00Z'));
+
+        expect(await store.findTokensByWallet('W1')).toEqual([
+            { chainId: 'solana', tokenAddress: 'TokenA', tokenSymbol: 'TOKE', clusterId: 'Network Cluster', scannedAt: '2024-03-02T00:00:00.000Z', riskLevel: 'CRITICAL' },
+            { chainId: 'solana', tokenAddress: 'TokenB', tokenSymbol: 'TOKE', clusterId: 'Temporal Cluster (7)', scannedAt: '2024-03-01T12:00:00.000Z', riskLevel: 'SAFE' },
+        ]);
+        expect(await store.findTokensByWallet('W2')).toHaveLength(1);
+        expect(await store.findTokensByWallet('Nobody')).toEqual([]);
+    });
+
+    it('lists CRITICAL scans within the window, newest first', async () => {
+        const store = createScanHistoryStore(memoryHistoryBackend());
+        const now = at('2024-03-10T00:00:00Z');
+        await store.save(scan('Old', 'CRITICAL'), at('2024-03-02T23:59:59Z'));
+        await store.save(scan('Edge', 'CRITICAL'), at('2024-03-03T00:00:00Z'));
+        await store.save(scan('Recent', 'CRITICAL'), at('2024-03-09T00:00:00Z'));
+        await store.save(scan('Danger', 'DANGER'), at('2024-03-09T00:00:00Z'));
+
+        const records = await store.listCriticalScans(7, now);
+        expect(records.map(r => r.tokenAddress)).toEqual(['Recent', 'Edge']);
+    });
+});
+
+describe('localStorage history backend', () => {
+    afterEach(() => vi.unstubAllGlobals());
+
+    it('writes a batch with a single read and write, keeping the newest records', async () => {
+        const store = new Map<string, string>();
+        const storage = {
+            getItem: vi.fn((key: string) => store.get(key) ?? null),
+            setItem: vi.fn((key: string, value: string) => { store.set(key, value); }),
+        };
+        vi.stubGlobal('localStorage', storage);
+
+        const backend = localStorageHistoryBackend<number>('test', 3);
+        await backend.append(1);
+        await backend.appendMany([2, 3, 4]);
+
+        expect(storage.setItem).toHaveBeenCalledTimes(2);
+        expect(storage.getItem).toHaveBeenCalledTimes(2);
+        expect(await backend.load()).toEqual([2, 3, 4]);
+    });
+
+    it('evicts the oldest records until the write fits the storage quota', async () => {
+        const store = new Map<string, string>();
+        vi.stubGlobal('localStorage', {
+            getItem: (key: string) => store.get(key) ?? null,
+            // Room for about 40 records of 100 characters
+            setItem: (key: string, value: string) => {
+                if (value.length > 4_500) throw new DOMException('quota exceeded', 'QuotaExceededError');
+                store.set(key, value);
+            },
+        });
+
+        const backend = localStorageHistoryBackend<string>('test', 200);
+        const records = Array.from({ length: 100 }, (_, i) => String(i).padStart(100, '0'));
+        await backend.appendMany(records);
+
+        const kept = await backend.load();
+        expect(kept.length).toBeGreaterThan(0);
+        expect(JSON.stringify(kept).length).toBeLessThanOrEqual(4_500);
+        expect(kept).toEqual(records.slice(-kept.length));
+    });
+});
+
+describe('file history backend', () => {
+    let root: string | undefined;
+    afterEach(() => { if (root) rmSync(root, { recursive: true, force: true }); });
+
+    it('persists records across store instances and skips a torn last line', async () => {
+        root = mkdtempSync(join(tmpdir(), 'atlaix-history-'));
+        const dir = join(root, 'nested');
+        const result = { ...scan('TokenA', 'CRITICAL', [cluster('C', ['W1'])]), clusterGraph: { nodes: [], edges: [{ from: 'W1', to: 'W2', tokenAmount: 5, timestamp: 1 }] } };
+        await createFileHistoryStore(dir).save(result, at('2024-03-01T00:00:00Z'));
+        appendFileSync(join(dir, 'scans.ndjson'), '{"id":"trunc');
+
+        const reopened = createFileHistoryStore(dir);
+        const [record] = await reopened.listScansForToken('solana', 'TokenA');
+        expect(record.result.clusterGraph?.edges).toHaveLength(1);
+        expect(record.result.bundleControl?.clusters[0].id).toBe('C');
+        expect(await reopened.findTokensByWallet('W1')).toHaveLength(1);
+    });
+
+    it('reads an empty history when nothing was saved yet', async () => {
+        root = mkdtempSync(join(tmpdir(), 'atlaix-history-'));
+        expect(await createFileHistoryStore(root).listCriticalScans(30)).toEqual([]);
+    });
+});
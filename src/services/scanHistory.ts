@@ -0,0 +1,156 @@
+import { ScanResult, RiskLevel } from '../lib/mockData';
+import { normalizeAddress } from '../lib/addresses';
+
+// ───────────────────────────────────────────────
+// Scan history — every ScanResult keyed by chain + token address + timestamp
+// ───────────────────────────────────────────────
+
+export interface ScanRecord {
+    id: string;                 // `${chainId}:${tokenAddress}:${scannedAt}`
+    chainId: string;
+    tokenAddress: string;
+    tokenSymbol: string;
+    scannedAt: string;          // ISO timestamp
+    score: number;
+    riskLevel: RiskLevel;
+    forensicsStatus: ScanResult['forensicsStatus'];
+    /** Wallet → cluster id for every clustered wallet, for wallet lookups without loading the graph */
+    clusterMembership: Record<string, string>;
+    result: ScanResult;
+}
+
+export interface WalletAppearance {
+    chainId: string;
+    tokenAddress: string;
+    tokenSymbol: string;
+    clusterId: string;
+    scannedAt: string;
+    riskLevel: RiskLevel;
+}
+
+/** Where records live — stores only need to append and read everything back */
+export interface HistoryBackend<T = ScanRecord> {
+    append(record: T): Promise<void>;
+    /** Append a batch in one write */
+    appendMany(records: T[]): Promise<void>;
+    load(): Promise<T[]>;
+}
+
+export interface ScanHistoryStore {
+    save(result: ScanResult, scannedAt?: Date): Promise<ScanRecord>;
+    /** All scans of one token, oldest first */
+    listScansForToken(chainId: string, tokenAddress: string): Promise<ScanRecord[]>;
+    /** Tokens where the wallet appeared in a bundle cluster (latest scan per token) */
+    findTokensByWallet(address: string): Promise<WalletAppearance[]>;
+    /** Scans with riskLevel CRITICAL within the last `days`, newest first */
+    listCriticalScans(days: number, now?: Date): Promise<ScanRecord[]>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const tokenKey = (chainId: string, tokenAddress: string) => `${chainId}:${normalizeAddress(tokenAddress)}`;
+
+export const toScanRecord = (result: ScanResult, scannedAt: Date = new Date()): ScanRecord => {
+    const at = scannedAt.toISOString();
+    const clusterMembership: Record<string, string> = {};
+    result.bundleControl?.clusters.forEach(c => c.wallets.forEach(w => { clusterMembership[normalizeAddress(w.address)] = c.id; }));
+
+    return {
+        id: `${tokenKey(result.chainId, result.tokenAddress)}:${at}`,
+        chainId: result.chainId,
+        tokenAddress: normalizeAddress(result.tokenAddress),
+        tokenSymbol: result.tokenSymbol,
+        scannedAt: at,
+        score: result.score,
+        riskLevel: result.riskLevel,
+        forensicsStatus: result.forensicsStatus,
+        clusterMembership,
+        result,
+    };
+};
+
+export const createScanHistoryStore = (backend: HistoryBackend): ScanHistoryStore => ({
+    save: async (result, scannedAt) => {
+        const record = toScanRecord(result, scannedAt);
+        await backend.append(record);
+        return record;
+    },
+
+    listScansForToken: async (chainId, tokenAddress) => {
+        const key = tokenKey(chainId, tokenAddress);
+        return (await backend.load())
+            .filter(r => tokenKey(r.chainId, r.tokenAddress) === key)
+            .sort((a, b) => a.scannedAt.localeCompare(b.scannedAt));
+    },
+
+    findTokensByWallet: async (address) => {
+        const wallet = normalizeAddress(address);
+        const latest = new Map<string, WalletAppearance>();
+        (await backend.load()).forEach(r => {
+            const clusterId = r.clusterMembership[wallet];
+            if (!clusterId) return;
+            const key = tokenKey(r.chainId, r.tokenAddress);
+            const seen = latest.get(key);
+            if (seen && seen.scannedAt >= r.scannedAt) return;
+            latest.set(key, {
+                chainId: r.chainId, tokenAddress: r.tokenAddress, tokenSymbol: r.tokenSymbol,
+                clusterId, scannedAt: r.scannedAt, riskLevel: r.riskLevel,
+            });
+        });
+        return [...latest.values()].sort((a, b) => b.scannedAt.localeCompare(a.scannedAt));
+    },
+
+    listCriticalScans: async (days, now = new Date()) => {
+        const since = new Date(now.getTime() - days * DAY_MS).toISOString();
+        return (await backend.load())
+            .filter(r => r.riskLevel === 'CRITICAL' && r.scannedAt >= since)
+            .sort((a, b) => b.scannedAt.localeCompare(a.scannedAt));
+    },
+});
+
+// ───────────────────────────────────────────────
+// Browser backends
+// ───────────────────────────────────────────────
+
+export const memoryHistoryBackend = <T = ScanRecord>(records: T[] = []): HistoryBackend<T> => ({
+    append: async record => { records.push(record); },
+    appendMany: async batch => { records.push(...batch); },
+    load: async () => [...records],
+});
+
+/**
+ * Persists to localStorage so the web app keeps its scans across reloads; drops the oldest past `maxRecords`,
+ * and more of the oldest whenever the write would overflow the storage quota
+ */
+export const localStorageHistoryBackend = <T = ScanRecord>(key = 'atlaix.scanHistory', maxRecords = 200): HistoryBackend<T> => {
+    const read = (): T[] => {
+        try {
+            return JSON.parse(localStorage.getItem(key) || '[]');
+        } catch {
+            return [];
+        }
+    };
+
+    // One parse per call; a full store costs a few more serializes, each evicting the oldest quarter
+    const write = (batch: T[]) => {
+        let records = [...read(), ...batch].slice(-maxRecords);
+        for (;;) {
+            try {
+                localStorage.setItem(key, JSON.stringify(records));
+                return;
+            } catch (e) {
+                if (records.length <= 1) {
+                    console.warn('[ScanHistory] Could not persist scan (storage full?):', e);
+                    return;
+                }
+                records = records.slice(Math.ceil(records.length / 4));
+            }
+        }
+    };
+
+    return {
+        append: async record => write([record]),
+        appendMany: async batch => write(batch),
+        load: async () => read(),
+    };
+};
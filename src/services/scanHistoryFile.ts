@@ -0,0 +1,45 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { HistoryBackend, ScanRecord, createScanHistoryStore, ScanHistoryStore } from './scanHistory';
+
+// ───────────────────────────────────────────────
+// File-backed history (Node only) — one record per line in <dir>/<fileName>
+// ───────────────────────────────────────────────
+
+export const fileHistoryBackend = <T = ScanRecord>(dir: string, fileName = 'scans.ndjson'): HistoryBackend<T> => {
+    const file = join(dir, fileName);
+
+    return {
+        append: async record => {
+            await mkdir(dir, { recursive: true });
+            await appendFile(file, JSON.stringify(record) + '\n');
+        },
+        appendMany: async records => {
+            if (records.length === 0) return;
+            await mkdir(dir, { recursive: true });
+            await appendFile(file, records.map(r => JSON.stringify(r) + '\n').join(''));
+        },
+        load: async () => {
+            let text: string;
+            try {
+                text = await readFile(file, 'utf8');
+            } catch (e) {
+                if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+                throw e;
+            }
+            const records: T[] = [];
+            text.split('\n').forEach((line, i) => {
+                if (!line.trim()) return;
+                try {
+                    records.push(JSON.parse(line));
+                } catch {
+                    // A crash mid-append leaves a partial last line; skip it rather than losing the history
+                    console.warn(`[ScanHistory] Skipping unreadable line ${i + 1} in ${file}`);
+                }
+            });
+            return records;
+        },
+    };
+};
+
+export const createFileHistoryStore = (dir: string): ScanHistoryStore => createScanHistoryStore(fileHistoryBackend(dir));
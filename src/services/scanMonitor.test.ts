@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { diffScanResults, createScanMonitor } from './scanMonitor';
+import { MOCK_SCENARIOS, ScanResult, BundleCluster, BundleWallet } from '../lib/mockData';
+
+const wallet = (address: string, status: BundleWallet['status'] = 'active'): BundleWallet => ({
+    address, boughtAmount: 100, receivedAmount: 0, currentBalance: status === 'sold_all' ? 0 : 100, soldAmount: 0, holdingUSD: 0, status,
+});
+
+const cluster = (id: string, wallets: BundleWallet[], factors: string[] = ['Shared Funding']): BundleCluster => ({
+    id, wallets, totalSupplyPercent: wallets.length, totalValueUSD: 0, status: 'Active',
+    lpImpact: 0, risk: 'Low', riskScore: 35, riskFactors: factors, internalTransferCount: 0,
+});
+
+const snapshot = (score: number, clusters: BundleCluster[], bundledPercent = 0, at = '2024-01-01T00:00:00.000Z'): ScanResult => {
+    const base = structuredClone(MOCK_SCENARIOS['SAFE']);
+    return {
+        ...base,
+        score,
+        bundleControl: { ...base.analysis, clusters, clusterCount: clusters.length, totalBundledSupplyPercent: bundledPercent, lastUpdated: at },
+    };
+};
+
+describe('diffScanResults', () => {
+    it('reports nothing for identical scans', () => {
+        const scan = snapshot(90, [cluster('A', [wallet('a1'), wallet('a2')])], 5);
+        const diff = diffScanResults(scan, structuredClone(scan));
+        expect(diff.hasChanges).toBe(false);
+        expect(diff).toMatchObject({ score: null, riskLevel: null, newClusters: [], walletsSoldAll: [], bundledSupply: null });
+    });
+
+    it('matches clusters by membership, not id', () => {
+        const before = snapshot(90, [cluster('Funding Cluster (abc)', [wallet('a1'), wallet('a2')])]);
+        const after = snapshot(90, [
+            cluster('Network Cluster', [wallet('a1'), wallet('a2'), wallet('a3')]),
+            cluster('Temporal Cluster (42)', [wallet('t1'), wallet('t2'), wallet('t3')], ['Temporal Match']),
+        ]);
+
+        const diff = diffScanResults(before, after);
+        expect(diff.newClusters).toEqual([
+            { id: 'Temporal Cluster (42)', wallets: ['t1', 't2', 't3'], totalSupplyPercent: 3, riskFactors: ['Temporal Match'] },
+        ]);
+    });
+
+    it('lists previously seen wallets that sold out', () => {
+        const before = snapshot(90, [cluster('A', [wallet('a1'), wallet('a2', 'sold_all')])]);
+        const after = snapshot(90, [
+            cluster('A', [wallet('a1', 'sold_all'), wallet('a2', 'sold_all')]),
+            cluster('B', [wallet('b1', 'sold_all'), wallet('b2')]),
+        ]);
+
+        expect(diffScanResults(before, after).walletsSoldAll).toEqual([{ address: 'a1', clusterId: 'A' }]);
+    });
+
+    it('tracks score, risk level and bundled supply movement', () => {
+        const before = snapshot(85, [], 4.5, '2024-01-01T00:00:00.000Z');
+        const after = { ...snapshot(45, [], 12.25, '2024-01-01T00:01:00.000Z'), riskLevel: 'DANGER' as const };
+
+        const diff = diffScanResults(before, after);
+        expect(diff.score).toEqual({ from: 85, to: 45, delta: -40 });
+        expect(diff.riskLevel).toEqual({ from: 'SAFE', to: 'DANGER' });
+        expect(diff.bundledSupply).toEqual({ from: 4.5, to: 12.25, delta: 7.75 });
+        expect(diff.previousAt).toBe('2024-01-01T00:00:00.000Z');
+        expect(diff.currentAt).toBe('2024-01-01T00:01:00.000Z');
+        expect(diff.hasChanges).toBe(true);
+    });
+});
+
+describe('createScanMonitor', () => {
+    afterEach(() => { vi.useRealTimers(); });
+
+    it('re-scans on the interval, diffs against the previous scan and stops after maxScans', async () => {
+        vi.useFakeTimers();
+        const scores = [90, 90, 60];
+        const scan = vi.fn(async () => snapshot(scores[scan.mock.calls.length - 1], []));
+        const diffs: (number | null)[] = [];
+
+        const monitor = createScanMonitor({
+            query: 'TOKEN', scan, intervalMs: 30_000, maxScans: 3,
+            onResult: (_, diff) => { diffs.push(diff ? diff.score?.delta ?? 0 : null); },
+        });
+        const done = monitor.start();
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(scan).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(29_999);
+        expect(scan).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(60_001);
+        await done;
+
+        expect(scan).toHaveBeenCalledTimes(3);
+        expect(diffs).toEqual([null, 0, -30]);
+        expect(monitor.history().map(r => r.score)).toEqual([90, 90, 60]);
+    });
+
+    it('keeps running through failed scans and honours historySize', async () => {
+        vi.useFakeTimers();
+        let call = 0;
+        const scan = vi.fn(async () => {
+            call++;
+            if (call === 2) throw new Error('rate limited');
+            return snapshot(call, []);
+        });
+        const onError = vi.fn();
+
+        const monitor = createScanMonitor({ query: 'TOKEN', scan, intervalMs: 1_000, historySize: 2, onError });
+        void monitor.start();
+        await vi.advanceTimersByTimeAsync(3_500);
+        monitor.stop();
+        await vi.advanceTimersByTimeAsync(10_000);
+
+        expect(onError).toHaveBeenCalledOnce();
+        expect(scan).toHaveBeenCalledTimes(4);
+        expect(monitor.history().map(r => r.score)).toEqual([3, 4]);
+    });
+});
@@ -0,0 +1,170 @@
+import { ScanResult, BundleCluster, RiskLevel } from '../lib/mockData';
+import { ScanTarget } from './scanEngine';
+
+// ───────────────────────────────────────────────
+// Scan diffing — what changed between two snapshots of the same token
+// ───────────────────────────────────────────────
+
+export interface NumericChange {
+    from: number;
+    to: number;
+    delta: number;
+}
+
+export interface ClusterSummary {
+    id: string;
+    wallets: string[];
+    totalSupplyPercent: number;
+    riskFactors: string[];
+}
+
+export interface ScanDiff {
+    tokenSymbol: string;
+    chainId: string;
+    previousAt: string;
+    currentAt: string;
+    score: NumericChange | null;
+    riskLevel: { from: RiskLevel; to: RiskLevel } | null;
+    /** Clusters that share no wallet with any cluster in the previous scan */
+    newClusters: ClusterSummary[];
+    /** Cluster wallets whose status became `sold_all` since the previous scan */
+    walletsSoldAll: { address: string; clusterId: string }[];
+    bundledSupply: NumericChange | null;
+    hasChanges: boolean;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const numericChange = (from: number, to: number): NumericChange | null =>
+    from === to ? null : { from, to, delta: round(to - from) };
+
+const summarizeCluster = (c: BundleCluster): ClusterSummary => ({
+    id: c.id,
+    wallets: c.wallets.map(w => w.address),
+    totalSupplyPercent: c.totalSupplyPercent,
+    riskFactors: c.riskFactors,
+});
+
+const scannedAt = (result: ScanResult): string =>
+    result.bundleControl?.lastUpdated || result.analysis.lastUpdated;
+
+/**
+ * Diff two scans of the same token. Cluster ids are derived from whichever heuristic
+ * found them first, so clusters are matched by wallet membership rather than by id.
+ */
+export const diffScanResults = (previous: ScanResult, current: ScanResult): ScanDiff => {
+    const prevClusters = previous.bundleControl?.clusters || [];
+    const currClusters = current.bundleControl?.clusters || [];
+
+    const prevStatus = new Map<string, string>();
+    prevClusters.forEach(c => c.wallets.forEach(w => prevStatus.set(w.address, w.status)));
+
+    const newClusters = currClusters
+        .filter(c => !c.wallets.some(w => prevStatus.has(w.address)))
+        .map(summarizeCluster);
+
+    // Only wallets we saw holding last time — a brand-new cluster that already dumped shows up in newClusters
+    const walletsSoldAll = currClusters.flatMap(c => c.wallets
+        .filter(w => w.status === 'sold_all' && prevStatus.has(w.address) && prevStatus.get(w.address) !== 'sold_all')
+        .map(w => ({ address: w.address, clusterId: c.id })));
+
+    const score = numericChange(previous.score, current.score);
+    const riskLevel = previous.riskLevel === current.riskLevel ? null : { from: previous.riskLevel, to: current.riskLevel };
+    const bundledSupply = numericChange(
+        previous.bundleControl?.totalBundledSupplyPercent || 0,
+        current.bundleControl?.totalBundledSupplyPercent || 0,
+    );
+
+    return {
+        tokenSymbol: current.tokenSymbol,
+        chainId: current.chainId,
+        previousAt: scannedAt(previous),
+        currentAt: scannedAt(current),
+        score,
+        riskLevel,
+        newClusters,
+        walletsSoldAll,
+        bundledSupply,
+        hasChanges: !!(score || riskLevel || bundledSupply || newClusters.length || walletsSoldAll.length),
+    };
+};
+
+// ───────────────────────────────────────────────
+// Monitor — re-scan on an interval and keep a bounded history
+// ───────────────────────────────────────────────
+
+export interface ScanMonitorOptions {
+    query: ScanTarget | string;
+    scan: (query: ScanTarget | string) => Promise<ScanResult>;
+    intervalMs: number;
+    /** Successive results to keep (default 100) */
+    historySize?: number;
+    /** Stop on its own after this many scan attempts */
+    maxScans?: number;
+    onResult?: (result: ScanResult, diff: ScanDiff | null) => void | Promise<void>;
+    onError?: (err: unknown) => void;
+}
+
+export interface ScanMonitor {
+    /** Scan immediately, then every `intervalMs`; resolves once the monitor is stopped */
+    start(): Promise<void>;
+    stop(): void;
+    /** Run a single scan and diff it against the previous one */
+    tick(): Promise<ScanDiff | null>;
+    history(): ScanResult[];
+}
+
+export const createScanMonitor = (options: ScanMonitorOptions): ScanMonitor => {
+    const historySize = options.historySize ?? 100;
+    const results: ScanResult[] = [];
+    let attempts = 0;
+    let running = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let finish: (() => void) | undefined;
+
+    const tick = async (): Promise<ScanDiff | null> => {
+        const result = await options.scan(options.query);
+        const previous = results[results.length - 1];
+        const diff = previous ? diffScanResults(previous, result) : null;
+
+        results.push(result);
+        if (results.length > historySize) results.shift();
+
+        await options.onResult?.(result, diff);
+        return diff;
+    };
+
+    const stop = () => {
+        running = false;
+        if (timer) clearTimeout(timer);
+        timer = undefined;
+        finish?.();
+    };
+
+    // Schedule the next scan only after the current one settles so slow scans never overlap
+    const loop = async () => {
+        attempts++;
+        try {
+            await tick();
+        } catch (err) {
+            if (options.onError) options.onError(err);
+            else console.warn(`[ScanMonitor] Scan failed for ${typeof options.query === 'string' ? options.query : options.query.tokenAddress}:`, err);
+        }
+        if (!running) return;
+        if (options.maxScans !== undefined && attempts >= options.maxScans) return stop();
+        timer = setTimeout(loop, options.intervalMs);
+    };
+
+    return {
+        start: () => {
+            if (running) throw new Error('Monitor already running');
+            running = true;
+            const done = new Promise<void>(resolve => { finish = resolve; });
+            void loop();
+            return done;
+        },
+        stop,
+        tick,
+        history: () => [...results],
+    };
+};
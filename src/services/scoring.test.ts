@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { calculateScore, riskLevelForScore } from './scoring';
+import { DEFAULT_SCORING_POLICY, parseScoringPolicy, resolveScoringPolicy, ScoringPolicyError } from './scoringPolicy';
+import { BundleControlResult, BundleCluster } from '../lib/mockData';
+import { SecurityData } from './goPlus';
+import { assessDataQuality } from './dataQuality';
+
+const quiet = { bundleWalletCount: 0, block0Volume: 0, holdingConcentration: 10 };
+
+const security = (overrides: Partial<SecurityData>): SecurityData => ({
+    is_honeypot: false, is_mintable: false, is_open_source: true,
+    buy_tax: '0', sell_tax: '0', cannot_sell_all: false, owner_address: '',
+    is_proxy: false, slippage_modifiable: false,
+    ...overrides,
+});
+
+const bundleControl = (lpImpactRatio: number, totalBundledSupplyPercent: number, clusters: Partial<BundleCluster>[] = []) =>
+    ({ clusters, clusterCount: 1, lpImpactRatio, totalBundledSupplyPercent } as BundleControlResult);
+
+describe('calculateScore with the default policy', () => {
+    it('passes a healthy token with no penalties', () => {
+        const { score, breakdown } = calculateScore(50_000, null, quiet);
+        expect(score).toBe(100);
+        expect(breakdown.map(f => f.detail)).toEqual([
+            '$50,000 — healthy',
+            'No bundle activity detected',
+            'No launch block activity',
+            '10.0% held by top 20 — distributed',
+        ]);
+    });
+
+    it('short-circuits honeypots to 0', () => {
+        const { score, breakdown } = calculateScore(50_000, security({ is_honeypot: true }), quiet);
+        expect(score).toBe(0);
+        expect(breakdown).toEqual([{ label: 'Honeypot', impact: -100, status: 'fail', detail: 'Cannot sell — confirmed honeypot' }]);
+    });
+
+    it('applies the first matching band and sums penalties', () => {
+        const { score, breakdown } = calculateScore(
+            4_000,
+            security({ is_mintable: true, sell_tax: '12' }),
+            { bundleWalletCount: 6, block0Volume: 60_000, holdingConcentration: 85 },
+            bundleControl(1.2, 12),
+        );
+        expect(breakdown.map(f => [f.label, f.impact])).toEqual([
+            ['Mintable Supply', -25],
+            ['Sell Tax', -15],
+            ['Liquidity', -25],
+            ['Bundle Activity', -15],
+            ['Launch Volume', -25],
+            ['Holder Concentration', -20],
+            ['LP Impact Ratio', -15],
+            ['Bundled Supply', -8],
+        ]);
+        expect(score).toBe(0);
+    });
+
+    it('omits bundled supply when clusters hold none of it', () => {
+        const { breakdown } = calculateScore(50_000, null, quiet, bundleControl(0.1, 0));
+        expect(breakdown.map(f => f.label)).not.toContain('Bundled Supply');
+        expect(breakdown.find(f => f.label === 'LP Impact Ratio')!.detail).toBe('0.1x — manageable LP impact');
+    });
+
+    it('penalizes wallets and funders known from other launches, counting each once', () => {
+        const clusters = [{ knownBundlers: ['W1', 'Funder'] }, { knownBundlers: ['Funder'] }, {}];
+        const { score, breakdown } = calculateScore(50_000, null, quiet, bundleControl(0.1, 5, clusters));
+        expect(breakdown.find(f => f.label === 'Known Serial Bundlers')).toEqual({
+            label: 'Known Serial Bundlers', impact: -15, status: 'fail', detail: '2 wallet(s)/funder(s) seen bundling other launches',
+        });
+        expect(score).toBe(85);
+    });
+
+    it('penalizes a dev bundle that bought a large share of the bonding curve', () => {
+        const { score, breakdown } = calculateScore(50_000, null, { ...quiet, devBundleCurvePercent: 18.5 });
+        expect(breakdown.find(f => f.label === 'Dev Bundle (Bonding Curve)')).toEqual({
+            label: 'Dev Bundle (Bonding Curve)', impact: -15, status: 'warn', detail: '18.5% of the curve bought by the dev bundle',
+        });
+        expect(score).toBe(85);
+        expect(calculateScore(50_000, null, quiet).breakdown.map(f => f.label)).not.toContain('Dev Bundle (Bonding Curve)');
+    });
+
+    it('caps an inconclusive scan and explains the cap in the breakdown', () => {
+        const dataQuality = assessDataQuality([{ step: 'security', provider: 'goplus', status: 'failed', detail: 'HTTP 500' }]);
+        const { score, breakdown } = calculateScore(50_000, null, quiet, undefined, DEFAULT_SCORING_POLICY, dataQuality);
+
+        expect(score).toBe(60);
+        expect(riskLevelForScore(score)).toBe('CAUTION');
+        expect(breakdown.at(-1)).toEqual({
+            label: 'Data Quality', impact: -40, status: 'warn',
+            detail: 'Inconclusive — security: failed (HTTP 500); score capped at 60',
+        });
+        expect(breakdown.reduce((acc, f) => acc + f.impact, 100)).toBe(score);
+    });
+
+    it.each([
+        [80, 'SAFE'],
+        [79, 'CAUTION'],
+        [50, 'CAUTION'],
+        [49, 'DANGER'],
+        [20, 'DANGER'],
+        [19, 'CRITICAL'],
+    ] as const)('score %s → %s', (score, level) => {
+        expect(riskLevelForScore(score)).toBe(level);
+    });
+});
+
+describe('scoring policies', () => {
+    const policyJson = JSON.stringify({
+        id: 'risk-team',
+        version: '2024.06.1',
+        liquidity: {
+            tiers: [{ threshold: 50_000, impact: -50, status: 'fail', detail: '{value} — below listing minimum' }],
+        },
+        riskLevels: { safe: 90, caution: 60, danger: 30 },
+        chains: {
+            solana: { bundleWallets: { tiers: [{ threshold: 0, impact: -40, status: 'fail', detail: '{value} snipers' }] } },
+        },
+        products: {
+            launchpad: { riskLevels: { safe: 95 } },
+        },
+    });
+
+    it('fills omitted sections from the default policy', () => {
+        const policy = parseScoringPolicy(policyJson);
+        expect(policy.id).toBe('risk-team');
+        expect(policy.launchVolume).toEqual(DEFAULT_SCORING_POLICY.launchVolume);
+        // Sections merge key by key, so passDetail survives a tiers-only override
+        expect(policy.liquidity.passDetail).toBe(DEFAULT_SCORING_POLICY.liquidity.passDetail);
+    });
+
+    it('uses custom tiers and risk thresholds', () => {
+        const { policy, stamp } = resolveScoringPolicy(parseScoringPolicy(policyJson), { chainId: 'ethereum' });
+        const { score, breakdown } = calculateScore(30_000, null, quiet, undefined, policy);
+        expect(breakdown[0]).toEqual({ label: 'Liquidity', impact: -50, status: 'fail', detail: '$30,000 — below listing minimum' });
+        expect(score).toBe(50);
+        expect(riskLevelForScore(score, policy)).toBe('DANGER');
+        expect(stamp).toEqual({ id: 'risk-team', version: '2024.06.1' });
+    });
+
+    it('layers chain then product overrides and records both in the stamp', () => {
+        const { policy, stamp } = resolveScoringPolicy(parseScoringPolicy(policyJson), { chainId: 'solana', product: 'launchpad' });
+        const { breakdown } = calculateScore(60_000, null, { ...quiet, bundleWalletCount: 1 }, undefined, policy);
+        expect(breakdown.find(f => f.label === 'Bundle Activity')).toMatchObject({ impact: -40, detail: '1 snipers' });
+        expect(policy.riskLevels).toEqual({ safe: 95, caution: 60, danger: 30 });
+        expect(stamp).toEqual({ id: 'risk-team', version: '2024.06.1', chainOverride: 'solana', product: 'launchpad' });
+    });
+
+    it('rejects unknown products at resolve time', () => {
+        expect(() => resolveScoringPolicy(DEFAULT_SCORING_POLICY, { product: 'nope' })).toThrow(ScoringPolicyError);
+    });
+
+    it.each([
+        ['not json', 'Invalid JSON'],
+        [JSON.stringify({ version: '1' }), '"id" and "version"'],
+        [JSON.stringify({ id: 'x', version: '1', liquidity: { tiers: [{ threshold: 'low', impact: -1, status: 'fail', detail: '' }] } }), 'liquidity.tiers[0]'],
+        [JSON.stringify({ id: 'x', version: '1', lpImpact: { tiers: [{ threshold: 1, impact: -1, status: 'bad', detail: '' }] } }), 'lpImpact.tiers[0].status'],
+        [JSON.stringify({ id: 'x', version: '1', riskLevels: { safe: 10, caution: 50, danger: 20 } }), 'riskLevels'],
+        [JSON.stringify({ id: 'x', version: '1', chains: { bsc: { security: { mintableImpact: 'high' } } } }), 'chains.bsc'],
+    ])('rejects invalid policy %#', (json, message) => {
+        expect(() => parseScoringPolicy(json)).toThrow(message);
+    });
+});
@@ -0,0 +1,110 @@
+import { ScoreFactor, BundleControlResult, CoordinationAnalysis, RiskLevel, DataQuality } from '../lib/mockData';
+import { SecurityData } from './goPlus';
+import { ScoringPolicy, TieredRule, DEFAULT_SCORING_POLICY } from './scoringPolicy';
+
+// ═══════════════════════════════════════════════
+// SCORING — applies a ScoringPolicy to a scan's findings
+// ═══════════════════════════════════════════════
+
+type ScoreInputs = Pick<CoordinationAnalysis, 'bundleWalletCount' | 'block0Volume' | 'holdingConcentration' | 'devBundleCurvePercent'>;
+
+/**
+ * Evaluate one tiered rule. `lowerIsWorse` flips the comparison for metrics such as
+ * liquidity, where a band applies when the value falls *below* its threshold.
+ */
+const applyRule = (
+    label: string,
+    rule: TieredRule,
+    value: number,
+    formatted: string,
+    lowerIsWorse = false
+): ScoreFactor | null => {
+    const tier = rule.tiers.find(t => lowerIsWorse ? value < t.threshold : value > t.threshold);
+    if (tier) {
+        return { label, impact: tier.impact, status: tier.status, detail: tier.detail.replace('{value}', formatted) };
+    }
+    if (value === 0 && rule.omitWhenZero) return null;
+    const template = value === 0 && rule.zeroDetail !== undefined ? rule.zeroDetail : rule.passDetail;
+    return { label, impact: 0, status: 'pass', detail: template.replace('{value}', formatted) };
+};
+
+export const calculateScore = (
+    liquidityUsd: number, // Aggregate depth across all of the token's pools
+    security: SecurityData | null,
+    analysis: ScoreInputs,
+    bundleControl?: BundleControlResult,
+    policy: ScoringPolicy = DEFAULT_SCORING_POLICY,
+    dataQuality?: DataQuality
+): { score: number; breakdown: ScoreFactor[] } => {
+    const breakdown: ScoreFactor[] = [];
+    const push = (factor: ScoreFactor | null) => { if (factor) breakdown.push(factor); };
+    const rules = policy.security;
+
+    // ── Contract Security Checks ──
+    if (security?.is_honeypot) {
+        breakdown.push({ label: 'Honeypot', impact: rules.honeypotImpact, status: 'fail', detail: 'Cannot sell — confirmed honeypot' });
+        return { score: 0, breakdown };
+    }
+
+    if (security?.is_mintable) {
+        breakdown.push({ label: 'Mintable Supply', impact: rules.mintableImpact, status: 'fail', detail: 'Owner can mint new tokens' });
+    }
+
+    const buyTax = parseFloat(security?.buy_tax || '0');
+    if (buyTax > rules.buyTax.threshold) {
+        breakdown.push({ label: 'Buy Tax', impact: rules.buyTax.impact, status: 'fail', detail: `${buyTax.toFixed(1)}% tax on buys` });
+    }
+
+    const sellTax = parseFloat(security?.sell_tax || '0');
+    if (sellTax > rules.sellTax.threshold) {
+        breakdown.push({ label: 'Sell Tax', impact: rules.sellTax.impact, status: 'fail', detail: `${sellTax.toFixed(1)}% tax on sells` });
+    }
+
+    if (security?.cannot_sell_all) {
+        breakdown.push({ label: 'Sell Restriction', impact: rules.cannotSellAllImpact, status: 'fail', detail: 'Cannot sell entire balance' });
+    }
+
+    // ── Market & Coordination ──
+    push(applyRule('Liquidity', policy.liquidity, liquidityUsd, `$${liquidityUsd.toLocaleString()}`, true));
+    push(applyRule('Bundle Activity', policy.bundleWallets, analysis.bundleWalletCount, `${analysis.bundleWalletCount}`));
+    push(applyRule('Launch Volume', policy.launchVolume, analysis.block0Volume, `$${analysis.block0Volume.toLocaleString()}`));
+    push(applyRule('Holder Concentration', policy.holderConcentration, analysis.holdingConcentration, `${analysis.holdingConcentration.toFixed(1)}%`));
+
+    // ── Bonding-curve launch ──
+    const devBundle = analysis.devBundleCurvePercent ?? 0;
+    push(applyRule('Dev Bundle (Bonding Curve)', policy.devBundle, devBundle, `${devBundle}%`));
+
+    // ── Deep Bundle Analysis (Helius) ──
+    if (bundleControl && bundleControl.clusterCount > 0) {
+        push(applyRule('LP Impact Ratio', policy.lpImpact, bundleControl.lpImpactRatio, `${bundleControl.lpImpactRatio}x`));
+        push(applyRule('Bundled Supply', policy.bundledSupply, bundleControl.totalBundledSupplyPercent, `${bundleControl.totalBundledSupplyPercent}%`));
+
+        const serialBundlers = new Set(bundleControl.clusters.flatMap(c => c.knownBundlers || [])).size;
+        push(applyRule('Known Serial Bundlers', policy.serialBundlers, serialBundlers, `${serialBundlers}`));
+    }
+
+    const score = Math.max(0, Math.min(100, breakdown.reduce((acc, f) => acc + f.impact, 100)));
+
+    // ── Missing critical data: a clean result is not evidence of safety ──
+    if (dataQuality?.inconclusive) {
+        const cap = policy.dataQuality.inconclusiveScoreCap;
+        breakdown.push({
+            label: 'Data Quality',
+            impact: Math.min(0, cap - score),
+            status: 'warn',
+            detail: `Inconclusive — ${dataQuality.missingCritical.join('; ')}; score capped at ${cap}`,
+        });
+        return { score: Math.min(score, cap), breakdown };
+    }
+
+    return { score, breakdown };
+};
+
+/** Map a 0–100 safety score to a verdict using the policy's thresholds */
+export const riskLevelForScore = (score: number, policy: ScoringPolicy = DEFAULT_SCORING_POLICY): RiskLevel => {
+    const { safe, caution, danger } = policy.riskLevels;
+    if (score >= safe) return 'SAFE';
+    if (score >= caution) return 'CAUTION';
+    if (score >= danger) return 'DANGER';
+    return 'CRITICAL';
+};
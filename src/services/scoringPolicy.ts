@@ -0,0 +1,273 @@
+import { ScoreFactor, ScanResult } from '../lib/mockData';
+
+// ───────────────────────────────────────────────
+// Scoring policy — every weight and threshold used by calculateScore
+// ───────────────────────────────────────────────
+
+/**
+ * One penalty band. Bands are checked in order (most severe first) and the first
+ * match applies. `detail` may contain `{value}`, replaced with the formatted metric.
+ */
+export interface ScoreTier {
+    threshold: number;
+    impact: number;
+    status: ScoreFactor['status'];
+    detail: string;
+}
+
+/** A scored metric: penalty bands plus the text used when no band matches */
+export interface TieredRule {
+    tiers: ScoreTier[];
+    passDetail: string;
+    /** Detail when the metric is exactly 0 (defaults to passDetail) */
+    zeroDetail?: string;
+    /** Leave the factor out of the breakdown entirely when the metric is 0 */
+    omitWhenZero?: boolean;
+}
+
+export interface ThresholdRule {
+    threshold: number;
+    impact: number;
+}
+
+export interface ScoringPolicy {
+    id: string;
+    version: string;
+    security: {
+        honeypotImpact: number;      // short-circuits the score to 0
+        mintableImpact: number;
+        buyTax: ThresholdRule;       // threshold in percent
+        sellTax: ThresholdRule;
+        cannotSellAllImpact: number;
+    };
+    /** Lower is worse: a band applies when liquidity < threshold */
+    liquidity: TieredRule;
+    /** Higher is worse for every rule below: a band applies when value > threshold */
+    bundleWallets: TieredRule;
+    launchVolume: TieredRule;
+    holderConcentration: TieredRule;
+    lpImpact: TieredRule;
+    bundledSupply: TieredRule;
+    /** Distinct cluster members/funders the reputation registry knows from other launches */
+    serialBundlers: TieredRule;
+    /** Bonding-curve launches: percent of the curve bought by the creator and launch-slot wallets */
+    devBundle: TieredRule;
+    /** Minimum score for each level; anything below `danger` is CRITICAL */
+    riskLevels: { safe: number; caution: number; danger: number };
+    /** Incomplete scans: tracing below `minTraceCoverage` (0–1) counts as missing; inconclusive scores are capped */
+    dataQuality: { minTraceCoverage: number; inconclusiveScoreCap: number };
+}
+
+type PolicyOverride = {
+    [K in keyof Omit<ScoringPolicy, 'id' | 'version'>]?: Partial<ScoringPolicy[K]>;
+};
+
+/** A loadable policy: a base policy plus optional per-chain and per-product overrides */
+export interface ScoringPolicyDocument extends ScoringPolicy {
+    chains?: Record<string, PolicyOverride>;
+    products?: Record<string, PolicyOverride>;
+}
+
+/** Audit stamp recorded on every ScanResult */
+export type ScoringPolicyStamp = NonNullable<ScanResult['scoringPolicy']>;
+
+export const DEFAULT_SCORING_POLICY: ScoringPolicyDocument = {
+    id: 'atlaix-default',
+    version: '1.3.0',
+    security: {
+        honeypotImpact: -100,
+        mintableImpact: -25,
+        buyTax: { threshold: 10, impact: -15 },
+        sellTax: { threshold: 10, impact: -15 },
+        cannotSellAllImpact: -30,
+    },
+    liquidity: {
+        tiers: [
+            { threshold: 1000, impact: -40, status: 'fail', detail: '{value} — critically low' },
+            { threshold: 5000, impact: -25, status: 'warn', detail: '{value} — low' },
+            { threshold: 20000, impact: -10, status: 'warn', detail: '{value} — moderate' },
+        ],
+        passDetail: '{value} — healthy',
+    },
+    bundleWallets: {
+        tiers: [
+            { threshold: 10, impact: -30, status: 'fail', detail: '{value} bundled wallets — heavy coordination' },
+            { threshold: 5, impact: -15, status: 'warn', detail: '{value} bundled wallets — moderate coordination' },
+            { threshold: 2, impact: -5, status: 'warn', detail: '{value} bundled wallets detected' },
+        ],
+        passDetail: '{value} wallet(s) — minimal',
+        zeroDetail: 'No bundle activity detected',
+    },
+    launchVolume: {
+        tiers: [
+            { threshold: 50000, impact: -25, status: 'fail', detail: '{value} — massive launch buying' },
+            { threshold: 10000, impact: -15, status: 'warn', detail: '{value} — high launch buying' },
+            { threshold: 5000, impact: -10, status: 'warn', detail: '{value} — moderate launch buying' },
+        ],
+        passDetail: '{value} — low',
+        zeroDetail: 'No launch block activity',
+    },
+    holderConcentration: {
+        tiers: [
+            { threshold: 80, impact: -20, status: 'fail', detail: '{value} held by top 20 — very concentrated' },
+            { threshold: 60, impact: -10, status: 'warn', detail: '{value} held by top 20 — concentrated' },
+        ],
+        passDetail: '{value} held by top 20 — distributed',
+    },
+    lpImpact: {
+        tiers: [
+            { threshold: 1.5, impact: -20, status: 'fail', detail: '{value} — bundled value far exceeds LP' },
+            { threshold: 1.0, impact: -15, status: 'fail', detail: '{value} — bundled value exceeds LP' },
+            { threshold: 0.5, impact: -10, status: 'warn', detail: '{value} — significant LP pressure risk' },
+        ],
+        passDetail: '{value} — manageable LP impact',
+    },
+    bundledSupply: {
+        tiers: [
+            { threshold: 30, impact: -15, status: 'fail', detail: '{value} of supply held by bundle clusters' },
+            { threshold: 10, impact: -8, status: 'warn', detail: '{value} of supply in bundle clusters' },
+        ],
+        passDetail: '{value} — low bundled supply',
+        omitWhenZero: true,
+    },
+    serialBundlers: {
+        tiers: [
+            { threshold: 3, impact: -25, status: 'fail', detail: '{value} wallets/funders seen bundling other launches' },
+            { threshold: 0, impact: -15, status: 'fail', detail: '{value} wallet(s)/funder(s) seen bundling other launches' },
+        ],
+        passDetail: 'No known serial bundlers',
+        omitWhenZero: true,
+    },
+    devBundle: {
+        tiers: [
+            { threshold: 25, impact: -25, status: 'fail', detail: '{value} of the curve bought by the dev bundle' },
+            { threshold: 10, impact: -15, status: 'warn', detail: '{value} of the curve bought by the dev bundle' },
+            { threshold: 5, impact: -5, status: 'warn', detail: '{value} of the curve bought at launch' },
+        ],
+        passDetail: '{value} of the curve — small dev buy',
+        omitWhenZero: true,
+    },
+    riskLevels: { safe: 80, caution: 50, danger: 20 },
+    dataQuality: { minTraceCoverage: 0.8, inconclusiveScoreCap: 60 },
+};
+
+// ───────────────────────────────────────────────
+// Loading & resolution
+// ───────────────────────────────────────────────
+
+export class ScoringPolicyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ScoringPolicyError';
+    }
+}
+
+const RULE_KEYS = ['liquidity', 'bundleWallets', 'launchVolume', 'holderConcentration', 'lpImpact', 'bundledSupply', 'serialBundlers', 'devBundle'] as const;
+const STATUSES: ScoreFactor['status'][] = ['pass', 'fail', 'warn', 'info'];
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/** Shallow-per-section merge: objects merge key by key, arrays and scalars replace */
+const applyOverride = <T extends ScoringPolicy>(base: T, override: PolicyOverride): T => {
+    const merged = { ...base } as Record<string, unknown>;
+    Object.entries(override).forEach(([key, value]) => {
+        const current = merged[key];
+        merged[key] = isObject(current) && isObject(value) ? { ...current, ...value } : value;
+    });
+    return merged as T;
+};
+
+const validatePolicy = (policy: ScoringPolicy, where: string) => {
+    const fail = (msg: string): never => { throw new ScoringPolicyError(`${where}: ${msg}`); };
+    const isNum = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+
+    if (typeof policy.id !== 'string' || !policy.id) fail('id must be a non-empty string');
+    if (typeof policy.version !== 'string' || !policy.version) fail('version must be a non-empty string');
+
+    const s = policy.security;
+    if (!isObject(s)) fail('security must be an object');
+    ['honeypotImpact', 'mintableImpact', 'cannotSellAllImpact'].forEach(k => {
+        if (!isNum((s as unknown as Record<string, unknown>)[k])) fail(`security.${k} must be a number`);
+    });
+    (['buyTax', 'sellTax'] as const).forEach(k => {
+        if (!isObject(s[k]) || !isNum(s[k].threshold) || !isNum(s[k].impact)) fail(`security.${k} needs numeric threshold and impact`);
+    });
+
+    RULE_KEYS.forEach(key => {
+        const rule = policy[key];
+        if (!isObject(rule) || !Array.isArray(rule.tiers)) fail(`${key}.tiers must be an array`);
+        if (typeof rule.passDetail !== 'string') fail(`${key}.passDetail must be a string`);
+        rule.tiers.forEach((t, i) => {
+            if (!isNum(t.threshold) || !isNum(t.impact)) fail(`${key}.tiers[${i}] needs numeric threshold and impact`);
+            if (!STATUSES.includes(t.status)) fail(`${key}.tiers[${i}].status must be one of ${STATUSES.join(', ')}`);
+            if (typeof t.detail !== 'string') fail(`${key}.tiers[${i}].detail must be a string`);
+        });
+    });
+
+    const { safe, caution, danger } = policy.riskLevels || ({} as ScoringPolicy['riskLevels']);
+    if (![safe, caution, danger].every(isNum) || !(safe >= caution && caution >= danger)) {
+        fail('riskLevels must be numbers with safe >= caution >= danger');
+    }
+
+    const dq = policy.dataQuality || ({} as ScoringPolicy['dataQuality']);
+    if (!isNum(dq.minTraceCoverage) || dq.minTraceCoverage < 0 || dq.minTraceCoverage > 1) fail('dataQuality.minTraceCoverage must be a number from 0 to 1');
+    if (!isNum(dq.inconclusiveScoreCap)) fail('dataQuality.inconclusiveScoreCap must be a number');
+};
+
+/**
+ * Parse a policy from JSON (string or already-parsed). Sections left out fall back
+ * to DEFAULT_SCORING_POLICY; `id` and `version` are required so verdicts stay auditable.
+ */
+export const parseScoringPolicy = (input: string | unknown): ScoringPolicyDocument => {
+    let raw: unknown = input;
+    if (typeof input === 'string') {
+        try {
+            raw = JSON.parse(input);
+        } catch (e) {
+            throw new ScoringPolicyError(`Invalid JSON: ${(e as Error).message}`);
+        }
+    }
+    if (!isObject(raw)) throw new ScoringPolicyError('Policy must be a JSON object');
+    if (typeof raw.id !== 'string' || typeof raw.version !== 'string') {
+        throw new ScoringPolicyError('Policy must declare string "id" and "version"');
+    }
+
+    const { chains, products, ...base } = raw as Partial<ScoringPolicyDocument>;
+    const doc: ScoringPolicyDocument = {
+        ...applyOverride({ ...DEFAULT_SCORING_POLICY, chains: undefined, products: undefined }, base as PolicyOverride),
+        id: raw.id,
+        version: raw.version,
+        chains,
+        products,
+    };
+
+    validatePolicy(doc, doc.id);
+    Object.entries(chains || {}).forEach(([chain, o]) => validatePolicy(applyOverride(doc, o), `${doc.id} chains.${chain}`));
+    Object.entries(products || {}).forEach(([product, o]) => validatePolicy(applyOverride(doc, o), `${doc.id} products.${product}`));
+    return doc;
+};
+
+/** Apply the chain override, then the product override, to get the policy for one scan */
+export const resolveScoringPolicy = (
+    doc: ScoringPolicyDocument,
+    context: { chainId?: string; product?: string } = {}
+): { policy: ScoringPolicy; stamp: ScoringPolicyStamp } => {
+    const { chains, products, ...base } = doc;
+    let policy: ScoringPolicy = base;
+    const stamp: ScoringPolicyStamp = { id: doc.id, version: doc.version };
+
+    const chainOverride = context.chainId ? chains?.[context.chainId] : undefined;
+    if (chainOverride) {
+        policy = applyOverride(policy, chainOverride);
+        stamp.chainOverride = context.chainId;
+    }
+
+    if (context.product) {
+        const productOverride = products?.[context.product];
+        if (!productOverride) throw new ScoringPolicyError(`${doc.id} has no product "${context.product}"`);
+        policy = applyOverride(policy, productOverride);
+        stamp.product = context.product;
+    }
+
+    return { policy, stamp };
+};
@@ -0,0 +1,46 @@
+import { normalizeAddress } from '../lib/addresses';
+
+// ───────────────────────────────────────────────
+// Burn addresses and token lockers — tokens sent here are out of circulation
+// ───────────────────────────────────────────────
+
+/** Where a transfer's tokens ended up when they left circulation */
+export type TokenCustody = 'locked' | 'burned';
+
+/** Burn address → label. EVM addresses are lowercase. */
+export const BURN_ADDRESSES: Record<string, string> = {
+    '0x000000000000000000000000000000000000dead': 'Dead',
+    '0x0000000000000000000000000000000000000000': 'Null',
+    '1nc1nerator11111111111111111111111111111111': 'Solana Incinerator',
+};
+
+/** Lowercase EVM locker contract → label */
+export const TOKEN_LOCKERS: Record<string, string> = {
+    '0x663a5c229c09b049e36dcc11a9b0d4a8eb9db214': 'Unicrypt V2 Locker (Ethereum)',
+    '0xdba68f07d1b7ca219f78ae8582c213d975c25caf': 'Unicrypt Token Vesting (Ethereum)',
+    '0xc765bddb93b0d1c1a88282ba0fa6b2d00e3e0c83': 'Unicrypt PancakeSwap Locker (BSC)',
+    '0xe2fe530c047f2d85298b07d9333c05737f1435fb': 'Team.Finance Lock',
+    '0x407993575c91ce7643a4d4ccacc9a98c36ee1bbe': 'PinkLock V2',
+    '0x7ee058420e5937496f5a2096f04caa7721cf70cc': 'PinkLock V1 (BSC)',
+};
+
+/**
+ * Solana locker programs → label. Locked tokens sit in escrow accounts derived per lock,
+ * so a transfer counts as locked when its transaction invokes one of these programs.
+ */
+export const LOCKER_PROGRAMS: Record<string, string> = {
+    'strmRqUCoQUgGUan5YhzUZa6KqdzwX5L6FpUxfmKg5m': 'Streamflow',
+};
+
+// Own keys only — `in` would also match inherited names like 'constructor'
+const listed = (registry: Record<string, string>, key: string) => Object.prototype.hasOwnProperty.call(registry, key);
+
+/** 'burned' or 'locked' when `address` is a burn address or a known locker contract */
+export const custodyOf = (address: string): TokenCustody | undefined => {
+    const key = normalizeAddress(address);
+    if (listed(BURN_ADDRESSES, key)) return 'burned';
+    if (listed(TOKEN_LOCKERS, key)) return 'locked';
+    return undefined;
+};
+
+export const isLockerProgram = (programId: string): boolean => listed(LOCKER_PROGRAMS, programId);
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { computeWalletPnl } from './walletPnl';
+import { buildWallet, buildBuyer, linkTransfer } from '../test/walletFixtures';
+
+const SOL_USD = 100;
+
+describe('computeWalletPnl', () => {
+    it('splits PnL into realized and unrealized at the average cost', () => {
+        const wallet = buildWallet('W', {
+            buys: [{ tokenAmount: 1_000, timestamp: 1, quoteAmount: 1 }, { tokenAmount: 1_000, timestamp: 2, quoteAmount: 3 }],
+            sells: [{ tokenAmount: 500, timestamp: 3, quoteAmount: 2 }],
+            currentBalance: 1_500,
+        });
+
+        // Cost $0.20 per token; 500 sold for $200, 1,500 held at $0.50
+        expect(computeWalletPnl(wallet, 0.5, SOL_USD)).toEqual({
+            investedUSD: 400,
+            proceedsUSD: 200,
+            realizedUSD: 100,
+            unrealizedUSD: 450,
+        });
+    });
+
+    it('gives tokens received by transfer no cost of their own', () => {
+        const sender = buildWallet('Sender', { buys: [{ tokenAmount: 1_000, timestamp: 1, quoteAmount: 1 }], currentBalance: 1_000 });
+        const recipient = buildWallet('Recipient', { currentBalance: 1_000 });
+        linkTransfer(sender, recipient, 1_000, 2);
+        recipient.sells.push({ tokenAmount: 1_000, timestamp: 3, quoteAmount: 5 });
+
+        expect(computeWalletPnl(recipient, 0.1, SOL_USD)).toMatchObject({ investedUSD: 0, realizedUSD: 500 });
+    });
+
+    it('keeps unpriced swaps out of the cost basis and marks the result partial', () => {
+        // 1,000 bought for 1 SOL, 1,000 more paid in another token; half of each sold
+        const wallet = buildWallet('Mixed', {
+            buys: [{ tokenAmount: 1_000, timestamp: 1, quoteAmount: 1 }, { tokenAmount: 1_000, timestamp: 2 }],
+            sells: [{ tokenAmount: 500, timestamp: 3, quoteAmount: 1 }, { tokenAmount: 500, timestamp: 4 }],
+            currentBalance: 1_000,
+        });
+
+        // Cost $0.10 per token from the priced buy alone, not $0.05 spread over both
+        expect(computeWalletPnl(wallet, 0.2, SOL_USD)).toEqual({
+            investedUSD: 100,
+            proceedsUSD: 100,
+            realizedUSD: 50,
+            unrealizedUSD: 100,
+            partial: true,
+        });
+    });
+
+    it('is undefined when no swap was priced or the native price is unknown', () => {
+        expect(computeWalletPnl(buildBuyer('W', 1), 0.5, SOL_USD)).toBeUndefined();
+        const priced = buildWallet('P', { buys: [{ tokenAmount: 1, timestamp: 1, quoteAmount: 1 }] });
+        expect(computeWalletPnl(priced, 0.5, 0)).toBeUndefined();
+    });
+});
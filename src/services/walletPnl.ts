@@ -0,0 +1,44 @@
+import { HeliusWalletData } from './heliusService';
+import { WalletPnl, WalletTrade } from '../lib/mockData';
+
+// ───────────────────────────────────────────────
+// Wallet PnL on the scanned token — average-cost basis
+//
+// Every token the wallet acquired shares one cost per token: what it paid on
+// priced buys divided by the tokens those buys and incoming transfers brought in.
+// Tokens received by transfer therefore carry no cost of their own, which is what
+// they cost the recipient. Swaps without a quote amount (e.g. paid in another
+// token) have no known price, so they stay out of the basis and out of realized
+// PnL, and the result is marked partial. Native amounts are valued at today's
+// native price, so PnL moves with SOL as well as with the token.
+// ───────────────────────────────────────────────
+
+const round = (v: number) => parseFloat(v.toFixed(2));
+
+/**
+ * Realized and unrealized PnL in USD, or undefined when none of the wallet's
+ * swaps carry a quote amount (or the native price is unknown).
+ */
+export const computeWalletPnl = (wallet: HeliusWalletData, priceUsd: number, nativeUsd: number): WalletPnl | undefined => {
+    const isPriced = (t: WalletTrade) => t.quoteAmount !== undefined;
+    const buys = wallet.buys.filter(isPriced);
+    const sells = wallet.sells.filter(isPriced);
+    if (buys.length + sells.length === 0 || nativeUsd <= 0) return undefined;
+
+    const investedUSD = buys.reduce((sum, b) => sum + b.quoteAmount!, 0) * nativeUsd;
+    const proceedsUSD = sells.reduce((sum, s) => sum + s.quoteAmount!, 0) * nativeUsd;
+
+    const acquired = buys.reduce((sum, b) => sum + b.tokenAmount, 0)
+        + wallet.incomingTransfers.reduce((sum, t) => sum + t.tokenAmount, 0);
+    const costPerToken = acquired > 0 ? investedUSD / acquired : 0;
+    const sold = sells.reduce((sum, s) => sum + s.tokenAmount, 0);
+    const partial = buys.length < wallet.buys.length || sells.length < wallet.sells.length;
+
+    return {
+        investedUSD: round(investedUSD),
+        proceedsUSD: round(proceedsUSD),
+        realizedUSD: round(proceedsUSD - sold * costPerToken),
+        unrealizedUSD: round(wallet.currentBalance * (priceUsd - costPerToken)),
+        ...(partial && { partial }),
+    };
+};
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createReputationRegistry, entriesForScan, ReputationEntry } from './walletReputation';
+import { memoryHistoryBackend } from './scanHistory';
+import { MOCK_SCENARIOS, ScanResult, BundleCluster, BundleWallet, ClusterGraph } from '../lib/mockData';
+
+const wallet = (address: string, overrides: Partial<BundleWallet> = {}): BundleWallet => ({
+    address, boughtAmount: 100, receivedAmount: 0, currentBalance: 100, soldAmount: 0, holdingUSD: 1, status: 'active', ...overrides,
+});
+
+const cluster = (id: string, wallets: BundleWallet[]): BundleCluster => ({
+    id, wallets, totalSupplyPercent: 1, totalValueUSD: 1, status: 'Active', lpImpact: 0, risk: 'Low', riskScore: 35, riskFactors: [], internalTransferCount: 0,
+});
+
+const scan = (tokenAddress: string, clusters: BundleCluster[], clusterGraph?: ClusterGraph, chainId = 'solana'): ScanResult => {
+    const base = structuredClone(MOCK_SCENARIOS['VAMPIRE']);
+    return { ...base, chainId, tokenAddress, bundleControl: { ...base.analysis, clusters, clusterCount: clusters.length }, clusterGraph };
+};
+
+describe('entriesForScan', () => {
+    it('records seeds, level-N recipients and non-CEX funders with the outcome', () => {
+        const graph: ClusterGraph = {
+            nodes: [
+                { address: 'Seed1', clusterId: 'A', isSeedWallet: true, traceDepth: 0, fundedBy: 'Funder' },
+                { address: 'Seed2', clusterId: 'A', isSeedWallet: true, traceDepth: 0, fundedBy: 'Funder' },
+                { address: 'Hop2', clusterId: 'A', isSeedWallet: false, traceDepth: 2, fundedBy: 'Binance', fundedByCex: true },
+            ],
+            edges: [],
+        };
+        const result = scan('TokenA', [cluster('A', [wallet('Seed1'), wallet('Seed2', { status: 'sold_all' }), wallet('Hop2', { boughtAmount: 0, receivedAmount: 50 })])], graph);
+
+        const entries = entriesForScan(result, new Date('2024-01-01T00:00:00Z'));
+        expect(entries.map(e => [e.address, e.role, e.depth, e.outcome.walletStatus])).toEqual([
+            ['Seed1', 'seed', undefined, 'active'],
+            ['Funder', 'funder', undefined, undefined],
+            ['Seed2', 'seed', undefined, 'sold_all'],
+            ['Hop2', 'recipient', 2, 'active'],
+        ]);
+        expect(entries[0]).toMatchObject({ chainId: 'solana', tokenAddress: 'TokenA', clusterId: 'A', seenAt: '2024-01-01T00:00:00.000Z' });
+        expect(entries[0].outcome).toMatchObject({ riskLevel: result.riskLevel, score: result.score });
+    });
+
+    it('falls back to buy/receive amounts without a trace graph and skips scans without clusters', () => {
+        const entries = entriesForScan(scan('TokenA', [cluster('A', [wallet('Buyer'), wallet('Receiver', { boughtAmount: 0, receivedAmount: 10 })])]));
+        expect(entries.map(e => e.role)).toEqual(['seed', 'recipient']);
+        expect(entriesForScan(scan('TokenA', []))).toEqual([]);
+    });
+});
+
+describe('createReputationRegistry', () => {
+    const seed = async (...tokens: [string, string[]][]) => {
+        const registry = createReputationRegistry(memoryHistoryBackend<ReputationEntry>());
+        for (const [token, members] of tokens) await registry.recordScan(scan(token, [cluster('C', members.map(m => wallet(m)))]));
+        return registry;
+    };
+
+    it('aggregates sightings across distinct tokens, counting rescans of a launch once', async () => {
+        const registry = await seed(['TokenA', ['W1', 'W2']], ['TokenA', ['W1']], ['TokenB', ['W1']]);
+
+        const reps = await registry.lookup(['W1', 'W2', 'W3']);
+        expect(reps.get('W1')?.tokens.map(t => t.tokenAddress)).toEqual(['TokenA', 'TokenB']);
+        expect(reps.get('W2')?.tokens).toHaveLength(1);
+        expect(reps.has('W3')).toBe(false);
+    });
+
+    it('stores a scan\'s sightings in one batch write', async () => {
+        const backend = memoryHistoryBackend<ReputationEntry>();
+        const append = vi.spyOn(backend, 'append');
+        const appendMany = vi.spyOn(backend, 'appendMany');
+
+        const entries = await createReputationRegistry(backend).recordScan(scan('TokenA', [cluster('C', [wallet('W1'), wallet('W2'), wallet('W3')])]));
+
+        expect(entries).toHaveLength(3);
+        expect(appendMany).toHaveBeenCalledTimes(1);
+        expect(appendMany).toHaveBeenCalledWith(entries);
+        expect(append).not.toHaveBeenCalled();
+    });
+
+    it('only flags wallets seen on enough OTHER tokens as serial bundlers', async () => {
+        const registry = await seed(['TokenA', ['W1', 'W2']], ['TokenB', ['W1', 'W2']], ['TokenC', ['W1']]);
+
+        const current = { chainId: 'solana', tokenAddress: 'TokenC' };
+        expect(await registry.findSerialBundlers(['W1', 'W2'], current)).toEqual(new Set(['W1', 'W2']));
+        expect(await registry.findSerialBundlers(['W1', 'W2'], { chainId: 'solana', tokenAddress: 'TokenB' })).toEqual(new Set(['W1']));
+
+        const strict = createReputationRegistry(memoryHistoryBackend<ReputationEntry>(), { minTokens: 3 });
+        expect(await strict.findSerialBundlers(['W1'])).toEqual(new Set());
+    });
+
+    it('matches EVM addresses regardless of case', async () => {
+        const registry = createReputationRegistry(memoryHistoryBackend<ReputationEntry>(), { minTokens: 1 });
+        await registry.recordScan(scan('0xTOKEN', [cluster('C', [wallet('0xABCDEF')])], undefined, 'ethereum'));
+
+        expect(await registry.findSerialBundlers(['0xabcdef'])).toEqual(new Set(['0xabcdef']));
+        expect(await registry.findSerialBundlers(['0xabcdef'], { chainId: 'ethereum', tokenAddress: '0xtoken' })).toEqual(new Set());
+    });
+});
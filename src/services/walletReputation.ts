@@ -0,0 +1,135 @@
+import { ScanResult, BundleWallet, RiskLevel } from '../lib/mockData';
+import { HistoryBackend } from './scanHistory';
+import { normalizeAddress } from '../lib/addresses';
+
+// ───────────────────────────────────────────────
+// Wallet reputation — bundlers and funders seen across launches
+// ───────────────────────────────────────────────
+
+export type ReputationRole = 'seed' | 'recipient' | 'funder';
+
+/** One sighting of a wallet inside a bundle cluster of one token */
+export interface ReputationEntry {
+    address: string;
+    chainId: string;
+    tokenAddress: string;
+    tokenSymbol: string;
+    role: ReputationRole;
+    depth?: number;             // trace depth for recipients (level-N)
+    clusterId: string;
+    outcome: {
+        walletStatus?: BundleWallet['status'];   // undefined for funders
+        riskLevel: RiskLevel;
+        score: number;
+    };
+    seenAt: string;
+}
+
+export interface WalletReputation {
+    address: string;
+    tokens: { chainId: string; tokenAddress: string; tokenSymbol: string }[];
+    roles: ReputationRole[];
+    /** Tokens where this wallet ended up `sold_all` */
+    soldAllCount: number;
+    lastSeenAt: string;
+}
+
+export interface ReputationRegistry {
+    /** Record every clustered wallet and funder of a finished scan */
+    recordScan(result: ScanResult, seenAt?: Date): Promise<ReputationEntry[]>;
+    /** Reputation for the given addresses, ignoring sightings on `exclude` (the token being scanned) */
+    lookup(addresses: string[], exclude?: { chainId: string; tokenAddress: string }): Promise<Map<string, WalletReputation>>;
+    /** Addresses bundled on at least `minTokens` other tokens */
+    findSerialBundlers(addresses: string[], exclude?: { chainId: string; tokenAddress: string }): Promise<Set<string>>;
+}
+
+export interface ReputationOptions {
+    /** Distinct other tokens a wallet must have been clustered in to count as a serial bundler (default 2) */
+    minTokens?: number;
+}
+
+export const entriesForScan = (result: ScanResult, seenAt: Date = new Date()): ReputationEntry[] => {
+    const clusters = result.bundleControl?.clusters || [];
+    if (clusters.length === 0) return [];
+
+    const nodes = new Map((result.clusterGraph?.nodes || []).map(n => [n.address, n]));
+    const base = {
+        chainId: result.chainId,
+        tokenAddress: normalizeAddress(result.tokenAddress),
+        tokenSymbol: result.tokenSymbol,
+        seenAt: seenAt.toISOString(),
+    };
+    const outcome = { riskLevel: result.riskLevel, score: result.score };
+    const entries: ReputationEntry[] = [];
+    const funders = new Set<string>();
+
+    clusters.forEach(cluster => cluster.wallets.forEach(w => {
+        const node = nodes.get(w.address);
+        // Without a trace graph, fall back to how the wallet got its tokens
+        const isSeed = node ? node.isSeedWallet : w.boughtAmount > 0 || w.receivedAmount === 0;
+        entries.push({
+            ...base,
+            address: normalizeAddress(w.address),
+            role: isSeed ? 'seed' : 'recipient',
+            depth: isSeed ? undefined : node?.traceDepth,
+            clusterId: cluster.id,
+            outcome: { ...outcome, walletStatus: w.status },
+        });
+
+        if (node?.fundedBy && !node.fundedByCex && !funders.has(node.fundedBy)) {
+            funders.add(node.fundedBy);
+            entries.push({ ...base, address: normalizeAddress(node.fundedBy), role: 'funder', clusterId: cluster.id, outcome });
+        }
+    }));
+
+    return entries;
+};
+
+export const createReputationRegistry = (
+    backend: HistoryBackend<ReputationEntry>,
+    options: ReputationOptions = {}
+): ReputationRegistry => {
+    const minTokens = options.minTokens ?? 2;
+
+    const lookup: ReputationRegistry['lookup'] = async (addresses, exclude) => {
+        const wanted = new Set(addresses.map(normalizeAddress));
+        const excludeKey = exclude ? `${exclude.chainId}:${normalizeAddress(exclude.tokenAddress)}` : undefined;
+
+        // Latest sighting per (address, token), so repeated scans of one launch count once
+        const latest = new Map<string, ReputationEntry>();
+        (await backend.load()).forEach(e => {
+            if (!wanted.has(e.address)) return;
+            const token = `${e.chainId}:${e.tokenAddress}`;
+            if (token === excludeKey) return;
+            const key = `${e.address}|${token}|${e.role}`;
+            const seen = latest.get(key);
+            if (!seen || seen.seenAt <= e.seenAt) latest.set(key, e);
+        });
+
+        const reputations = new Map<string, WalletReputation>();
+        latest.forEach(e => {
+            const rep = reputations.get(e.address) ?? { address: e.address, tokens: [], roles: [], soldAllCount: 0, lastSeenAt: e.seenAt };
+            if (!rep.tokens.some(t => t.chainId === e.chainId && t.tokenAddress === e.tokenAddress)) {
+                rep.tokens.push({ chainId: e.chainId, tokenAddress: e.tokenAddress, tokenSymbol: e.tokenSymbol });
+            }
+            if (!rep.roles.includes(e.role)) rep.roles.push(e.role);
+            if (e.outcome.walletStatus === 'sold_all') rep.soldAllCount++;
+            if (e.seenAt > rep.lastSeenAt) rep.lastSeenAt = e.seenAt;
+            reputations.set(e.address, rep);
+        });
+        return reputations;
+    };
+
+    return {
+        recordScan: async (result, seenAt) => {
+            const entries = entriesForScan(result, seenAt);
+            await backend.appendMany(entries);
+            return entries;
+        },
+        lookup,
+        findSerialBundlers: async (addresses, exclude) => {
+            const reputations = await lookup(addresses, exclude);
+            return new Set([...reputations.values()].filter(r => r.tokens.length >= minTokens).map(r => r.address));
+        },
+    };
+};
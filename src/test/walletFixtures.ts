@@ -0,0 +1,46 @@
+import { HeliusWalletData, FundingSource } from '../services/heliusService';
+
+// ───────────────────────────────────────────────
+// Fixture builders for HeliusWalletData
+// ───────────────────────────────────────────────
+
+/** A traced wallet with no activity; override only what the scenario needs */
+export const buildWallet = (address: string, overrides: Partial<HeliusWalletData> = {}): HeliusWalletData => ({
+    address,
+    buys: [],
+    sells: [],
+    outgoingTransfers: [],
+    incomingTransfers: [],
+    currentBalance: 0,
+    isSeedWallet: false,
+    traceDepth: 0,
+    ...overrides,
+});
+
+export const fundedBy = (address: string, overrides: Partial<FundingSource> = {}): FundingSource => ({
+    address,
+    amount: 1_000_000_000, // 1 SOL
+    timestamp: 1_000,
+    isCex: false,
+    ...overrides,
+});
+
+/** Seed wallet that bought `tokenAmount` at `timestamp` and still holds it */
+export const buildBuyer = (address: string, timestamp: number, tokenAmount = 1_000, overrides: Partial<HeliusWalletData> = {}): HeliusWalletData =>
+    buildWallet(address, {
+        buys: [{ tokenAmount, timestamp }],
+        currentBalance: tokenAmount,
+        isSeedWallet: true,
+        ...overrides,
+    });
+
+/** Record a token transfer on both sides, as the tracer would see it */
+export const linkTransfer = (from: HeliusWalletData, to: HeliusWalletData, tokenAmount: number, timestamp: number) => {
+    from.outgoingTransfers.push({ to: to.address, tokenAmount, timestamp });
+    to.incomingTransfers.push({ from: from.address, tokenAmount, timestamp });
+};
+
+export const addSell = (wallet: HeliusWalletData, tokenAmount: number, timestamp: number) => {
+    wallet.sells.push({ tokenAmount, timestamp });
+    wallet.currentBalance = Math.max(0, wallet.currentBalance - tokenAmount);
+};